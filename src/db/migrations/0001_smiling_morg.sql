@@ -0,0 +1 @@
+CREATE INDEX "load_run_files_practice_idx" ON "etl"."load_run_files" USING btree ("per_org_id","practice_id");
\ No newline at end of file
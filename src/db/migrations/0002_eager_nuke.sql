@@ -0,0 +1 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "attempt_count" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
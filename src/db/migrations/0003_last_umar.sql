@@ -0,0 +1 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "load_mode" text;
\ No newline at end of file
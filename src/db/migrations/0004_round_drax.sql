@@ -0,0 +1,3 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "content_hash" text;--> statement-breakpoint
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "duplicate_of_s3_key" text;--> statement-breakpoint
+CREATE INDEX "load_run_files_content_hash_idx" ON "etl"."load_run_files" USING btree ("content_hash");
\ No newline at end of file
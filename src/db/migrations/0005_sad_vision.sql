@@ -0,0 +1,15 @@
+CREATE TABLE "etl"."discovery_quarantine" (
+	"discovery_quarantine_id" serial PRIMARY KEY NOT NULL,
+	"s3_bucket" text NOT NULL,
+	"s3_key" text NOT NULL,
+	"s3_version_id" text DEFAULT '' NOT NULL,
+	"archive_entry_name" text DEFAULT '' NOT NULL,
+	"reason" text NOT NULL,
+	"error_message" text,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"seen_count" integer DEFAULT 1 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "discovery_quarantine_unique_idx" ON "etl"."discovery_quarantine" USING btree ("s3_bucket","s3_key","s3_version_id","archive_entry_name");--> statement-breakpoint
+CREATE INDEX "discovery_quarantine_reason_idx" ON "etl"."discovery_quarantine" USING btree ("reason");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "bytes_read" bigint;
\ No newline at end of file
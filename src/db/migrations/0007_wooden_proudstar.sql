@@ -0,0 +1,3 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "archived_s3_key" text;--> statement-breakpoint
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "archived_s3_version_id" text;--> statement-breakpoint
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "archived_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "detected_encoding" text;
\ No newline at end of file
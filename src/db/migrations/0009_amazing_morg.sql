@@ -0,0 +1,13 @@
+CREATE TABLE "etl"."raw_rejects" (
+	"raw_reject_id" serial PRIMARY KEY NOT NULL,
+	"load_run_file_id" integer NOT NULL,
+	"row_number" integer NOT NULL,
+	"reason" text NOT NULL,
+	"expected_field_count" integer NOT NULL,
+	"actual_field_count" integer NOT NULL,
+	"row_text" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "etl"."raw_rejects" ADD CONSTRAINT "raw_rejects_load_run_file_id_load_run_files_load_run_file_id_fk" FOREIGN KEY ("load_run_file_id") REFERENCES "etl"."load_run_files"("load_run_file_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "raw_rejects_load_run_file_idx" ON "etl"."raw_rejects" USING btree ("load_run_file_id");
\ No newline at end of file
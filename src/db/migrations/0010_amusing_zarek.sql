@@ -0,0 +1,21 @@
+ALTER TABLE "raw"."patients" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."providers" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."practice_info" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."appointments" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."medicine" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."vaccine" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."immunisation" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."next_of_kin" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."diagnoses" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."allergies" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."appointment_medications" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."invoices" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."invoice_detail" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."inbox" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."inbox_detail" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."measurements" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."patient_alerts" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "raw"."recalls" ADD COLUMN "source_row_number" integer;--> statement-breakpoint
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "checkpoint_row_number" integer;--> statement-breakpoint
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "checkpoint_byte_offset" bigint;--> statement-breakpoint
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "checkpoint_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "etl"."schema_drift" (
+	"schema_drift_id" serial PRIMARY KEY NOT NULL,
+	"load_run_file_id" integer NOT NULL,
+	"extract_type" text NOT NULL,
+	"policy" text NOT NULL,
+	"expected_field_count" integer NOT NULL,
+	"rows_observed" integer NOT NULL,
+	"drifted_rows" integer NOT NULL,
+	"field_counts" jsonb NOT NULL,
+	"samples" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "raw"."patients" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."providers" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."practice_info" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."appointments" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."medicine" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."vaccine" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."immunisation" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."next_of_kin" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."diagnoses" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."allergies" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."appointment_medications" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."invoices" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."invoice_detail" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."inbox" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."inbox_detail" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."measurements" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."patient_alerts" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "raw"."recalls" ADD COLUMN "overflow_fields" jsonb;--> statement-breakpoint
+ALTER TABLE "etl"."schema_drift" ADD CONSTRAINT "schema_drift_load_run_file_id_load_run_files_load_run_file_id_fk" FOREIGN KEY ("load_run_file_id") REFERENCES "etl"."load_run_files"("load_run_file_id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "schema_drift_load_run_file_idx" ON "etl"."schema_drift" USING btree ("load_run_file_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "etl"."load_run_files" ADD COLUMN "s3_etag" text;
\ No newline at end of file
@@ -3,8 +3,10 @@ import {
   timestamp,
   uuid,
   integer,
+  bigint,
   decimal,
   serial,
+  jsonb,
   uniqueIndex,
   index,
 } from "drizzle-orm/pg-core";
@@ -44,17 +46,30 @@ export const loadRunFiles = createTable(
     s3Key: text("s3_key").notNull(),
     s3VersionId: text("s3_version_id").notNull(),
     fileHash: text("file_hash").notNull(),
-    dateExtracted: text("date_extracted").notNull(),
+    s3Etag: text("s3_etag"), // ETag of the object as loaded, to tell a re-upload to an unversioned key apart
+    dateExtracted: text("date_extracted").notNull(), // ISO 8601 UTC instant
     extractType: text("extract_type").notNull(),
     perOrgId: text("per_org_id").notNull(),
     practiceId: text("practice_id").notNull(),
     rowsRead: integer("rows_read").default(0),
     rowsIngested: integer("rows_ingested").default(0),
     rowsRejected: integer("rows_rejected").default(0),
+    bytesRead: bigint("bytes_read", { mode: "number" }), // CSV bytes read, after decompression
+    detectedEncoding: text("detected_encoding"), // 'utf16le', 'utf16be', 'utf8', 'windows1252' - as read by the CSV parser
+    checkpointRowNumber: integer("checkpoint_row_number"), // Last row handled by a committed batch, to resume from
+    checkpointByteOffset: bigint("checkpoint_byte_offset", { mode: "number" }), // CSV bytes read by then
+    checkpointAt: timestamp("checkpoint_at", { withTimezone: true }),
     startedAt: timestamp("started_at", { withTimezone: true }),
     finishedAt: timestamp("finished_at", { withTimezone: true }),
     status: text("status").notNull(), // 'pending', 'processing', 'completed', 'failed'
     errorMessage: text("error_message"),
+    attemptCount: integer("attempt_count").notNull().default(1), // Load attempts, capped by discovery retry policy
+    loadMode: text("load_mode"), // 'full', 'delta' - as detected by the discovery load mode policy
+    contentHash: text("content_hash"), // SHA-256 of the content, hashed while loading
+    duplicateOfS3Key: text("duplicate_of_s3_key"), // Earlier file loaded with identical content
+    archivedS3Key: text("archived_s3_key"), // Where the object was moved once loaded, under processed/ or failed/
+    archivedS3VersionId: text("archived_s3_version_id"), // Version of the archived copy
+    archivedAt: timestamp("archived_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -70,6 +85,90 @@ export const loadRunFiles = createTable(
     ),
     // Index for querying files by load run
     index("load_run_files_load_run_idx").on(table.loadRunId),
+    // Index for per-practice reporting across organisations
+    index("load_run_files_practice_idx").on(table.perOrgId, table.practiceId),
+    // Index for finding files with identical content
+    index("load_run_files_content_hash_idx").on(table.contentHash),
+  ]
+);
+
+// Discovery quarantine - listed files that could not be parsed or are unexpected
+export const discoveryQuarantine = createTable(
+  "etl.discovery_quarantine",
+  {
+    discoveryQuarantineId: serial("discovery_quarantine_id").primaryKey(),
+    s3Bucket: text("s3_bucket").notNull(),
+    s3Key: text("s3_key").notNull(),
+    s3VersionId: text("s3_version_id").notNull().default(""),
+    archiveEntryName: text("archive_entry_name").notNull().default(""), // Entry within a zip archive, empty for other files
+    reason: text("reason").notNull(), // 'unparseable_filename', 'unknown_practice', 'unknown_extract_type', 'invalid_timestamp', 'invalid_date_order'
+    errorMessage: text("error_message"),
+    firstSeenAt: timestamp("first_seen_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    lastSeenAt: timestamp("last_seen_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    seenCount: integer("seen_count").notNull().default(1),
+  },
+  (table) => [
+    // One record per file, updated each time discovery sees it again
+    uniqueIndex("discovery_quarantine_unique_idx").on(
+      table.s3Bucket,
+      table.s3Key,
+      table.s3VersionId,
+      table.archiveEntryName
+    ),
+    // Index for reviewing quarantined files by reason
+    index("discovery_quarantine_reason_idx").on(table.reason),
+  ]
+);
+
+// Raw rejects - parsed rows that could not be loaded into raw.*
+export const rawRejects = createTable(
+  "etl.raw_rejects",
+  {
+    rawRejectId: serial("raw_reject_id").primaryKey(),
+    loadRunFileId: integer("load_run_file_id")
+      .notNull()
+      .references(() => loadRunFiles.loadRunFileId),
+    rowNumber: integer("row_number").notNull(), // Position among the file's parsed rows, from 1
+    reason: text("reason").notNull(), // 'field_count_mismatch'
+    expectedFieldCount: integer("expected_field_count").notNull(),
+    actualFieldCount: integer("actual_field_count").notNull(),
+    rowText: text("row_text").notNull(), // Parsed fields joined with the field separator
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Index for reviewing the rejects of a file
+    index("raw_rejects_load_run_file_idx").on(table.loadRunFileId),
+  ]
+);
+
+// Schema drift - field counts of a raw file that differ from its extract's columns
+export const schemaDrift = createTable(
+  "etl.schema_drift",
+  {
+    schemaDriftId: serial("schema_drift_id").primaryKey(),
+    loadRunFileId: integer("load_run_file_id")
+      .notNull()
+      .references(() => loadRunFiles.loadRunFileId),
+    extractType: text("extract_type").notNull(),
+    policy: text("policy").notNull(), // 'fail', 'warn', 'overflow'
+    expectedFieldCount: integer("expected_field_count").notNull(),
+    rowsObserved: integer("rows_observed").notNull(),
+    driftedRows: integer("drifted_rows").notNull(),
+    fieldCounts: jsonb("field_counts").notNull(), // Rows by field count, e.g. {"47": 1200, "48": 3}
+    samples: jsonb("samples").notNull(), // Drifted rows with their extra or missing field positions
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    // Index for reviewing the drift of a file
+    index("schema_drift_load_run_file_idx").on(table.loadRunFileId),
   ]
 );
 
@@ -8,6 +8,7 @@ import {
   check,
   uniqueIndex,
   foreignKey,
+  jsonb,
 } from "drizzle-orm/pg-core";
 import { createTable } from "../../utils/create-table";
 import { loadRunFiles } from "../etl/audit";
@@ -67,6 +68,8 @@ export const diagnosesRaw = createTable("raw.diagnoses", {
 
   // Foreign key to load_run_files for lineage data
   loadRunFileId: integer("load_run_file_id").notNull(),
+  sourceRowNumber: integer("source_row_number"), // Row within the file, from 1; null for rows loaded before rows were numbered
+  overflowFields: jsonb("overflow_fields"), // Fields past the extract's columns, kept when schema drift policy is "overflow"
 });
 
 // Foreign key constraint to etl.load_run_files
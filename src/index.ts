@@ -1,6 +1,9 @@
 import "dotenv/config";
 import {
   S3DiscoveryService,
+  DiscoveryWatcher,
+  DEFAULT_WATCH_CONFIG,
+  type BatchPipeline,
   type ProcessingPlan,
 } from "./services/discovery/index";
 import {
@@ -9,13 +12,21 @@ import {
   type ProcessingPlanResult,
 } from "./services/raw-loader/index";
 import type { RawLoaderConfig } from "./services/raw-loader/types/config";
-import type { DiscoveredFile } from "./services/discovery/types/files";
+import type {
+  DiscoveredFile,
+  FileBatch,
+} from "./services/discovery/types/files";
+import type {
+  FileSourceConfig,
+  S3DiscoveryConfig,
+} from "./services/discovery/types/config";
 import {
   StagingTransformerContainer,
   ColumnType,
   ValidationRuleBuilders,
   type StagingExtractHandler,
   StagingHandlerFactory,
+  type StagingTransformerConfig,
 } from "@/services/staging-transformer/index";
 import { LoadRunService } from "@/services/raw-loader/load-run-service";
 import type { ExtractType } from "@/db/schema";
@@ -25,6 +36,11 @@ interface AppConfig {
   databaseUrl: string;
   s3Bucket?: string;
   awsRegion?: string;
+  localExtractsDir?: string;
+  rerunBatchId?: string;
+  rerunPracticeKey?: string;
+  watch: boolean;
+  watchIntervalMinutes?: number;
   failOnError: boolean;
 }
 
@@ -32,6 +48,13 @@ const config: AppConfig = {
   databaseUrl: `postgresql://${process.env.DB_USER}:${process.env.DB_PASSWORD}@${process.env.DB_HOST}:${process.env.DB_PORT}/${process.env.DB_NAME}`, // PostgreSQL connection string for the ETL database
   s3Bucket: process.env.S3_BUCKET_NAME, // S3 bucket name containing Indici healthcare data extracts
   awsRegion: process.env.AWS_REGION, // AWS region where the S3 bucket is located
+  localExtractsDir: process.env.LOCAL_EXTRACTS_DIR, // Local folder of Indici extracts, used instead of S3 when set
+  rerunBatchId: process.env.RERUN_BATCH_ID, // Batch ID (YYMMDDHHMM) to re-run instead of discovering the latest files
+  rerunPracticeKey: process.env.RERUN_PRACTICE_KEY, // Practice of the batch to re-run, e.g. "685146_535"
+  watch: process.env.WATCH_MODE === "true", // Keep polling for new batches and load each through raw -> staging -> core
+  watchIntervalMinutes: process.env.WATCH_INTERVAL_MINUTES
+    ? Number(process.env.WATCH_INTERVAL_MINUTES)
+    : undefined, // Minutes between polls in watch mode (default: 60)
   failOnError: process.env.NODE_ENV !== "production", // Whether to exit on errors (true for development, false for production)
 };
 
@@ -40,6 +63,19 @@ function init(): void {
   console.log(`📡 Database URL: ${config.databaseUrl}`);
   console.log(`☁️  S3 Bucket: ${config.s3Bucket || "Not configured"}`);
   console.log(`🌍 AWS Region: ${config.awsRegion || "Not configured"}`);
+  console.log(
+    `📂 Local Extracts: ${config.localExtractsDir || "Not configured"}`
+  );
+  if (config.rerunBatchId) {
+    console.log(
+      `🔁 Re-running batch: ${config.rerunBatchId}${config.rerunPracticeKey ? ` (${config.rerunPracticeKey})` : ""}`
+    );
+  }
+  if (config.watch) {
+    console.log(
+      `👀 Watch mode: every ${config.watchIntervalMinutes ?? DEFAULT_WATCH_CONFIG.intervalMinutes} minutes`
+    );
+  }
   console.log(`🧪 Test Mode: ${config.failOnError ? "Enabled" : "Disabled"}`);
 }
 
@@ -64,34 +100,150 @@ const testExtractTypes: ExtractType[] = [
   // "PatientAlerts",
 ];
 
+// Raw loader configuration
+const rawLoaderConfig: RawLoaderConfig = {
+  // Database configuration
+  database: {
+    poolSize: 10, // Number of database connections to maintain in the pool
+    timeoutMs: 30000, // Timeout for database operations in milliseconds
+    maxConnections: 20, // Maximum number of database connections allowed
+  },
+  // Processing configuration
+  processing: {
+    batchSize: 1000, // Batch size raw records to be loaded into the database
+    maxConcurrentFiles: 5, // Maximum number of files to process concurrently
+    maxMemoryMB: 512, // Maximum memory usage for the raw loader
+    enableStreaming: true, // Whether to enable streaming for the raw loader
+    bufferSizeMB: 16, // Buffer size for the raw loader
+    continueOnError: true, // Whether to continue processing other batches when one fails
+    forceReprocess: false, // This will force a reprocessing of the file if already processed (by IdempotencyService)
+  },
+  // Error handling configuration, also used to retry transient S3 and database failures
+  errorHandling: {
+    maxRetries: 3, // Maximum number of retries for failed batches
+    retryDelayMs: 1000, // Delay between retries for failed batches
+    continueOnError: true, // Whether to continue processing other batches when one fails
+    logErrors: true, // Whether to log errors
+    errorThreshold: 0.1, // Error percentage threshold for the raw loader, if the error rate exceeds this threshold, the raw loader will stop processing
+  },
+  // Monitoring configuration
+  // TODO: Use this monitoring service in all of the stages
+  monitoring: {
+    enableMetrics: true, // Whether to collect and report performance metrics
+    logLevel: "info", // Logging level for the raw loader (debug, info, warn, error)
+    metricsInterval: 30000, // Interval for collecting metrics in milliseconds
+    enableProgressTracking: true, // Whether to enable progress tracking for the raw loader
+    progressUpdateInterval: 5000, // Interval for progress tracking updates in milliseconds
+  },
+  logging: {
+    level: LogLevels.INFO, // Logging level for the raw loader (debug, info, warn, error)
+    prefix: "[RawLoader]",
+  },
+};
+
+// Staging transformer configuration
+const stagingTransformerConfig: Partial<StagingTransformerConfig> = {
+  transformation: {
+    batchSize: 1000, // Number of records to process in each transformation batch
+    maxConcurrentTransforms: 3, // Maximum number of concurrent transformation operations
+    enableTypeCoercion: true, // Whether to automatically convert data types during transformation
+    dateFormat: "YYYY-MM-DD", // Expected format for date fields in the data
+    timestampFormat: "YYYY-MM-DD HH:mm:ss", // Expected format for timestamp fields in the data
+    decimalPrecision: 2, // Number of decimal places to maintain for numeric values
+    trimStrings: true, // Whether to remove leading/trailing whitespace from string values
+    nullifyEmptyStrings: true, // Whether to convert empty strings to null values
+  },
+  validation: {
+    enableValidation: true, // Whether to validate data during transformation
+    failOnValidationError: false, // Whether to stop processing when validation errors occur
+    maxErrorsPerBatch: 100, // Maximum validation errors allowed per batch before stopping
+    maxTotalErrors: 1000, // Maximum total validation errors allowed for the entire process
+    rejectInvalidRows: true, // Whether to reject and track rows that fail validation
+    trackRejectionReasons: true, // Whether to capture and report reasons for row rejections
+  },
+  errorHandling: {
+    continueOnError: true, // Whether to continue processing other batches when one fails
+    maxRetries: 3, // Maximum number of retry attempts for failed transformations
+    retryDelayMs: 1000, // Delay between retry attempts in milliseconds
+    captureRawRow: true, // Whether to capture the original raw data when errors occur
+    enableDetailedLogging: true, // Whether to enable verbose error logging
+  },
+};
+
+/**
+ * Resolve where extract files are read from, a local folder takes precedence over S3
+ */
+function getFileSource(): FileSourceConfig | undefined {
+  if (config.localExtractsDir) {
+    return { type: "local", local: { rootDir: config.localExtractsDir } };
+  }
+
+  if (config.s3Bucket && config.awsRegion) {
+    return {
+      type: "s3",
+      s3: {
+        bucket: config.s3Bucket,
+        region: config.awsRegion,
+        maxConcurrency: 1,
+        retryAttempts: 2,
+      },
+    };
+  }
+
+  return undefined;
+}
+
+// Discovery settings for the test run; watch mode uses the service defaults
+const testDiscoverySettings: Partial<S3DiscoveryConfig> = {
+  discovery: {
+    batchSize: 1, // Number of files to process in each discovery batch
+    maxFilesPerBatch: 1, // Maximum files to include per processing batch
+    enableVersioning: true, // Whether to check for S3 object versions
+    validateHashes: false, // Whether to validate file integrity using hashes
+    cacheMetadata: false, // Whether to cache S3 metadata to reduce API calls
+    cacheTtlMinutes: 5, // Time-to-live for cached metadata in minutes
+  },
+  processing: {
+    priorityExtracts: testExtractTypes, // List of extract types to prioritize during processing
+    maxConcurrentFiles: 1, // Maximum files to process concurrently
+    processingTimeoutMs: 60000, // Timeout for individual file processing operations
+  },
+};
+
+/**
+ * Create the discovery service for a file source
+ */
+function createDiscoveryService(
+  fileSource: FileSourceConfig,
+  settings: Partial<S3DiscoveryConfig> = {}
+): S3DiscoveryService {
+  return new S3DiscoveryService({
+    source: fileSource.type,
+    local: fileSource.type === "local" ? fileSource.local : undefined,
+    s3: {
+      bucket: config.s3Bucket ?? "local", // S3 bucket to scan for data files
+      region: config.awsRegion ?? "ap-southeast-2", // AWS region for S3 operations
+      maxConcurrency: 1, // Maximum concurrent S3 requests for file operations
+      retryAttempts: 2, // Number of retry attempts for failed S3 operations
+    },
+    ...settings,
+  });
+}
+
 async function testDiscoveryService(): Promise<ProcessingPlan | null> {
   try {
-    if (!config.s3Bucket || !config.awsRegion) {
-      console.log("⚠️  Cannot test discovery service - missing S3 credentials");
+    const fileSource = getFileSource();
+    if (!fileSource) {
+      console.log(
+        "⚠️  Cannot test discovery service - missing S3 credentials or local extracts folder"
+      );
       return null;
     }
 
-    const discoveryService = new S3DiscoveryService({
-      s3: {
-        bucket: config.s3Bucket, // S3 bucket to scan for data files
-        region: config.awsRegion, // AWS region for S3 operations
-        maxConcurrency: 1, // Maximum concurrent S3 requests for file operations
-        retryAttempts: 2, // Number of retry attempts for failed S3 operations
-      },
-      discovery: {
-        batchSize: 1, // Number of files to process in each discovery batch
-        maxFilesPerBatch: 1, // Maximum files to include per processing batch
-        enableVersioning: true, // Whether to check for S3 object versions
-        validateHashes: false, // Whether to validate file integrity using hashes
-        cacheMetadata: false, // Whether to cache S3 metadata to reduce API calls
-        cacheTtlMinutes: 5, // Time-to-live for cached metadata in minutes
-      },
-      processing: {
-        priorityExtracts: testExtractTypes, // List of extract types to prioritize during processing
-        maxConcurrentFiles: 1, // Maximum files to process concurrently
-        processingTimeoutMs: 60000, // Timeout for individual file processing operations
-      },
-    });
+    const discoveryService = createDiscoveryService(
+      fileSource,
+      testDiscoverySettings
+    );
 
     const isDiscoveryHealthy = await discoveryService.healthCheck();
     console.log(
@@ -105,22 +257,43 @@ async function testDiscoveryService(): Promise<ProcessingPlan | null> {
      * - batches: Array of FileBatch objects, each containing files from the same extraction date
      * - totalFiles: Total count of files across all batches
      * - estimatedDuration: Estimated processing time in seconds
-     * - dependencies: Extract type dependencies (e.g., Patients before Appointments)
+     * - durationEstimate: Per-file and per-stage estimates with low/high bands
+     * - dependencies: Extract type dependencies (e.g., Patient before Appointments)
+     * - stages: Extract types grouped by dependency stage; each stage can load in parallel
      * - processingOrder: Optimized order for processing files
+     * - fileCounts: Planned files by reason (new, failed, stale, reprocessed)
+     * - quarantinedFiles: Files over the retry cap, left out of the plan
      * - warnings: Non-critical issues found during discovery
+     *
+     * Files already completed in etl.load_run_files are left out unless
+     * includeProcessed is set
      */
-    const processingPlan = await discoveryService.discoverLatestFiles({
-      extractTypes: testExtractTypes,
-      // Remove maxBatches limit to process all available batches
-    });
+    const processingPlan = config.rerunBatchId
+      ? await discoveryService.discoverSpecificBatchPlan(
+          config.rerunBatchId,
+          config.rerunPracticeKey
+        )
+      : await discoveryService.discoverLatestFiles({
+          extractTypes: testExtractTypes,
+          // Remove maxBatches limit to process all available batches
+        });
 
     console.log(
       `📁 Found ${processingPlan.batches.length} batches with ${processingPlan.totalFiles} total files for extraction:\n${processingPlan.batches
         .flatMap((b) => b.files)
-        .map((f) => f.s3Key)
+        .map((f) => `${f.s3Key} (${f.processingReason ?? "new"})`)
         .join("\n")}
       `
     );
+    console.log(
+      `⏱️  Estimated duration: ${Math.ceil(processingPlan.durationEstimate.expectedSeconds / 60)} minutes (${Math.ceil(processingPlan.durationEstimate.lowSeconds / 60)}-${Math.ceil(processingPlan.durationEstimate.highSeconds / 60)})`
+    );
+    console.log(
+      `🧭 Load stages: ${processingPlan.stages.map((stage) => stage.join(" + ")).join(" -> ")}`
+    );
+    console.log(
+      `🏷️  New: ${processingPlan.fileCounts.new}, previously failed: ${processingPlan.fileCounts.failed}, stale: ${processingPlan.fileCounts.stale}, reprocessed: ${processingPlan.fileCounts.reprocessed}, quarantined: ${processingPlan.quarantinedFiles.length}`
+    );
     return processingPlan;
   } catch (error) {
     console.error("❌ Discovery Service test failed:", error);
@@ -155,7 +328,7 @@ async function testRawLoaderService(
     // Create a single load run for this entire execution
     loadRunId = await loadRunService.createLoadRun({
       triggeredBy: "manual",
-      notes: `Processing ${processingPlan.totalFiles} files across ${processingPlan.batches.length} batches for extraction types: ${processingPlan.dependencies.map((d) => d.extractType).join(", ")}`,
+      notes: `Processing ${processingPlan.totalFiles} files across ${processingPlan.batches.length} batches for extraction types: ${processingPlan.dependencies.map((d) => d.extractType).join(", ")}. Practices: ${processingPlan.practices.map((p) => `${p.practiceName} (${p.perOrgId}/${p.practiceId}) ${p.totalFiles} files`).join("; ")}`,
     });
 
     if (!loadRunId) {
@@ -165,58 +338,7 @@ async function testRawLoaderService(
 
     console.log(`🎽 Created load run: ${loadRunId}`);
 
-    // Raw loader configuration
-    const rawLoaderConfig: RawLoaderConfig = {
-      // Database configuration
-      database: {
-        poolSize: 10, // Number of database connections to maintain in the pool
-        timeoutMs: 30000, // Timeout for database operations in milliseconds
-        maxConnections: 20, // Maximum number of database connections allowed
-      },
-      // Processing configuration
-      processing: {
-        batchSize: 1000, // Batch size raw records to be loaded into the database
-        maxConcurrentFiles: 5, // Maximum number of files to process concurrently
-        maxMemoryMB: 512, // Maximum memory usage for the raw loader
-        enableStreaming: true, // Whether to enable streaming for the raw loader
-        bufferSizeMB: 16, // Buffer size for the raw loader
-        continueOnError: true, // Whether to continue processing other batches when one fails
-        forceReprocess: false, // This will force a reprocessing of the file if already processed (by IdempotencyService)
-      },
-      // TODO: Ensure this is used in all stages - Error handling configuration
-      errorHandling: {
-        maxRetries: 3, // Maximum number of retries for failed batches
-        retryDelayMs: 1000, // Delay between retries for failed batches
-        continueOnError: true, // Whether to continue processing other batches when one fails
-        logErrors: true, // Whether to log errors
-        errorThreshold: 0.1, // Error percentage threshold for the raw loader, if the error rate exceeds this threshold, the raw loader will stop processing
-      },
-      // Monitoring configuration
-      // TODO: Use this monitoring service in all of the stages
-      monitoring: {
-        enableMetrics: true, // Whether to collect and report performance metrics
-        logLevel: "info", // Logging level for the raw loader (debug, info, warn, error)
-        metricsInterval: 30000, // Interval for collecting metrics in milliseconds
-        enableProgressTracking: true, // Whether to enable progress tracking for the raw loader
-        progressUpdateInterval: 5000, // Interval for progress tracking updates in milliseconds
-      },
-      logging: {
-        level: LogLevels.INFO, // Logging level for the raw loader (debug, info, warn, error)
-        prefix: "[RawLoader]",
-      },
-    };
-
-    const rawLoader = RawLoaderFactory.create(
-      rawLoaderConfig,
-      config.s3Bucket && config.awsRegion
-        ? {
-            bucket: config.s3Bucket,
-            region: config.awsRegion,
-            maxConcurrency: 1,
-            retryAttempts: 2,
-          }
-        : undefined
-    );
+    const rawLoader = RawLoaderFactory.create(rawLoaderConfig, getFileSource());
 
     const isRawLoaderHealthy = await rawLoader.healthCheck();
     console.log(
@@ -279,6 +401,14 @@ async function testRawLoaderService(
       });
     }
 
+    // Per-practice totals from load_run_files
+    const practiceSummary = await loadRunService.getPracticeSummary(loadRunId);
+    for (const practice of practiceSummary) {
+      console.log(
+        `🏥 Practice ${practice.perOrgId}/${practice.practiceId}: ${practice.completedFiles}/${practice.totalFiles} files completed, ${practice.failedFiles} failed, ${practice.totalRowsIngested} rows ingested`
+      );
+    }
+
     console.log("\n✅ Raw Loader Service tests completed successfully!");
     console.log(`📋 Load run ${loadRunId} completed`);
     return loadRunId;
@@ -317,33 +447,9 @@ async function testStagingTransformerService(
 
   try {
     // Create staging transformer
-    const transformer = StagingTransformerContainer.create({
-      transformation: {
-        batchSize: 1000, // Number of records to process in each transformation batch
-        maxConcurrentTransforms: 3, // Maximum number of concurrent transformation operations
-        enableTypeCoercion: true, // Whether to automatically convert data types during transformation
-        dateFormat: "YYYY-MM-DD", // Expected format for date fields in the data
-        timestampFormat: "YYYY-MM-DD HH:mm:ss", // Expected format for timestamp fields in the data
-        decimalPrecision: 2, // Number of decimal places to maintain for numeric values
-        trimStrings: true, // Whether to remove leading/trailing whitespace from string values
-        nullifyEmptyStrings: true, // Whether to convert empty strings to null values
-      },
-      validation: {
-        enableValidation: true, // Whether to validate data during transformation
-        failOnValidationError: false, // Whether to stop processing when validation errors occur
-        maxErrorsPerBatch: 100, // Maximum validation errors allowed per batch before stopping
-        maxTotalErrors: 1000, // Maximum total validation errors allowed for the entire process
-        rejectInvalidRows: true, // Whether to reject and track rows that fail validation
-        trackRejectionReasons: true, // Whether to capture and report reasons for row rejections
-      },
-      errorHandling: {
-        continueOnError: true, // Whether to continue processing other batches when one fails
-        maxRetries: 3, // Maximum number of retry attempts for failed transformations
-        retryDelayMs: 1000, // Delay between retry attempts in milliseconds
-        captureRawRow: true, // Whether to capture the original raw data when errors occur
-        enableDetailedLogging: true, // Whether to enable verbose error logging
-      },
-    });
+    const transformer = StagingTransformerContainer.create(
+      stagingTransformerConfig
+    );
 
     // Health check
     const isHealthy = await transformer.healthCheck();
@@ -616,11 +722,217 @@ async function testCoreMergerService(stagingRunId: string): Promise<void> {
   }
 }
 
+/**
+ * Extract types in a batch, in the plan's dependency order
+ */
+function getBatchExtractTypes(
+  batch: FileBatch,
+  plan: ProcessingPlan
+): ExtractType[] {
+  const order = plan.stages.flat();
+  const rank = (extractType: string): number =>
+    order.includes(extractType) ? order.indexOf(extractType) : order.length;
+
+  return [...new Set(batch.files.map((file) => file.parsed.extractType))]
+    .sort((a, b) => rank(a) - rank(b))
+    .map((extractType) => extractType as ExtractType);
+}
+
+/**
+ * Load a batch's files into raw.* under a new load run
+ * @returns The load run ID
+ */
+async function loadBatchToRaw(batch: FileBatch): Promise<string> {
+  const loadRunService = new LoadRunService();
+  const loadRunId = await loadRunService.createLoadRun({
+    triggeredBy: "scheduled",
+    notes: `Watch mode: batch ${batch.practiceKey}/${batch.batchId}, ${batch.totalFiles} files`,
+  });
+
+  try {
+    const rawLoader = RawLoaderFactory.create(rawLoaderConfig, getFileSource());
+    const result = await rawLoader.loadBatches([batch], loadRunId, {
+      continueOnError: true, // Load the batch's other files, then fail the run
+      maxConcurrentFiles: 1,
+    });
+
+    if (result.failedFiles > 0 || result.batchesFailed > 0) {
+      throw new Error(
+        `${result.failedFiles} of ${result.totalFiles} files failed to load: ${result.errors
+          .slice(0, 3)
+          .map((error) => error.message)
+          .join("; ")}`
+      );
+    }
+
+    const fileResults = result.batchResults.flatMap((br) => br.fileResults);
+    await loadRunService.completeLoadRun(loadRunId, {
+      totalFilesProcessed: result.totalFiles,
+      totalRowsIngested: result.totalRows,
+      totalRowsRejected: fileResults.reduce(
+        (sum, fileResult) => sum + (fileResult.rowsRejected ?? 0),
+        0
+      ),
+    });
+    return loadRunId;
+  } catch (error) {
+    await loadRunService.failLoadRun(
+      loadRunId,
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+}
+
+/**
+ * Transform each extract type of a load run into stg.*
+ * @returns Staging run IDs, one per extract type
+ */
+async function transformToStaging(
+  loadRunId: string,
+  extractTypes: ExtractType[]
+): Promise<string[]> {
+  const transformer = StagingTransformerContainer.create(
+    stagingTransformerConfig
+  );
+  const handlerFactory = new StagingHandlerFactory();
+  const stagingRunIds: string[] = [];
+
+  try {
+    for (const extractType of extractTypes) {
+      const handler = await handlerFactory.getHandler(extractType);
+      const result = await transformer.transformExtract(handler, {
+        loadRunId,
+        upsertMode: true,
+      });
+
+      if (result.failedBatches > 0) {
+        throw new Error(
+          `${extractType} staging failed in ${result.failedBatches} batch(es): ${result.errors
+            .slice(0, 3)
+            .map((error) => error.message)
+            .join("; ")}`
+        );
+      }
+
+      console.log(
+        `📊 ${extractType}: ${result.totalRowsTransformed} rows staged, ${result.totalRowsRejected} rejected`
+      );
+      stagingRunIds.push(result.stagingRunId);
+    }
+  } finally {
+    await transformer.close();
+  }
+
+  return stagingRunIds;
+}
+
+/**
+ * Merge staging runs into core.*, stopping at the first error
+ */
+async function mergeToCore(
+  stagingRunIds: string[],
+  extractTypes: ExtractType[]
+): Promise<void> {
+  const { CoreMergerContainer } = await import("./services/core-merger");
+  const coreMerger = CoreMergerContainer.create({
+    errorHandling: { continueOnError: false },
+  });
+
+  try {
+    for (const stagingRunId of stagingRunIds) {
+      const result = await coreMerger.mergeToCore({
+        stagingRunId,
+        extractTypes,
+      });
+
+      if (result.status !== "completed" || result.totalErrors > 0) {
+        throw new Error(
+          `Core merge ${result.mergeRunId} of staging run ${stagingRunId} ${result.status} with ${result.totalErrors} errors`
+        );
+      }
+
+      console.log(
+        `🔀 Staging run ${stagingRunId}: ${result.dimensionsCreated + result.dimensionsUpdated} dimensions and ${result.factsInserted + result.factsUpdated} facts merged`
+      );
+    }
+  } finally {
+    await coreMerger.close();
+  }
+}
+
+/**
+ * Move merged files out of the working prefix, once a batch reaches core
+ */
+async function archiveMergedFiles(
+  discoveryService: S3DiscoveryService
+): Promise<void> {
+  const result = await discoveryService.archiveLoadedFiles();
+  if (result.archived.length > 0) {
+    console.log(`📦 Archived ${result.archived.length} merged file(s)`);
+  }
+  for (const error of result.errors) {
+    console.warn(`⚠️  Could not archive ${error.s3Key}: ${error.error}`);
+  }
+}
+
+/**
+ * Create the watch mode pipeline: each batch goes raw -> staging -> core and
+ * its files are then archived
+ * Every extract type in the batch is loaded; a failed file, staging batch or
+ * merge rejects, so the watcher backs off and the batch is picked up again
+ */
+function createBatchPipeline(
+  discoveryService: S3DiscoveryService
+): BatchPipeline {
+  return async (batch, plan) => {
+    const extractTypes = getBatchExtractTypes(batch, plan);
+    const loadRunId = await loadBatchToRaw(batch);
+    const stagingRunIds = await transformToStaging(loadRunId, extractTypes);
+    await mergeToCore(stagingRunIds, extractTypes);
+    await archiveMergedFiles(discoveryService);
+  };
+}
+
+let activeWatcher: DiscoveryWatcher | null = null;
+
+/**
+ * Poll for new batches until SIGINT or SIGTERM
+ */
+async function runWatchMode(): Promise<void> {
+  const fileSource = getFileSource();
+  if (!fileSource) {
+    throw new Error(
+      "Watch mode needs S3 credentials or a local extracts folder"
+    );
+  }
+
+  const discoveryService = createDiscoveryService(fileSource);
+  const watchConfig = {
+    ...(discoveryService.getConfig().watch ?? DEFAULT_WATCH_CONFIG),
+    ...(config.watchIntervalMinutes
+      ? { intervalMinutes: config.watchIntervalMinutes }
+      : {}),
+  };
+
+  activeWatcher = new DiscoveryWatcher(
+    discoveryService,
+    createBatchPipeline(discoveryService),
+    watchConfig
+  );
+  await activeWatcher.start();
+}
+
 // eslint-disable-next-line @typescript-eslint/require-await
 async function main(): Promise<void> {
   try {
     init();
 
+    if (config.watch) {
+      await runWatchMode();
+      process.exit(0);
+    }
+
     const processingPlan = await testDiscoveryService();
     if (!processingPlan) {
       throw new Error(
@@ -667,11 +979,23 @@ process.on("uncaughtException", (error) => {
   process.exit(1);
 });
 
-// Graceful shutdown
-process.on("SIGINT", () => {
-  console.log("👋 Received SIGINT. Shutting down gracefully...");
+// Graceful shutdown; in watch mode the first signal lets in-flight batches
+// finish and a second one exits straight away
+const shutdown = (signal: NodeJS.Signals): void => {
+  if (activeWatcher) {
+    console.log(
+      `👋 Received ${signal}. Finishing in-flight batches before exiting...`
+    );
+    void activeWatcher.stop();
+    activeWatcher = null;
+    return;
+  }
+
+  console.log(`👋 Received ${signal}. Shutting down gracefully...`);
   process.exit(0);
-});
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
 
 // Start the application
 main().catch((error) => {
@@ -28,6 +28,7 @@ import type { CoreMergerConfig } from "./types/config";
 import { DimensionType } from "./types/scd2";
 import { FactType } from "./types/fact";
 import { logger } from "@/services/shared/utils/logger";
+import { RetryPolicy } from "@/services/shared/retry-policy";
 
 export class CoreMergerService {
   private pool: Pool;
@@ -191,6 +192,8 @@ export class CoreMergerService {
     result: CoreMergeResult,
     stagingRun: { loadRunId: string; extractType: string }
   ): Promise<void> {
+    const retryPolicy = this.createRetryPolicy(mergeRunId);
+
     // Define load order (based on dependencies)
     const dimensionLoadOrder = [
       DimensionType.PRACTICE, // No dependencies
@@ -220,15 +223,21 @@ export class CoreMergerService {
           this.config.dimension.scd2Strategy === "hash"
         );
 
-        const dimResult = await loader.loadDimension({
-          loadRunId: stagingRun.loadRunId,
-          stagingRunId: options.stagingRunId,
-          extractType,
-          batchSize: options.batchSize ?? this.config.dimension.batchSize,
-          enableSCD2: this.config.dimension.enableSCD2,
-          dryRun: options.dryRun,
-          continueOnError: this.config.errorHandling.continueOnError,
-        });
+        // A dimension loads in one transaction, and its loader throws transient
+        // batch errors even when continuing on error, so a retry starts it afresh
+        const dimResult = await retryPolicy.execute(
+          `Load ${dimensionType} dimension`,
+          () =>
+            loader.loadDimension({
+              loadRunId: stagingRun.loadRunId,
+              stagingRunId: options.stagingRunId,
+              extractType,
+              batchSize: options.batchSize ?? this.config.dimension.batchSize,
+              enableSCD2: this.config.dimension.enableSCD2,
+              dryRun: options.dryRun,
+              continueOnError: this.config.errorHandling.continueOnError,
+            })
+        );
 
         result.dimensionResults.set(dimensionType, dimResult);
         result.dimensionsCreated += dimResult.recordsCreated;
@@ -262,6 +271,8 @@ export class CoreMergerService {
     result: CoreMergeResult,
     stagingRun: { loadRunId: string; extractType: string }
   ): Promise<void> {
+    const retryPolicy = this.createRetryPolicy(mergeRunId);
+
     // Define fact load order
     const factLoadOrder = [
       FactType.APPOINTMENT, // Primary fact
@@ -289,15 +300,21 @@ export class CoreMergerService {
           this.fkResolver
         );
 
-        const factResult = await factLoader.loadFacts({
-          loadRunId: stagingRun.loadRunId,
-          stagingRunId: options.stagingRunId,
-          extractType,
-          batchSize: options.batchSize ?? this.config.fact.batchSize,
-          validateFKs: this.config.fact.enableFKValidation,
-          dryRun: options.dryRun,
-          continueOnError: this.config.errorHandling.continueOnError,
-        });
+        // Facts load in one transaction, and their loader throws transient
+        // batch errors even when continuing on error, so a retry starts them afresh
+        const factResult = await retryPolicy.execute(
+          `Load ${factType} facts`,
+          () =>
+            factLoader.loadFacts({
+              loadRunId: stagingRun.loadRunId,
+              stagingRunId: options.stagingRunId,
+              extractType,
+              batchSize: options.batchSize ?? this.config.fact.batchSize,
+              validateFKs: this.config.fact.enableFKValidation,
+              dryRun: options.dryRun,
+              continueOnError: this.config.errorHandling.continueOnError,
+            })
+        );
 
         result.factResults.set(factType, factResult);
         result.factsInserted += factResult.recordsInserted;
@@ -322,6 +339,18 @@ export class CoreMergerService {
     }
   }
 
+  /**
+   * Retry policy for a merge run's dimension and fact loads, counting each
+   * retry in the run's progress
+   */
+  private createRetryPolicy(mergeRunId: string): RetryPolicy {
+    return new RetryPolicy({
+      maxRetries: this.config.errorHandling.maxRetries,
+      baseDelayMs: this.config.errorHandling.retryDelayMs,
+      onRetry: () => this.loadMonitor.recordRetry(mergeRunId),
+    });
+  }
+
   /**
    * Get dimension handler by type
    */
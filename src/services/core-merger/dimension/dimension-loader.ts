@@ -18,6 +18,8 @@ import type {
 } from "../types/scd2";
 import { ChangeType as CT } from "../types/scd2";
 import { logger } from "@/services/shared/utils/logger";
+import { isTransientError } from "@/services/shared/retry-policy";
+import { rollBack } from "@/services/shared/database-pool";
 
 export class DimensionLoader {
   private pool: Pool;
@@ -66,6 +68,7 @@ export class DimensionLoader {
     };
 
     const client = await this.pool.connect();
+    let rollbackError: Error | undefined;
 
     try {
       // Start transaction (for safety)
@@ -132,7 +135,9 @@ export class DimensionLoader {
             stack: error instanceof Error ? error.stack : undefined,
           });
 
-          if (!options.continueOnError) {
+          // A transient error aborts the transaction, so the load is retried
+          // whole rather than carrying on past the batch
+          if (!options.continueOnError || isTransientError(error)) {
             throw error;
           }
         }
@@ -147,10 +152,11 @@ export class DimensionLoader {
         logger.info(`Dry run - rolled back ${dimensionType} changes`);
       }
     } catch (error) {
-      await client.query("ROLLBACK");
+      // Rethrow the original error, as a dropped connection fails the rollback
+      rollbackError = await rollBack(client);
       throw error;
     } finally {
-      client.release();
+      client.release(rollbackError);
     }
 
     // Calculate metrics
@@ -285,6 +291,10 @@ export class DimensionLoader {
           skipped++;
         }
       } catch (error) {
+        // Left to the batch, as the record did not fail on its own data
+        if (isTransientError(error)) {
+          throw error;
+        }
         const errorMsg = error instanceof Error ? error.message : String(error);
         // Log first few errors for debugging
         if (errors.length < 3) {
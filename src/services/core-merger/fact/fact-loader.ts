@@ -16,6 +16,8 @@ import type {
 } from "@/services/core-merger/types/fact";
 import type { DimensionType } from "@/services/core-merger/types/scd2";
 import { logger } from "@/services/shared/utils/logger";
+import { isTransientError } from "@/services/shared/retry-policy";
+import { rollBack } from "@/services/shared/database-pool";
 
 export class FactLoader {
   private pool: Pool;
@@ -62,6 +64,7 @@ export class FactLoader {
     };
 
     const client = await this.pool.connect();
+    let rollbackError: Error | undefined;
 
     try {
       // Start transaction
@@ -119,7 +122,9 @@ export class FactLoader {
             stack: error instanceof Error ? error.stack : undefined,
           });
 
-          if (!options.continueOnError) {
+          // A transient error aborts the transaction, so the load is retried
+          // whole rather than carrying on past the batch
+          if (!options.continueOnError || isTransientError(error)) {
             throw error;
           }
         }
@@ -134,10 +139,11 @@ export class FactLoader {
         logger.info(`Dry run - rolled back ${factType} changes`);
       }
     } catch (error) {
-      await client.query("ROLLBACK");
+      // Rethrow the original error, as a dropped connection fails the rollback
+      rollbackError = await rollBack(client);
       throw error;
     } finally {
-      client.release();
+      client.release(rollbackError);
     }
 
     // Calculate performance metrics
@@ -284,6 +290,10 @@ export class FactLoader {
           updated++;
         }
       } catch (error) {
+        // Left to the batch, as the record did not fail on its own data
+        if (isTransientError(error)) {
+          throw error;
+        }
         const errorMsg = error instanceof Error ? error.message : String(error);
         errors.push({
           errorType: "transformation_error",
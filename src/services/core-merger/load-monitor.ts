@@ -37,6 +37,7 @@ export class LoadMonitor {
       processedItems: 0,
       percentComplete: 0,
       currentRate: 0,
+      retryCount: 0,
       startedAt: now,
       updatedAt: now,
     };
@@ -114,6 +115,19 @@ export class LoadMonitor {
     logger.info(`Updated phase for merge run: ${mergeRunId}`, { phase });
   }
 
+  /**
+   * Record a retry of a transient failure
+   */
+  recordRetry(mergeRunId: string): void {
+    const progress = this.progressMap.get(mergeRunId);
+    if (!progress) {
+      return;
+    }
+
+    progress.retryCount++;
+    progress.updatedAt = new Date();
+  }
+
   /**
    * Get progress for a merge run
    */
@@ -141,6 +155,7 @@ export class LoadMonitor {
     logger.info(`Completed monitoring merge run: ${mergeRunId}`, {
       totalItems: progress.totalItems,
       processedItems: progress.processedItems,
+      retryCount: progress.retryCount,
       durationMs: duration,
     });
 
@@ -292,6 +292,9 @@ export interface LoadProgress {
   /** Current processing rate (items/sec) */
   currentRate: number;
 
+  /** Retries of transient database failures */
+  retryCount: number;
+
   /** Started at */
   startedAt: Date;
 
@@ -0,0 +1,158 @@
+/**
+ * Archive Reader Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { deflateRawSync, gzipSync } from "node:zlib";
+import path from "node:path";
+import { ArchiveReader } from "../archive-reader";
+import { FileDiscovery } from "../file-discovery";
+import { FilenameParser } from "../filename-parser";
+import { LocalFileSystemAdapter } from "../adapters/local-file-system-adapter";
+import type { DiscoveredFile } from "../types/files";
+
+const patientFile =
+  "685146_535_Patient_202508180544_202508190544_2508190850.csv";
+const allergiesFile =
+  "685146_535_Allergies_202508180544_202508190544_2508190850.csv";
+const measurementsFile =
+  "685146_535_Measurements_202508180544_202508190544_2508190850.csv";
+
+const patientCsv = "PatientID|~~|NHI|^^|1|~~|ABC1234|^^|".repeat(50);
+const allergiesCsv = "AllergyID|~~|PatientID|^^|7|~~|1|^^|";
+
+/**
+ * Build a zip archive with sizes in the local headers, deflating entries
+ * unless asked to store them
+ */
+const createZip = (
+  entries: { name: string; content: string; stored?: boolean }[]
+): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const content = Buffer.from(entry.content);
+    const data = entry.stored ? content : deflateRawSync(content);
+    const method = entry.stored ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+describe("ArchiveReader", () => {
+  let rootDir: string;
+  let adapter: LocalFileSystemAdapter;
+  let files: DiscoveredFile[];
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), "indici-archive-"));
+    await writeFile(
+      path.join(rootDir, "685146_535_2508190850.zip"),
+      createZip([
+        { name: patientFile, content: patientCsv },
+        { name: allergiesFile, content: allergiesCsv, stored: true },
+        { name: "readme.txt", content: "not an extract" },
+      ])
+    );
+    await writeFile(
+      path.join(rootDir, `${measurementsFile}.gz`),
+      gzipSync(patientCsv)
+    );
+
+    adapter = new LocalFileSystemAdapter({ rootDir });
+    files = await new FileDiscovery(
+      adapter,
+      new FilenameParser()
+    ).discoverFiles();
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  const find = (extractType: string): DiscoveredFile =>
+    files.find((file) => file.parsed.extractType === extractType)!;
+
+  it("should discover each extract in a zip archive and gzipped extracts", () => {
+    expect(files.map((file) => file.parsed.extractType).sort()).toEqual([
+      "Allergies",
+      "Measurements",
+      "Patient",
+    ]);
+
+    const patient = find("Patient");
+    expect(patient.s3Key).toBe("685146_535_2508190850.zip");
+    expect(patient.compression).toBe("zip");
+    expect(patient.archiveEntry?.name).toBe(patientFile);
+    expect(patient.uncompressedSize).toBe(patientCsv.length);
+    expect(patient.fileSize).toBeLessThan(patientCsv.length);
+    expect(patient.fileHash).not.toBe(find("Allergies").fileHash);
+
+    const measurements = find("Measurements");
+    expect(measurements.compression).toBe("gzip");
+    expect(measurements.uncompressedSize).toBe(patientCsv.length);
+  });
+
+  it("should decompress zip entries and gzipped files as they stream", async () => {
+    const reader = new ArchiveReader(adapter);
+
+    expect(await readAll(await reader.openFile(find("Patient")))).toBe(
+      patientCsv
+    );
+    expect(await readAll(await reader.openFile(find("Allergies")))).toBe(
+      allergiesCsv
+    );
+    expect(await readAll(await reader.openFile(find("Measurements")))).toBe(
+      patientCsv
+    );
+  });
+
+  it("should reject files that are not zip archives", async () => {
+    await writeFile(path.join(rootDir, "broken.zip"), "not a zip");
+
+    await expect(
+      new ArchiveReader(adapter).listZipEntries("broken.zip", 9)
+    ).rejects.toThrow("Not a zip archive: broken.zip");
+  });
+});
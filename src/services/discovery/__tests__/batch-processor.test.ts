@@ -0,0 +1,456 @@
+/**
+ * Batch Processor Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { BatchProcessor } from "../batch-processor";
+import { FileDiscovery } from "../file-discovery";
+import { FilenameParser } from "../filename-parser";
+import { PracticeRegistry } from "../practice-registry";
+import { ProcessedFileChecker } from "../processed-file-checker";
+import type {
+  FileMetadata,
+  FileSystemAdapter,
+} from "../adapters/file-system-adapter";
+import type { BatchManifestConfig, ReprocessingConfig } from "../types/config";
+import type { FileLoadHistory } from "../types/files";
+
+const batchFile = (extractType: string, lastModified: Date): FileMetadata => ({
+  key: `685146_535_${extractType}_202508180544_202508190544_2508190850.csv`,
+  size: 100,
+  lastModified,
+  etag: `etag-${extractType}`,
+});
+
+const createProcessor = (
+  files: FileMetadata[],
+  manifest: BatchManifestConfig,
+  processedFileChecker?: ProcessedFileChecker,
+  reprocessing?: ReprocessingConfig
+): BatchProcessor => {
+  const adapter: FileSystemAdapter = {
+    listFiles: () => Promise.resolve(files),
+    getFileStream: () => Promise.reject(new Error("Not implemented")),
+    getFileMetadata: () => Promise.reject(new Error("Not implemented")),
+    fileExists: () => Promise.resolve(true),
+    getFileSize: () => Promise.resolve(100),
+  };
+  const registry = new PracticeRegistry(
+    undefined,
+    manifest.requiredExtractTypes
+  );
+
+  return new BatchProcessor(
+    new FileDiscovery(
+      adapter,
+      new FilenameParser(registry),
+      "test-bucket",
+      registry,
+      processedFileChecker
+    ),
+    manifest,
+    reprocessing
+  );
+};
+
+describe("BatchProcessor batch completeness", () => {
+  const manifest: BatchManifestConfig = {
+    requiredExtractTypes: ["Patient", "Appointments"],
+    holdIncompleteBatches: true,
+    gracePeriodMinutes: 60,
+  };
+
+  it("should mark batches with every required extract type as complete", async () => {
+    const processor = createProcessor(
+      [batchFile("Patient", new Date()), batchFile("Appointments", new Date())],
+      manifest
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.batches[0].isComplete).toBe(true);
+    expect(plan.batches[0].missingExtractTypes).toEqual([]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("should warn about files quarantined during discovery", async () => {
+    const processor = createProcessor(
+      [
+        batchFile("Patient", new Date()),
+        batchFile("Appointments", new Date()),
+        { key: "stray.csv", size: 10, lastModified: new Date(), etag: "x" },
+      ],
+      manifest
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.warnings).toEqual([
+      expect.stringContaining(
+        "Quarantined stray.csv during discovery (unparseable_filename)"
+      ),
+    ]);
+  });
+
+  it("should hold back incomplete batches within the grace period", async () => {
+    const processor = createProcessor(
+      [batchFile("Patient", new Date())],
+      manifest
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.batches).toHaveLength(0);
+    expect(plan.processingOrder).toHaveLength(0);
+    expect(plan.warnings[0]).toContain("missing: Appointments. Held back");
+  });
+
+  it("should release incomplete batches once the grace period has passed", async () => {
+    const uploaded = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    const processor = createProcessor(
+      [batchFile("Patient", uploaded)],
+      manifest
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.batches[0].isComplete).toBe(false);
+    expect(plan.batches[0].missingExtractTypes).toEqual(["Appointments"]);
+    expect(plan.warnings[0]).toContain("is incomplete, missing: Appointments");
+  });
+
+  it("should only expect the extract types that were requested", async () => {
+    const processor = createProcessor(
+      [batchFile("Patient", new Date())],
+      manifest
+    );
+
+    const plan = await processor.createProcessingPlan({
+      mode: "latest",
+      extractTypes: ["Patient"],
+    });
+
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.batches[0].isComplete).toBe(true);
+  });
+});
+
+describe("BatchProcessor dependency order", () => {
+  it("should fill dependencies and stages from the dependency graph", async () => {
+    const processor = createProcessor(
+      [
+        batchFile("Appointments", new Date()),
+        batchFile("Allergies", new Date()),
+        batchFile("Patient", new Date()),
+      ],
+      {
+        requiredExtractTypes: [],
+        holdIncompleteBatches: false,
+        gracePeriodMinutes: 0,
+      }
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.stages).toEqual([["Patient"], ["Allergies", "Appointments"]]);
+    expect(plan.dependencies).toEqual([
+      expect.objectContaining({ extractType: "Patient", priority: 0 }),
+      expect.objectContaining({ extractType: "Allergies", priority: 1 }),
+      expect.objectContaining({
+        extractType: "Appointments",
+        dependsOn: ["Patient", "Provider"],
+        priority: 1,
+      }),
+    ]);
+    expect(plan.processingOrder[0].parsed.extractType).toBe("Patient");
+  });
+});
+
+describe("BatchProcessor specific batch", () => {
+  const manifest: BatchManifestConfig = {
+    requiredExtractTypes: ["Patient", "Appointments"],
+    holdIncompleteBatches: true,
+    gracePeriodMinutes: 60,
+  };
+
+  it("should plan only the requested batch, including completed files", async () => {
+    const checker = new ProcessedFileChecker();
+    vi.spyOn(checker, "getLoadHistory").mockImplementation((discovered) =>
+      Promise.resolve(
+        new Map(
+          discovered.map((file) => [
+            `${file.s3VersionId}:${file.fileHash}`,
+            { status: "completed", attemptCount: 1, lastAttemptAt: new Date() },
+          ])
+        )
+      )
+    );
+    const processor = createProcessor(
+      [
+        batchFile("Patient", new Date()),
+        {
+          ...batchFile("Patient", new Date()),
+          key: "685146_535_Patient_202508250544_202508260544_2508260850.csv",
+        },
+      ],
+      manifest,
+      checker
+    );
+
+    const plan = await processor.createProcessingPlan({
+      mode: "specific",
+      specificBatch: "2508190850",
+    });
+
+    expect(plan.batches.map((b) => b.batchId)).toEqual(["2508190850"]);
+    expect(plan.processingOrder).toHaveLength(1);
+    expect(plan.fileCounts.reprocessed).toBe(1);
+  });
+
+  it("should not hold back an incomplete batch asked for by ID", async () => {
+    const processor = createProcessor(
+      [batchFile("Patient", new Date())],
+      manifest
+    );
+
+    const plan = await processor.createProcessingPlan({
+      mode: "specific",
+      specificBatch: "2508190850",
+    });
+
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.warnings[0]).toContain("is incomplete, missing: Appointments");
+  });
+
+  it("should require a batch ID in specific mode", async () => {
+    const processor = createProcessor([], manifest);
+
+    await expect(
+      processor.createProcessingPlan({ mode: "specific" })
+    ).rejects.toThrow("specificBatch is required in specific mode");
+  });
+});
+
+describe("BatchProcessor processed files", () => {
+  const manifest: BatchManifestConfig = {
+    requiredExtractTypes: [],
+    holdIncompleteBatches: false,
+    gracePeriodMinutes: 0,
+  };
+  const files = [
+    batchFile("Patient", new Date()),
+    batchFile("Appointments", new Date()),
+    batchFile("Allergies", new Date()),
+  ];
+  const hoursAgo = (hours: number): Date =>
+    new Date(Date.now() - hours * 60 * 60 * 1000);
+
+  // Previous load attempts keyed by extract type
+  const createChecker = (
+    history: Record<string, FileLoadHistory>
+  ): ProcessedFileChecker => {
+    const checker = new ProcessedFileChecker(60);
+    vi.spyOn(checker, "getLoadHistory").mockImplementation((discovered) => {
+      const result = new Map<string, FileLoadHistory>();
+      for (const file of discovered) {
+        const attempt = history[file.parsed.extractType];
+        if (attempt) {
+          result.set(`${file.s3VersionId}:${file.fileHash}`, attempt);
+        }
+      }
+      return Promise.resolve(result);
+    });
+    return checker;
+  };
+
+  const completedPatientFailedAppointments = {
+    Patient: {
+      status: "completed",
+      attemptCount: 1,
+      lastAttemptAt: new Date(),
+    },
+    Appointments: {
+      status: "failed",
+      attemptCount: 1,
+      lastAttemptAt: new Date(),
+      lastError: "timeout",
+    },
+  };
+
+  it("should count files already loaded towards a batch's completeness", async () => {
+    const processor = createProcessor(
+      files,
+      {
+        requiredExtractTypes: ["Patient", "Appointments"],
+        holdIncompleteBatches: true,
+        gracePeriodMinutes: 60,
+      },
+      createChecker({
+        Patient: {
+          status: "completed",
+          attemptCount: 1,
+          lastAttemptAt: new Date(),
+        },
+      })
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.batches).toHaveLength(1);
+    expect(plan.batches[0].isComplete).toBe(true);
+    expect(plan.batches[0].extractTypes).not.toContain("Patient");
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("should leave out completed files and put failed files first", async () => {
+    const processor = createProcessor(
+      files,
+      manifest,
+      createChecker(completedPatientFailedAppointments)
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.totalFiles).toBe(2);
+    expect(plan.fileCounts).toEqual({
+      new: 1,
+      failed: 1,
+      stale: 0,
+      reprocessed: 0,
+    });
+    expect(
+      plan.processingOrder.map((f) => [
+        f.parsed.extractType,
+        f.processingReason,
+        f.processingPriority,
+      ])
+    ).toEqual([
+      ["Appointments", "failed", "high"],
+      ["Allergies", "new", "normal"],
+    ]);
+    expect(plan.batches[0].files[0].parsed.extractType).toBe("Appointments");
+  });
+
+  it("should keep a practice's older batches ahead of its newer failed batch", async () => {
+    const processor = createProcessor(
+      [
+        {
+          ...batchFile("Allergies", new Date()),
+          key: "685146_535_Allergies_202508170544_202508180544_2508180850.csv",
+        },
+        batchFile("Appointments", new Date()),
+      ],
+      manifest,
+      createChecker(completedPatientFailedAppointments)
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(
+      plan.batches.map((batch) => [
+        batch.batchId,
+        batch.files.map((f) => f.processingReason),
+      ])
+    ).toEqual([
+      ["2508180850", ["new"]],
+      ["2508190850", ["failed"]],
+    ]);
+  });
+
+  it("should label completed files as reprocessed when including processed files", async () => {
+    const processor = createProcessor(
+      files,
+      manifest,
+      createChecker(completedPatientFailedAppointments)
+    );
+
+    const plan = await processor.createProcessingPlan({
+      mode: "latest",
+      includeProcessed: true,
+    });
+
+    expect(plan.totalFiles).toBe(3);
+    expect(plan.fileCounts).toEqual({
+      new: 1,
+      failed: 1,
+      stale: 0,
+      reprocessed: 1,
+    });
+    expect(plan.processingOrder.at(-1)?.processingPriority).toBe("low");
+  });
+
+  it("should retry files stuck in processing once they are stale", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const processor = createProcessor(
+      files,
+      manifest,
+      createChecker({
+        Patient: {
+          status: "processing",
+          attemptCount: 1,
+          lastAttemptAt: hoursAgo(2),
+        },
+        Appointments: {
+          status: "processing",
+          attemptCount: 1,
+          lastAttemptAt: new Date(),
+        },
+      })
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.fileCounts).toEqual({
+      new: 1,
+      failed: 0,
+      stale: 1,
+      reprocessed: 0,
+    });
+    expect(plan.processingOrder[0].parsed.extractType).toBe("Patient");
+  });
+
+  it("should quarantine files that have used up their retry attempts", async () => {
+    const processor = createProcessor(
+      files,
+      manifest,
+      createChecker({
+        Appointments: {
+          status: "failed",
+          attemptCount: 3,
+          lastAttemptAt: new Date(),
+          lastError: "bad row",
+        },
+      }),
+      { maxRetryAttempts: 3, staleProcessingMinutes: 60 }
+    );
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.totalFiles).toBe(2);
+    expect(plan.quarantinedFiles.map((f) => f.parsed.extractType)).toEqual([
+      "Appointments",
+    ]);
+    expect(plan.warnings[0]).toContain("after 3 failed attempts: bad row");
+  });
+
+  it("should treat all files as new if load history cannot be read", async () => {
+    const checker = new ProcessedFileChecker();
+    vi.spyOn(checker, "getLoadHistory").mockRejectedValue(
+      new Error("connection refused")
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const processor = createProcessor(files, manifest, checker);
+
+    const plan = await processor.createProcessingPlan({ mode: "latest" });
+
+    expect(plan.fileCounts).toEqual({
+      new: 3,
+      failed: 0,
+      stale: 0,
+      reprocessed: 0,
+    });
+  });
+});
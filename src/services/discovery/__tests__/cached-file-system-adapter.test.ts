@@ -0,0 +1,154 @@
+/**
+ * Cached File System Adapter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { CachedFileSystemAdapter } from "../adapters/cached-file-system-adapter";
+import type {
+  FileMetadata,
+  FileSystemAdapter,
+} from "../adapters/file-system-adapter";
+
+const extractKey = (extractType: string, dateExtracted: string): string =>
+  `685146_535_${extractType}_202508180544_202508190544_${dateExtracted}.csv`;
+
+const object = (key: string, etag = `etag-${key}`): FileMetadata => ({
+  key,
+  size: 100,
+  lastModified: new Date("2025-08-19T09:00:00Z"),
+  etag,
+});
+
+describe("CachedFileSystemAdapter", () => {
+  let cacheDir: string;
+  let cachePath: string;
+  let objects: FileMetadata[];
+  let source: FileSystemAdapter & {
+    listFiles: ReturnType<typeof vi.fn>;
+    getFileMetadata: ReturnType<typeof vi.fn>;
+  };
+
+  const createAdapter = (ttlMinutes = 60): CachedFileSystemAdapter =>
+    new CachedFileSystemAdapter(
+      source,
+      cachePath,
+      "s3://test-bucket",
+      ttlMinutes
+    );
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(path.join(tmpdir(), "indici-listing-cache-"));
+    cachePath = path.join(cacheDir, "listing.json");
+    objects = [
+      object(extractKey("Allergies", "2508190850")),
+      object(extractKey("Patient", "2508190850")),
+    ];
+    source = {
+      listFiles: vi.fn((prefix?: string, startAfter?: string) =>
+        Promise.resolve(
+          objects.filter(
+            (o) =>
+              o.key.startsWith(prefix ?? "") &&
+              (startAfter === undefined || o.key > startAfter)
+          )
+        )
+      ),
+      getFileMetadata: vi.fn((key: string) =>
+        Promise.resolve({
+          ...objects.find((o) => o.key === key)!,
+          checksum: { SHA256: `sha-${key}` },
+        })
+      ),
+      getFileStream: (): Promise<NodeJS.ReadableStream> =>
+        Promise.reject(new Error("Not implemented")),
+      fileExists: (): Promise<boolean> => Promise.resolve(true),
+      getFileSize: (): Promise<number> => Promise.resolve(100),
+    };
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("should list only keys added after each series once cached", async () => {
+    await createAdapter().listFiles();
+    objects.push(object(extractKey("Patient", "2508200850")));
+    source.listFiles.mockClear();
+
+    // A new adapter reads the cache another run left on disk
+    const adapter = createAdapter();
+    const files = await adapter.listFiles();
+
+    expect(files.map((f) => f.key)).toEqual([
+      extractKey("Allergies", "2508190850"),
+      extractKey("Patient", "2508190850"),
+      extractKey("Patient", "2508200850"),
+    ]);
+    expect(source.listFiles.mock.calls).toEqual([
+      ["685146_535_Allergies_", extractKey("Allergies", "2508190850")],
+      ["685146_535_Patient_", extractKey("Patient", "2508190850")],
+      [undefined, extractKey("Patient", "2508190850")],
+    ]);
+    expect(adapter.getCacheStats()).toEqual({ hits: 2, misses: 1 });
+  });
+
+  it("should find new practices and extract types sorting after the cache", async () => {
+    await createAdapter().listFiles();
+    const newPractice = `685146_536_Patient_202508180544_202508190544_2508200850.csv`;
+    objects.push(object(extractKey("Vaccine", "2508200850")));
+    objects.push(object(newPractice));
+
+    const files = await createAdapter().listFiles();
+
+    expect(files.map((f) => f.key)).toEqual([
+      extractKey("Allergies", "2508190850"),
+      extractKey("Patient", "2508190850"),
+      extractKey("Vaccine", "2508200850"),
+      newPractice,
+    ]);
+  });
+
+  it("should list everything when the cache is empty", async () => {
+    objects = [];
+    await createAdapter().listFiles();
+    objects.push(object(extractKey("Patient", "2508200850")));
+    source.listFiles.mockClear();
+
+    const files = await createAdapter().listFiles();
+
+    expect(files.map((f) => f.key)).toEqual([
+      extractKey("Patient", "2508200850"),
+    ]);
+    expect(source.listFiles.mock.calls).toEqual([[undefined]]);
+  });
+
+  it("should only fetch metadata for objects that changed", async () => {
+    const first = createAdapter();
+    await first.listFiles();
+    await first.getFileMetadata(extractKey("Patient", "2508190850"));
+    await first.flush();
+    expect(source.getFileMetadata).toHaveBeenCalledTimes(1);
+
+    // Overwritten objects are picked up by the full listing after the TTL
+    objects[0] = object(extractKey("Allergies", "2508190850"), "etag-new");
+    const second = createAdapter(0);
+    await second.listFiles();
+    const patient = await second.getFileMetadata(
+      extractKey("Patient", "2508190850")
+    );
+    await second.getFileMetadata(extractKey("Allergies", "2508190850"));
+
+    expect(source.listFiles).toHaveBeenLastCalledWith(undefined);
+    expect(patient.checksum).toEqual({
+      SHA256: `sha-${extractKey("Patient", "2508190850")}`,
+    });
+    expect(source.getFileMetadata).toHaveBeenCalledTimes(2);
+    expect(source.getFileMetadata).toHaveBeenLastCalledWith(
+      extractKey("Allergies", "2508190850"),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Discovery Watcher Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { DiscoveryWatcher } from "../discovery-watcher";
+import type { BatchPipeline } from "../discovery-watcher";
+import type { S3DiscoveryService } from "../s3-discovery-service";
+import { DefaultWatchConfig } from "../types/config";
+import type { ProcessingPlan } from "../types/discovery";
+import type { FileBatch } from "../types/files";
+
+const batch = (practiceKey: string, batchId: string): FileBatch =>
+  ({ practiceKey, batchId, files: [] }) as unknown as FileBatch;
+
+const plan = (batches: FileBatch[]): ProcessingPlan =>
+  ({ batches }) as unknown as ProcessingPlan;
+
+const discovery = (
+  discoverLatestFiles: () => Promise<ProcessingPlan>
+): Pick<S3DiscoveryService, "discoverLatestFiles"> => ({
+  discoverLatestFiles,
+});
+
+describe("DiscoveryWatcher", () => {
+  it("should run one batch per practice up to the in-flight cap", async () => {
+    const pipeline = vi.fn<BatchPipeline>(() => new Promise(() => {}));
+    const watcher = new DiscoveryWatcher(
+      discovery(() =>
+        Promise.resolve(
+          plan([
+            batch("685146_535", "2508120850"),
+            batch("685146_535", "2508190850"),
+            batch("685146_536", "2508190850"),
+            batch("685146_537", "2508190850"),
+          ])
+        )
+      ),
+      pipeline,
+      { ...DefaultWatchConfig, maxInFlightBatches: 2 }
+    );
+
+    expect(await watcher.poll()).toBe(2);
+    expect(pipeline.mock.calls.map(([b]) => b.batchId)).toEqual([
+      "2508120850",
+      "2508190850",
+    ]);
+    expect(watcher.getInFlightCount()).toBe(2);
+
+    // Running batches are not started again
+    expect(await watcher.poll()).toBe(0);
+  });
+
+  it("should back off with jitter after failures and reset after a good poll", async () => {
+    const discoverLatestFiles = vi
+      .fn<() => Promise<ProcessingPlan>>()
+      .mockRejectedValueOnce(new Error("S3 unavailable"))
+      .mockRejectedValueOnce(new Error("S3 unavailable"))
+      .mockResolvedValue(plan([]));
+    const watcher = new DiscoveryWatcher(
+      discovery(discoverLatestFiles),
+      () => Promise.resolve(),
+      {
+        intervalMinutes: 60,
+        maxInFlightBatches: 1,
+        initialBackoffSeconds: 30,
+        maxBackoffMinutes: 30,
+        jitterRatio: 0.5,
+      },
+      undefined,
+      () => 0.5
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await watcher.poll();
+    expect(watcher.getNextDelayMs()).toBe(22500);
+    await watcher.poll();
+    expect(watcher.getNextDelayMs()).toBe(45000);
+    await watcher.poll();
+    expect(watcher.getNextDelayMs()).toBe(60 * 60 * 1000);
+  });
+
+  it("should stop polling and wait for in-flight batches", async () => {
+    let finish: () => void = () => {};
+    const pipeline = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        })
+    );
+    const discoverLatestFiles = vi.fn(() =>
+      Promise.resolve(plan([batch("685146_535", "2508190850")]))
+    );
+    const watcher = new DiscoveryWatcher(
+      discovery(discoverLatestFiles),
+      pipeline
+    );
+
+    const running = watcher.start();
+    await vi.waitFor(() => expect(pipeline).toHaveBeenCalled());
+
+    let stopped = false;
+    const stopping = watcher.stop().then(() => {
+      stopped = true;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(stopped).toBe(false);
+
+    finish();
+    await stopping;
+    await running;
+    expect(discoverLatestFiles).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Duration Estimator Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { DurationEstimator } from "../duration-estimator";
+import { FilenameParser } from "../filename-parser";
+import type { ThroughputHistory } from "../throughput-history";
+import { DefaultEstimationConfig } from "../types/config";
+import type { ThroughputSample } from "../types/discovery";
+import type { DiscoveredFile } from "../types/files";
+
+const discovered = (extractType: string, size: number): DiscoveredFile =>
+  ({
+    s3Key: `685146_535_${extractType}_202508180544_202508190544_2508190850.csv`,
+    fileSize: size,
+    uncompressedSize: size,
+    parsed: FilenameParser.parse(
+      `685146_535_${extractType}_202508180544_202508190544_2508190850.csv`
+    ),
+  }) as DiscoveredFile;
+
+// Patient raw loads at 250, 500 and 1000 bytes per second, 100 bytes per row
+const samples: ThroughputSample[] = [
+  ...[1000, 2000, 4000].map((durationMs) => ({
+    stage: "raw" as const,
+    extractType: "Patient",
+    rows: 10,
+    bytes: 1000,
+    durationMs,
+  })),
+  {
+    stage: "staging",
+    extractType: "Patient",
+    rows: 100,
+    durationMs: 10000,
+  },
+];
+
+describe("DurationEstimator", () => {
+  const estimator = new DurationEstimator({
+    ...DefaultEstimationConfig,
+    loadWindowMinutes: 15,
+  });
+
+  it("should estimate raw loads and stages from past throughput", async () => {
+    const history = {
+      getSamples: () => Promise.resolve(samples),
+    } as unknown as ThroughputHistory;
+
+    const estimate = await new DurationEstimator(
+      DefaultEstimationConfig,
+      history
+    ).estimatePlan([discovered("Patient", 300000)]);
+
+    expect(estimate.files[0]).toMatchObject({
+      extractType: "Patient",
+      estimatedRows: 3000,
+      expectedSeconds: 600,
+      highSeconds: 1000,
+      sampleCount: 3,
+    });
+    expect(estimate.files[0].lowSeconds).toBeCloseTo(333.33);
+    expect(estimate.stages).toEqual([
+      {
+        stage: "staging",
+        extractType: "Patient",
+        estimatedRows: 3000,
+        expectedSeconds: 300,
+        lowSeconds: 300,
+        highSeconds: 300,
+        sampleCount: 1,
+      },
+    ]);
+    expect(estimate.missingStages).toEqual(["core"]);
+    expect(estimate.expectedSeconds).toBe(900);
+    expect(estimate.highSeconds).toBe(1300);
+  });
+
+  it("should fall back to the stage's throughput for extract types with few runs", () => {
+    const estimate = estimator.estimate(
+      [discovered("Allergies", 3000)],
+      samples
+    );
+
+    expect(estimate.files[0]).toMatchObject({
+      extractType: "Allergies",
+      estimatedRows: 30,
+      expectedSeconds: 6,
+      sampleCount: 3,
+    });
+  });
+
+  it("should use the default rate with a wide band when there is no history", () => {
+    const estimate = estimator.estimate(
+      [discovered("Patient", 2 * 1024 * 1024)],
+      []
+    );
+
+    expect(estimate).toMatchObject({
+      expectedSeconds: 2,
+      lowSeconds: 1,
+      highSeconds: 4,
+      sampleCount: 0,
+      missingStages: ["staging", "core"],
+    });
+    expect(estimate.files[0].estimatedRows).toBeUndefined();
+  });
+
+  it("should warn when the slow end of the estimate runs past the load window", () => {
+    const estimate = estimator.estimate(
+      [discovered("Patient", 300000)],
+      samples
+    );
+
+    expect(estimator.getLoadWindowWarning(estimate)).toBe(
+      "Plan may not finish within the 15-minute load window: estimated 11-22 minutes, most likely 15"
+    );
+    expect(
+      estimator.getLoadWindowWarning(
+        estimator.estimate([discovered("Patient", 3000)], samples)
+      )
+    ).toBeNull();
+  });
+});
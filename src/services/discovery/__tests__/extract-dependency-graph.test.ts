@@ -0,0 +1,70 @@
+/**
+ * Extract Dependency Graph Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { ExtractDependencyGraph } from "../extract-dependency-graph";
+import {
+  DefaultExtractDependencies,
+  type ExtractDependencyMap,
+} from "../types/config";
+
+describe("ExtractDependencyGraph", () => {
+  const graph = new ExtractDependencyGraph();
+
+  it("should order the default extract types by their dependencies", () => {
+    expect(
+      graph.sort([
+        "InvoiceDetail",
+        "Appointments",
+        "Invoices",
+        "Patient",
+        "Provider",
+        "PracticeInfo",
+      ])
+    ).toEqual([
+      "PracticeInfo",
+      "Provider",
+      "Patient",
+      "Appointments",
+      "Invoices",
+      "InvoiceDetail",
+    ]);
+  });
+
+  it("should group independent extract types into the same stage", () => {
+    expect(
+      graph.getStages(["Immunisation", "Appointments", "Patient", "Invoices"])
+    ).toEqual([["Patient"], ["Appointments", "Immunisation", "Invoices"]]);
+  });
+
+  it("should keep transitive order when intermediate types are not selected", () => {
+    expect(graph.getStages(["Appointments", "PracticeInfo"])).toEqual([
+      ["PracticeInfo"],
+      ["Appointments"],
+    ]);
+  });
+
+  it("should place every dependency in an earlier stage", () => {
+    for (const [extractType, dependsOn] of Object.entries(
+      DefaultExtractDependencies
+    )) {
+      for (const dependency of dependsOn) {
+        expect(graph.getStage(dependency)).toBeLessThan(
+          graph.getStage(extractType)
+        );
+      }
+    }
+  });
+
+  it("should reject circular dependencies", () => {
+    const dependencies: ExtractDependencyMap = {
+      ...DefaultExtractDependencies,
+      PracticeInfo: ["Patient"],
+    };
+
+    expect(() => new ExtractDependencyGraph(dependencies)).toThrow(
+      "Circular extract dependency: PracticeInfo -> Patient -> Provider -> PracticeInfo"
+    );
+  });
+});
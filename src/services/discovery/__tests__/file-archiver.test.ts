@@ -0,0 +1,230 @@
+/**
+ * File Archiver Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { LocalFileSystemAdapter } from "../adapters/local-file-system-adapter";
+import type {
+  FileMetadata,
+  FileSystemAdapter,
+} from "../adapters/file-system-adapter";
+import { FileArchiver } from "../file-archiver";
+import type { LoadedFileRecord } from "../file-archiver";
+import { DefaultArchivalConfig } from "../types/config";
+
+const patientFile =
+  "685146_535_Patient_202508180544_202508190544_2508190850.csv";
+
+const archival = {
+  ...DefaultArchivalConfig,
+  processedPrefix: "processed/",
+  failedPrefix: "failed/",
+};
+
+const record = (overrides: Partial<LoadedFileRecord>): LoadedFileRecord => ({
+  loadRunId: "run-1",
+  s3Key: `working/${patientFile}`,
+  s3VersionId: "",
+  s3Etag: "etag-1",
+  extractType: "Patient",
+  perOrgId: "685146",
+  practiceId: "535",
+  dateExtracted: "2025-08-18T20:50:00.000Z", // 2508190850 in Auckland
+  status: "completed",
+  attemptCount: 1,
+  ...overrides,
+});
+
+describe("FileArchiver", () => {
+  let rootDir: string;
+  let archiver: FileArchiver;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), "indici-archive-"));
+    await mkdir(path.join(rootDir, "working"));
+    await writeFile(path.join(rootDir, "working", patientFile), "patient-data");
+
+    archiver = new FileArchiver(
+      new LocalFileSystemAdapter({ rootDir }),
+      "test-bucket",
+      archival
+    );
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should only archive versions whose extracts are all merged or out of retries", () => {
+    const zipKey = "working/685146_535_2508190850.zip";
+    const { candidates, pending } = archiver.selectArchivable(
+      [
+        record({}),
+        record({ s3Key: zipKey, extractType: "Patient" }),
+        record({ s3Key: zipKey, extractType: "Allergies" }),
+        record({
+          s3Key: "working/failed.csv",
+          status: "failed",
+          attemptCount: 3,
+        }),
+        record({
+          s3Key: "working/retry.csv",
+          status: "failed",
+          attemptCount: 1,
+        }),
+      ],
+      new Set(["run-1|Patient"])
+    );
+
+    expect(candidates).toEqual([
+      {
+        s3Key: `working/${patientFile}`,
+        s3VersionId: "",
+        s3Etag: "etag-1",
+        destination: "processed",
+        archivedS3Key: `processed/2025/08/${patientFile}`,
+      },
+      {
+        s3Key: "working/failed.csv",
+        s3VersionId: "",
+        s3Etag: "etag-1",
+        destination: "failed",
+        archivedS3Key: "failed/failed.csv",
+      },
+    ]);
+    expect(pending).toBe(2);
+  });
+
+  it("should file by the practice's local extract month", () => {
+    // 2025-08-31T13:00Z is already September in Auckland
+    expect(
+      archiver.getArchiveKey(
+        record({ dateExtracted: "2025-08-31T13:00:00.000Z" }),
+        "processed"
+      )
+    ).toBe(`processed/2025/09/${patientFile}`);
+  });
+
+  it("should keep a re-upload to an unversioned key apart from the loaded file", () => {
+    const { candidates, pending } = archiver.selectArchivable(
+      [record({}), record({ s3Etag: "etag-2", status: "processing" })],
+      new Set(["run-1|Patient"])
+    );
+
+    expect(candidates.map((c) => c.s3Etag)).toEqual(["etag-1"]);
+    expect(pending).toBe(1);
+  });
+
+  it("should move the file, tag it with its source and be safe to repeat", async () => {
+    const candidate = {
+      s3Key: `working/${patientFile}`,
+      s3VersionId: "",
+      s3Etag: createHash("sha256").update("patient-data").digest("hex"),
+      destination: "processed" as const,
+      archivedS3Key: `processed/2025/08/${patientFile}`,
+    };
+
+    const archived = await archiver.archiveFile(candidate);
+    const repeated = await archiver.archiveFile(candidate);
+
+    expect(archived).toMatchObject({
+      archivedS3Key: `processed/2025/08/${patientFile}`,
+      movedFromWorking: true,
+    });
+    expect(repeated.movedFromWorking).toBe(false);
+    expect(
+      await readFile(
+        path.join(rootDir, "processed/2025/08", patientFile),
+        "utf8"
+      )
+    ).toBe("patient-data");
+    expect(
+      JSON.parse(
+        await readFile(
+          path.join(rootDir, "processed/2025/08", `${patientFile}.tags.json`),
+          "utf8"
+        )
+      )
+    ).toMatchObject({ "source-key": `working/${patientFile}` });
+  });
+
+  it("should copy the loaded version and leave a newer upload in place", async () => {
+    const metadata = (key: string, versionId: string): FileMetadata => ({
+      key,
+      size: 12,
+      lastModified: new Date("2025-08-19T09:00:00Z"),
+      etag: `etag-${versionId}`,
+      versionId,
+    });
+    const copyFile = vi.fn((_source: string, key: string) =>
+      Promise.resolve(metadata(key, "a1"))
+    );
+    const moveFile = vi.fn();
+    const tagFile = vi.fn(() => Promise.resolve());
+    const adapter = {
+      fileExists: (key: string): Promise<boolean> =>
+        Promise.resolve(key.startsWith("working/")),
+      getFileMetadata: (
+        key: string,
+        versionId?: string
+      ): Promise<FileMetadata> =>
+        Promise.resolve(metadata(key, versionId ?? "v2")),
+      copyFile,
+      moveFile,
+      tagFile,
+    } as unknown as FileSystemAdapter;
+
+    const archived = await new FileArchiver(
+      adapter,
+      "test-bucket",
+      archival
+    ).archiveFile({
+      s3Key: `working/${patientFile}`,
+      s3VersionId: "v1",
+      s3Etag: "etag-v1",
+      destination: "processed",
+      archivedS3Key: `processed/2025/08/${patientFile}`,
+    });
+
+    expect(copyFile).toHaveBeenCalledWith(
+      `working/${patientFile}`,
+      `processed/2025/08/${patientFile}`,
+      "v1"
+    );
+    expect(moveFile).not.toHaveBeenCalled();
+    expect(tagFile).toHaveBeenCalledWith(
+      `processed/2025/08/${patientFile}`,
+      {
+        "source-key": `working/${patientFile}`,
+        "source-version-id": "v1",
+        "archive-destination": "processed",
+      },
+      "a1"
+    );
+    expect(archived).toMatchObject({
+      archivedS3VersionId: "a1",
+      movedFromWorking: false,
+    });
+  });
+
+  it("should not move an unversioned file that was re-uploaded after loading", async () => {
+    await writeFile(path.join(rootDir, "working", patientFile), "new-data");
+
+    await expect(
+      archiver.archiveFile({
+        s3Key: `working/${patientFile}`,
+        s3VersionId: "",
+        s3Etag: createHash("sha256").update("patient-data").digest("hex"),
+        destination: "processed",
+        archivedS3Key: `processed/2025/08/${patientFile}`,
+      })
+    ).rejects.toThrow("has changed since it was loaded");
+    expect(
+      await readFile(path.join(rootDir, "working", patientFile), "utf8")
+    ).toBe("new-data");
+  });
+});
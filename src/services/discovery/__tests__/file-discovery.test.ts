@@ -0,0 +1,178 @@
+/**
+ * File Discovery Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { FileDiscovery } from "../file-discovery";
+import { FilenameParser } from "../filename-parser";
+import { PracticeRegistry } from "../practice-registry";
+import type {
+  FileMetadata,
+  FileSystemAdapter,
+} from "../adapters/file-system-adapter";
+import type { DiscoveryQuarantine } from "../discovery-quarantine";
+import type { DiscoveredFile, FileBatch } from "../types/files";
+
+const listingAdapter = (files: FileMetadata[]): FileSystemAdapter => ({
+  listFiles: () => Promise.resolve(files),
+  getFileStream: () => Promise.reject(new Error("Not implemented")),
+  getFileMetadata: () => Promise.reject(new Error("Not implemented")),
+  fileExists: () => Promise.resolve(true),
+  getFileSize: () => Promise.resolve(100),
+});
+
+const extractFile = (
+  practice: string,
+  extractType: string,
+  dateExtracted: string
+): FileMetadata => ({
+  key: `${practice}_${extractType}_202508180544_202508190544_${dateExtracted}.csv`,
+  size: 100,
+  lastModified: new Date(),
+  etag: `etag-${practice}-${extractType}-${dateExtracted}`,
+});
+
+describe("FileDiscovery batch lookup", () => {
+  let discovery: FileDiscovery;
+  let files: DiscoveredFile[];
+  let batches: FileBatch[];
+
+  beforeEach(async () => {
+    const adapter: FileSystemAdapter = {
+      listFiles: () =>
+        Promise.resolve([
+          extractFile("685146_535", "Patient", "2508190850"),
+          extractFile("685146_535", "Appointments", "2508190850"),
+          extractFile("685146_535", "Patient", "2508260850"),
+          extractFile("700123_812", "Patient", "2508190850"),
+        ]),
+      getFileStream: () => Promise.reject(new Error("Not implemented")),
+      getFileMetadata: () => Promise.reject(new Error("Not implemented")),
+      fileExists: () => Promise.resolve(true),
+      getFileSize: () => Promise.resolve(100),
+    };
+    const registry = new PracticeRegistry([
+      { perOrgId: "685146", practiceId: "535" },
+      { perOrgId: "700123", practiceId: "812" },
+    ]);
+
+    discovery = new FileDiscovery(adapter, new FilenameParser(registry));
+    files = await discovery.discoverFiles();
+    batches = await discovery.groupByBatch(files);
+  });
+
+  it("should find a batch by ID for a practice", () => {
+    const batch = discovery.findBatchById(batches, "2508190850", "685146_535");
+
+    expect(batch?.practiceKey).toBe("685146_535");
+    expect(batch?.extractTypes).toEqual(["Patient", "Appointments"]);
+  });
+
+  it("should require a practice when several practices share a batch ID", () => {
+    expect(() => discovery.findBatchById(batches, "2508190850")).toThrow(
+      "for several practices (685146_535, 700123_812)"
+    );
+    expect(discovery.findBatchById(batches, "2508260850")?.batchId).toBe(
+      "2508260850"
+    );
+    expect(discovery.findBatchById(batches, "2401010000")).toBeNull();
+  });
+
+  it("should find a batch by DateExtracted", () => {
+    const batch = discovery.findBatchByDate(
+      batches,
+      FilenameParser.parseBatchId("2508260850")
+    );
+
+    expect(batch?.batchId).toBe("2508260850");
+  });
+
+  it("should find the latest batch", () => {
+    expect(discovery.findLatestBatch(batches)?.batchId).toBe("2508260850");
+    expect(discovery.findLatestBatch(batches, "700123_812")?.batchId).toBe(
+      "2508190850"
+    );
+    expect(discovery.findLatestBatch([])).toBeNull();
+  });
+
+  it("should find files by extract type", () => {
+    expect(discovery.findFilesByExtractType(files, "Patient")).toHaveLength(3);
+    expect(
+      discovery.findFilesByExtractType(files, "Appointments")
+    ).toHaveLength(1);
+  });
+});
+
+describe("FileDiscovery quarantine", () => {
+  const stray = (key: string): FileMetadata => ({
+    key,
+    size: 100,
+    lastModified: new Date(),
+    etag: `etag-${key}`,
+    versionId: "v1",
+  });
+
+  it("should quarantine files it cannot load and carry on with the rest", async () => {
+    const record = vi.fn(() => Promise.resolve());
+    const parser = new FilenameParser();
+    const discovery = new FileDiscovery(
+      listingAdapter([
+        extractFile("685146_535", "Patient", "2508190850"),
+        stray("notes.csv"),
+        stray("685146_535_Unknown_202508180544_202508190544_2508190850.csv"),
+        stray("700123_812_Patient_202508180544_202508190544_2508190850.csv"),
+        stray("685146_535_Patient_202508190544_202508180544_2508190850.csv"),
+        stray("685146_535_Patient_202508180544_202513190544_2508190850.csv"),
+      ]),
+      parser,
+      "test-bucket",
+      parser.getPracticeRegistry(),
+      undefined,
+      undefined,
+      { record } as unknown as DiscoveryQuarantine
+    );
+
+    const files = await discovery.discoverFiles();
+
+    expect(files.map((f) => f.parsed.extractType)).toEqual(["Patient"]);
+    const quarantined = discovery.getQuarantinedFiles();
+    expect(quarantined.map((f) => f.reason)).toEqual([
+      "unparseable_filename",
+      "unknown_extract_type",
+      "unknown_practice",
+      "invalid_date_order",
+      "invalid_timestamp",
+    ]);
+    expect(quarantined[0]).toMatchObject({
+      s3Key: "notes.csv",
+      s3VersionId: "v1",
+    });
+    expect(record).toHaveBeenCalledWith("test-bucket", quarantined);
+  });
+
+  it("should skip excluded prefixes without quarantining their files", async () => {
+    const parser = new FilenameParser();
+    const archived = extractFile("685146_535", "Patient", "2508180850");
+    const discovery = new FileDiscovery(
+      listingAdapter([
+        extractFile("685146_535", "Patient", "2508190850"),
+        { ...archived, key: `processed/${archived.key}` },
+        stray("failed/notes.csv"),
+      ]),
+      parser,
+      "test-bucket",
+      parser.getPracticeRegistry(),
+      undefined,
+      undefined,
+      undefined,
+      ["processed/", "failed/"]
+    );
+
+    const files = await discovery.discoverFiles();
+
+    expect(files.map((f) => f.s3Key)).toEqual([
+      "685146_535_Patient_202508180544_202508190544_2508190850.csv",
+    ]);
+    expect(discovery.getQuarantinedFiles()).toEqual([]);
+  });
+});
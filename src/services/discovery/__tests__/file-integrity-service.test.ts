@@ -0,0 +1,63 @@
+/**
+ * File Integrity Service Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { FileIntegrityService, HashingStream } from "../file-integrity-service";
+import type { FileSystemAdapter } from "../adapters/file-system-adapter";
+import type { DiscoveredFile } from "../types/files";
+
+const content = "PatientID,NHI\n1,ABC1234\n";
+const sha256 = createHash("sha256").update(content).digest();
+
+const discovered = (s3Key: string, checksum?: string): DiscoveredFile =>
+  ({ s3Key, checksum }) as DiscoveredFile;
+
+describe("FileIntegrityService", () => {
+  const service = new FileIntegrityService({} as FileSystemAdapter);
+
+  it("should hash content while passing it through", async () => {
+    const hashingStream = new HashingStream();
+    Readable.from([content.slice(0, 10), content.slice(10)]).pipe(
+      hashingStream
+    );
+
+    expect(hashingStream.contentHash).toBeNull();
+    const chunks: string[] = [];
+    for await (const chunk of hashingStream) {
+      chunks.push(String(chunk));
+    }
+
+    expect(chunks.join("")).toBe(content);
+    expect(hashingStream.contentHash).toBe(sha256.toString("hex"));
+  });
+
+  it("should verify content hashes against base64 and hex checksums", () => {
+    const contentHash = sha256.toString("hex");
+
+    expect(
+      service.verifyContentHash(contentHash, sha256.toString("base64"))
+    ).toBe(true);
+    expect(service.verifyContentHash(contentHash, contentHash)).toBe(true);
+    expect(
+      service.verifyContentHash(contentHash, "AAAAAAAAAAAAAAAAAAAAAAAAAAA=")
+    ).toBe(false);
+    expect(service.verifyContentHash(contentHash, "abc-3")).toBeNull();
+    expect(service.verifyContentHash(contentHash, undefined)).toBeNull();
+  });
+
+  it("should flag files with identical content under different keys", () => {
+    const duplicates = service.findDuplicates([
+      discovered("685146_535_Patient_a.csv", "same"),
+      discovered("685146_535_Allergies_a.csv", "other"),
+      discovered("700123_812_Patient_a.csv", "same"),
+      discovered("700123_812_Allergies_a.csv"),
+    ]);
+
+    expect([...duplicates]).toEqual([
+      ["700123_812_Patient_a.csv", "685146_535_Patient_a.csv"],
+    ]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Filename Parser Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { FilenameParser } from "../filename-parser";
+import { PracticeRegistry } from "../practice-registry";
+
+const poutiriFile =
+  "685146_535_Patient_202508180544_202508190544_2508190850.csv";
+const otherPracticeFile =
+  "700123_812_Patient_202508180544_202508190544_2508190850.csv";
+
+describe("FilenameParser", () => {
+  it("should parse the default practice and set its practice key", () => {
+    const parsed = FilenameParser.parse(`working/${poutiriFile}`);
+
+    expect(parsed.perOrgId).toBe("685146");
+    expect(parsed.practiceId).toBe("535");
+    expect(parsed.practiceKey).toBe("685146_535");
+    expect(parsed.extractType).toBe("Patient");
+    expect(parsed.batchId).toBe("2508190850");
+  });
+
+  it("should reject practices that are not in the registry", () => {
+    expect(() => FilenameParser.parse(otherPracticeFile)).toThrow(
+      "Unknown practice: PerOrgID 700123, PracticeID 812. Expected one of: 685146/535"
+    );
+  });
+
+  it("should report why a filename cannot be parsed without throwing", () => {
+    const result = FilenameParser.tryParse(
+      "685146_535_Patient_202508190544_202508180544_2508190850.csv"
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      reason: "invalid_date_order",
+      message:
+        "DateTo (2025-08-17T17:44:00.000Z) must be >= DateFrom (2025-08-18T17:44:00.000Z)",
+    });
+    expect(FilenameParser.tryParse(poutiriFile).ok).toBe(true);
+  });
+
+  it("should accept any practice configured in the registry", () => {
+    const parser = new FilenameParser(
+      new PracticeRegistry([
+        { perOrgId: "685146", practiceId: "535" },
+        { perOrgId: "700123", practiceId: "812", displayName: "Other" },
+      ])
+    );
+
+    expect(parser.parseFilename(poutiriFile)?.practiceKey).toBe("685146_535");
+    expect(parser.parseFilename(otherPracticeFile)?.practiceKey).toBe(
+      "700123_812"
+    );
+  });
+
+  it("should parse gzipped extracts and tell compressed files apart", () => {
+    expect(FilenameParser.parse(`${poutiriFile}.gz`).extractType).toBe(
+      "Patient"
+    );
+    expect(FilenameParser.getCompression(poutiriFile)).toBe("none");
+    expect(FilenameParser.getCompression(`${poutiriFile}.GZ`)).toBe("gzip");
+    expect(FilenameParser.getCompression("685146_535_2508190850.zip")).toBe(
+      "zip"
+    );
+    expect(FilenameParser.getCompression("notes.txt")).toBeNull();
+  });
+
+  it("should read timestamps as Pacific/Auckland time whatever the host timezone", () => {
+    const parsed = FilenameParser.parse(poutiriFile);
+
+    expect(parsed.timezone).toBe("Pacific/Auckland");
+    expect(parsed.dateFrom.toISOString()).toBe("2025-08-17T17:44:00.000Z");
+    expect(parsed.dateExtracted.toISOString()).toBe("2025-08-18T20:50:00.000Z");
+  });
+
+  it("should use the practice's configured timezone", () => {
+    const parser = new FilenameParser(
+      new PracticeRegistry([
+        { perOrgId: "700123", practiceId: "812", timezone: "Australia/Sydney" },
+      ])
+    );
+
+    expect(
+      parser.parseFilename(otherPracticeFile)?.dateExtracted.toISOString()
+    ).toBe("2025-08-18T22:50:00.000Z");
+    expect(
+      () =>
+        new PracticeRegistry([
+          { perOrgId: "700123", practiceId: "812", timezone: "Mars/Olympus" },
+        ])
+    ).toThrow("Invalid timezone for practice 700123_812: Mars/Olympus");
+  });
+
+  it("should round-trip batch IDs across DST changes", () => {
+    // 02:30 on 5 April 2026 happens twice as clocks go back
+    const repeated = FilenameParser.parseBatchId("2604050230");
+    expect(repeated.toISOString()).toBe("2026-04-04T13:30:00.000Z");
+
+    for (const batchId of ["2604050230", "2509280130", "2509280330"]) {
+      expect(
+        FilenameParser.formatBatchId(FilenameParser.parseBatchId(batchId))
+      ).toBe(batchId);
+    }
+
+    // 02:30 on 28 September 2025 is skipped as clocks go forward, but the
+    // batch ID still comes from the filename
+    const skipped = FilenameParser.parse(
+      "685146_535_Patient_202509270230_202509280230_2509280230.csv"
+    );
+    expect(skipped.batchId).toBe("2509280230");
+    expect(skipped.dateExtracted.toISOString()).toBe(
+      "2025-09-27T14:30:00.000Z"
+    );
+  });
+
+  it("should measure full load windows in wall-clock hours over DST", () => {
+    // 24 wall-clock hours, but only 23 real hours as clocks go forward
+    const parsed = FilenameParser.parse(
+      "685146_535_Patient_202509270300_202509280300_2509280400.csv"
+    );
+
+    expect(parsed.dateTo.getTime() - parsed.dateFrom.getTime()).toBe(
+      23 * 60 * 60 * 1000
+    );
+    expect(parsed.isFullLoad).toBe(true);
+  });
+});
+
+describe("PracticeRegistry", () => {
+  const registry = new PracticeRegistry([
+    { perOrgId: "685146", practiceId: "535", displayName: "Poutiri" },
+    {
+      perOrgId: "700123",
+      practiceId: "812",
+      enabledExtractTypes: ["Patient"],
+    },
+  ]);
+
+  it("should fall back to the practice key when there is no display name", () => {
+    expect(registry.getDisplayName("685146", "535")).toBe("Poutiri");
+    expect(registry.getDisplayName("700123", "812")).toBe("700123_812");
+  });
+
+  it("should only enable configured extract types for a practice", () => {
+    expect(registry.isExtractEnabled("685146", "535", "Allergies")).toBe(true);
+    expect(registry.isExtractEnabled("700123", "812", "Patient")).toBe(true);
+    expect(registry.isExtractEnabled("700123", "812", "Allergies")).toBe(false);
+    expect(registry.isExtractEnabled("999999", "1", "Patient")).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Load Mode Policy Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { LoadModePolicy } from "../load-mode-policy";
+import { FilenameParser } from "../filename-parser";
+import { PracticeRegistry } from "../practice-registry";
+import type { DiscoveredFile } from "../types/files";
+
+const policy = new LoadModePolicy({
+  defaultRule: { mode: "window", fullLoadMinHours: 24 },
+  rules: {
+    PracticeInfo: { mode: "full" },
+    Appointments: { mode: "window", fullLoadMinHours: 24 * 7 },
+  },
+});
+const parser = new FilenameParser(new PracticeRegistry(), policy);
+
+const discovered = (filename: string): DiscoveredFile => ({
+  s3Key: filename,
+  s3VersionId: "",
+  s3Bucket: "test-bucket",
+  fileSize: 100,
+  lastModified: new Date(),
+  etag: filename,
+  parsed: parser.parseFilename(filename)!,
+});
+
+describe("LoadModePolicy", () => {
+  it("should detect full loads using the extract type's rule", () => {
+    // One day window: full under the default rule, delta for Appointments
+    const window = "202508180544_202508190544_2508190850.csv";
+
+    expect(parser.parseFilename(`685146_535_Patient_${window}`)).toMatchObject({
+      isFullLoad: true,
+      isDelta: false,
+    });
+    expect(
+      parser.parseFilename(`685146_535_Appointments_${window}`)
+    ).toMatchObject({ isFullLoad: false, isDelta: true });
+    expect(
+      parser.parseFilename(
+        "685146_535_PracticeInfo_202508190500_202508190544_2508190850.csv"
+      )?.isFullLoad
+    ).toBe(true);
+  });
+
+  it("should skip deltas covered by a newer full load", () => {
+    const olderDelta = discovered(
+      "685146_535_Patient_202508180544_202508181044_2508181044.csv"
+    );
+    const fullLoad = discovered(
+      "685146_535_Patient_201001010000_202508190544_2508190850.csv"
+    );
+    const newerDelta = discovered(
+      "685146_535_Patient_202508190544_202508191044_2508191044.csv"
+    );
+    const otherType = discovered(
+      "685146_535_Allergies_202508180544_202508181044_2508181044.csv"
+    );
+
+    const result = policy.reconcile([
+      olderDelta,
+      fullLoad,
+      newerDelta,
+      otherType,
+    ]);
+
+    expect(result.superseded).toEqual([olderDelta]);
+    expect(result.files).toEqual([fullLoad, newerDelta, otherType]);
+  });
+});
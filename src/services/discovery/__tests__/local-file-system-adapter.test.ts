@@ -0,0 +1,136 @@
+/**
+ * Local File System Adapter Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { LocalFileSystemAdapter } from "../adapters/local-file-system-adapter";
+
+const patientFile =
+  "685146_535_Patient_202508180544_202508190544_2508190850.csv";
+const allergiesFile =
+  "685146_535_Allergies_202508180544_202508190544_2508190850.csv";
+
+describe("LocalFileSystemAdapter", () => {
+  let rootDir: string;
+  let adapter: LocalFileSystemAdapter;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(tmpdir(), "indici-local-"));
+    await mkdir(path.join(rootDir, "working"));
+    await writeFile(path.join(rootDir, "working", patientFile), "patient-data");
+    await writeFile(path.join(rootDir, allergiesFile), "allergy-data");
+
+    adapter = new LocalFileSystemAdapter({ rootDir });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should list files recursively with forward slash keys", async () => {
+    const files = await adapter.listFiles();
+
+    expect(files.map((f) => f.key)).toEqual([
+      allergiesFile,
+      `working/${patientFile}`,
+    ]);
+  });
+
+  it("should filter listed files by prefix", async () => {
+    const files = await adapter.listFiles("working/");
+
+    expect(files).toHaveLength(1);
+    expect(files[0].key).toBe(`working/${patientFile}`);
+  });
+
+  it("should report size, mtime and content hash", async () => {
+    const metadata = await adapter.getFileMetadata(`working/${patientFile}`);
+    const expectedHash = createHash("sha256")
+      .update("patient-data")
+      .digest("hex");
+
+    expect(metadata.size).toBe("patient-data".length);
+    expect(metadata.lastModified).toBeInstanceOf(Date);
+    expect(metadata.etag).toBe(expectedHash);
+    expect(metadata.checksum).toEqual({ SHA256: expectedHash });
+  });
+
+  it("should stream file content", async () => {
+    const stream = await adapter.getFileStream(allergiesFile);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    expect(Buffer.concat(chunks).toString()).toBe("allergy-data");
+  });
+
+  it("should check file existence and size", async () => {
+    expect(await adapter.fileExists(allergiesFile)).toBe(true);
+    expect(await adapter.fileExists("missing.csv")).toBe(false);
+    expect(await adapter.getFileSize(allergiesFile)).toBe(
+      "allergy-data".length
+    );
+  });
+
+  it("should reject keys outside the root directory", async () => {
+    await expect(adapter.getFileStream("../outside.csv")).rejects.toThrow(
+      "outside the root directory"
+    );
+  });
+
+  it("should move a file with its tags and hide tag files from listings", async () => {
+    await adapter.tagFile(`working/${patientFile}`, { source: "working" });
+    const moved = await adapter.moveFile(
+      `working/${patientFile}`,
+      `processed/2025/08/${patientFile}`
+    );
+
+    expect(moved.key).toBe(`processed/2025/08/${patientFile}`);
+    expect(await adapter.fileExists(`working/${patientFile}`)).toBe(false);
+    expect(
+      await readFile(
+        path.join(rootDir, "processed/2025/08", `${patientFile}.tags.json`),
+        "utf8"
+      )
+    ).toBe(JSON.stringify({ source: "working" }));
+    expect((await adapter.listFiles()).map((f) => f.key)).toEqual([
+      allergiesFile,
+      `processed/2025/08/${patientFile}`,
+    ]);
+  });
+
+  it("should reject operations on a version of a file", async () => {
+    await expect(
+      adapter.moveFile(
+        `working/${patientFile}`,
+        `processed/${patientFile}`,
+        "v1"
+      )
+    ).rejects.toThrow("Local files are not versioned");
+    await expect(
+      adapter.copyFile(
+        `working/${patientFile}`,
+        `processed/${patientFile}`,
+        "v1"
+      )
+    ).rejects.toThrow("Local files are not versioned");
+    await expect(
+      adapter.tagFile(`working/${patientFile}`, { source: "working" }, "v1")
+    ).rejects.toThrow("Local files are not versioned");
+    expect(await adapter.fileExists(`working/${patientFile}`)).toBe(true);
+  });
+
+  it("should report health based on the root directory", async () => {
+    expect(await adapter.healthCheck()).toBe(true);
+
+    const missing = new LocalFileSystemAdapter({
+      rootDir: path.join(rootDir, "missing"),
+    });
+    expect(await missing.healthCheck()).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * S3 File System Adapter Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectVersionsCommand,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+import { S3FileSystemAdapter } from "../adapters/s3-file-system-adapter";
+
+const patientFile =
+  "685146_535_Patient_202508180544_202508190544_2508190850.csv";
+const allergiesFile =
+  "685146_535_Allergies_202508180544_202508190544_2508190850.csv";
+
+describe("S3FileSystemAdapter versioning", () => {
+  let send: ReturnType<typeof vi.fn>;
+  let adapter: S3FileSystemAdapter;
+
+  beforeEach(() => {
+    send = vi.fn((command: unknown) => {
+      if (command instanceof GetObjectCommand) {
+        return Promise.resolve({ Body: "body" });
+      }
+
+      const input = (command as ListObjectVersionsCommand).input;
+      if (!input.KeyMarker) {
+        return Promise.resolve({
+          IsTruncated: true,
+          NextKeyMarker: patientFile,
+          NextVersionIdMarker: "v1",
+          Versions: [
+            { Key: patientFile, VersionId: "v2", IsLatest: true, Size: 20 },
+            { Key: patientFile, VersionId: "v1", IsLatest: false, Size: 10 },
+          ],
+        });
+      }
+      return Promise.resolve({
+        IsTruncated: false,
+        Versions: [
+          { Key: allergiesFile, VersionId: "null", IsLatest: true, Size: 5 },
+        ],
+      });
+    });
+
+    adapter = new S3FileSystemAdapter(
+      { send } as unknown as S3Client,
+      { bucket: "test-bucket", region: "ap-southeast-2" },
+      true
+    );
+  });
+
+  it("should list every version across pages", async () => {
+    const versions = await adapter.listFileVersions();
+
+    expect(versions.map((v) => [v.key, v.versionId, v.isLatest])).toEqual([
+      [patientFile, "v2", true],
+      [patientFile, "v1", false],
+      [allergiesFile, undefined, true],
+    ]);
+    const secondPage = send.mock.calls[1][0] as ListObjectVersionsCommand;
+    expect(secondPage.input).toMatchObject({
+      KeyMarker: patientFile,
+      VersionIdMarker: "v1",
+    });
+  });
+
+  it("should list only the latest versions with their version IDs", async () => {
+    const files = await adapter.listFiles();
+
+    expect(files.map((f) => [f.key, f.versionId])).toEqual([
+      [patientFile, "v2"],
+      [allergiesFile, undefined],
+    ]);
+  });
+
+  it("should start listing after a key and count requests", async () => {
+    await adapter.listFiles("685146_535_Patient_", patientFile);
+
+    const command = send.mock.calls[0][0] as ListObjectVersionsCommand;
+    expect(command.input).toMatchObject({
+      Prefix: "685146_535_Patient_",
+      KeyMarker: patientFile,
+    });
+    expect(adapter.getRequestCount()).toBe(1);
+  });
+
+  it("should fetch a specific version", async () => {
+    await adapter.getFileStream(patientFile, "v1");
+
+    const command = send.mock.calls[0][0] as GetObjectCommand;
+    expect(command.input).toMatchObject({
+      Bucket: "test-bucket",
+      Key: patientFile,
+      VersionId: "v1",
+    });
+  });
+});
+
+describe("S3FileSystemAdapter moveFile", () => {
+  const archivedKey = `processed/2025/08/${patientFile}`;
+
+  const moveWith = async (
+    sourceVersionId: string | undefined
+  ): Promise<unknown[]> => {
+    const send = vi.fn((command: unknown) => {
+      if (command instanceof HeadObjectCommand) {
+        const { Key } = command.input;
+        return Promise.resolve(
+          Key === patientFile
+            ? { ETag: '"etag-1"', VersionId: sourceVersionId ? "v3" : "null" }
+            : { ETag: '"etag-1"', VersionId: "a1" }
+        );
+      }
+      return Promise.resolve({ VersionId: "a1" });
+    });
+    const adapter = new S3FileSystemAdapter(
+      { send } as unknown as S3Client,
+      { bucket: "test-bucket", region: "ap-southeast-2" },
+      true
+    );
+
+    const moved = await adapter.moveFile(
+      patientFile,
+      archivedKey,
+      sourceVersionId
+    );
+    expect(moved.versionId).toBe("a1");
+    return send.mock.calls.map(([command]) => command);
+  };
+
+  it("should delete only the version it copied", async () => {
+    const commands = await moveWith("v2");
+
+    const copy = commands.find((c) => c instanceof CopyObjectCommand);
+    const remove = commands.find((c) => c instanceof DeleteObjectCommand);
+    expect((copy as CopyObjectCommand).input.CopySource).toBe(
+      `test-bucket/${patientFile}?versionId=v2`
+    );
+    expect((remove as DeleteObjectCommand).input).toMatchObject({
+      Key: patientFile,
+      VersionId: "v2",
+    });
+  });
+
+  it("should copy and delete an unversioned object only while its ETag is unchanged", async () => {
+    const commands = await moveWith(undefined);
+
+    const copy = commands.find((c) => c instanceof CopyObjectCommand);
+    const remove = commands.find((c) => c instanceof DeleteObjectCommand);
+    expect((copy as CopyObjectCommand).input.CopySourceIfMatch).toBe(
+      '"etag-1"'
+    );
+    expect((remove as DeleteObjectCommand).input).toMatchObject({
+      Key: patientFile,
+      VersionId: undefined,
+      IfMatch: '"etag-1"',
+    });
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Cached File System Adapter
+ * Wraps another adapter with a listing cache kept on local disk, so repeat
+ * discoveries only list keys added since the last run and reuse the metadata
+ * of objects that have not changed
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  ByteRange,
+  FileSystemAdapter,
+  FileMetadata,
+} from "./file-system-adapter";
+
+interface CachedObject {
+  key: string;
+  size: number;
+  lastModified: string; // ISO 8601
+  etag: string;
+  versionId?: string;
+  // From getFileMetadata, valid while the etag and version are unchanged
+  checksumAlgorithm?: string[];
+  checksum?: Record<string, string>;
+}
+
+interface ListingCacheFile {
+  source: string;
+  prefix: string;
+  fullListedAt: string; // ISO 8601
+  objects: CachedObject[];
+}
+
+export interface ListingCacheStats {
+  hits: number; // Objects and metadata served from the cache
+  misses: number; // Objects and metadata fetched from the source
+}
+
+// Extract filenames are time ordered after <PerOrgID>_<PracticeID>_[<ExtractType>_],
+// so everything up to the first timestamp names a series listed in order
+const SERIES_PATTERN = /^(.*?_)\d{10,12}(?=[_.])/;
+
+export class CachedFileSystemAdapter implements FileSystemAdapter {
+  private cache: ListingCacheFile | null = null;
+  private objectsByKey = new Map<string, CachedObject>();
+  private loaded = false;
+  private dirty = false;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private fileSystemAdapter: FileSystemAdapter,
+    private cachePath: string,
+    private source: string, // e.g. "s3://bucket"; the cache is dropped if it changes
+    private ttlMinutes: number = 60
+  ) {}
+
+  /**
+   * List files from the cache plus any keys added after the last cached key
+   * of each series, and after the last cached key of the prefix, which finds
+   * new practices and extract types that sort after every cached key. The
+   * whole prefix is listed when the cache is empty, and again once it is
+   * older than the TTL, which also picks up overwritten and deleted objects
+   * and keys that sort before the last cached key of their series
+   */
+  async listFiles(
+    prefix?: string,
+    startAfter?: string
+  ): Promise<FileMetadata[]> {
+    if (startAfter !== undefined) {
+      return this.fileSystemAdapter.listFiles(prefix, startAfter);
+    }
+
+    const cache = await this.load();
+    const cachePrefix = prefix ?? "";
+    let objects: CachedObject[];
+    let fullListedAt: string;
+
+    if (
+      cache &&
+      cache.source === this.source &&
+      cache.prefix === cachePrefix &&
+      cache.objects.length > 0 &&
+      Date.now() - new Date(cache.fullListedAt).getTime() <
+        this.ttlMinutes * 60 * 1000
+    ) {
+      objects = await this.listIncrementally(prefix, cache.objects);
+      fullListedAt = cache.fullListedAt;
+    } else {
+      objects = await this.listAll(prefix, cache?.objects ?? []);
+      fullListedAt = new Date().toISOString();
+    }
+
+    this.setCache({
+      source: this.source,
+      prefix: cachePrefix,
+      fullListedAt,
+      objects,
+    });
+    this.dirty = true;
+    await this.flush();
+
+    return objects.map((object) => this.toMetadata(object));
+  }
+
+  listFileVersions(prefix?: string): Promise<FileMetadata[]> {
+    if (!this.fileSystemAdapter.listFileVersions) {
+      return Promise.reject(
+        new Error("The file source does not support object versions")
+      );
+    }
+    return this.fileSystemAdapter.listFileVersions(prefix);
+  }
+
+  getFileStream(
+    key: string,
+    versionId?: string,
+    range?: ByteRange
+  ): Promise<NodeJS.ReadableStream> {
+    return this.fileSystemAdapter.getFileStream(key, versionId, range);
+  }
+
+  /**
+   * Get metadata from the cache when it was fetched for the same version of
+   * a listed object, otherwise from the source
+   */
+  async getFileMetadata(
+    key: string,
+    versionId?: string
+  ): Promise<FileMetadata> {
+    await this.load();
+    const listed = this.objectsByKey.get(key);
+    const cached =
+      listed && (!versionId || listed.versionId === versionId)
+        ? listed
+        : undefined;
+    if (cached?.checksum) {
+      this.hits++;
+      return this.toMetadata(cached);
+    }
+
+    this.misses++;
+    const metadata = await this.fileSystemAdapter.getFileMetadata(
+      key,
+      versionId
+    );
+    if (
+      cached &&
+      cached.etag === metadata.etag &&
+      cached.versionId === metadata.versionId
+    ) {
+      cached.checksumAlgorithm = metadata.checksumAlgorithm;
+      cached.checksum = metadata.checksum;
+      this.dirty = true;
+    }
+
+    return metadata;
+  }
+
+  copyFile(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata> {
+    if (!this.fileSystemAdapter.copyFile) {
+      return Promise.reject(
+        new Error("The file source does not support copying files")
+      );
+    }
+    return this.fileSystemAdapter.copyFile(
+      sourceKey,
+      destinationKey,
+      sourceVersionId
+    );
+  }
+
+  /**
+   * Move a file in the source and drop it from the cached listing
+   */
+  async moveFile(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata> {
+    if (!this.fileSystemAdapter.moveFile) {
+      throw new Error("The file source does not support moving files");
+    }
+
+    const moved = await this.fileSystemAdapter.moveFile(
+      sourceKey,
+      destinationKey,
+      sourceVersionId
+    );
+
+    await this.load();
+    if (this.cache && this.objectsByKey.has(sourceKey)) {
+      this.setCache({
+        ...this.cache,
+        objects: this.cache.objects.filter((o) => o.key !== sourceKey),
+      });
+      this.dirty = true;
+    }
+
+    return moved;
+  }
+
+  tagFile(
+    key: string,
+    tags: Record<string, string>,
+    versionId?: string
+  ): Promise<void> {
+    if (!this.fileSystemAdapter.tagFile) {
+      return Promise.reject(
+        new Error("The file source does not support tagging files")
+      );
+    }
+    return this.fileSystemAdapter.tagFile(key, tags, versionId);
+  }
+
+  fileExists(key: string): Promise<boolean> {
+    return this.fileSystemAdapter.fileExists(key);
+  }
+
+  getFileSize(key: string): Promise<number> {
+    return this.fileSystemAdapter.getFileSize(key);
+  }
+
+  getRequestCount(): number {
+    return this.fileSystemAdapter.getRequestCount?.() ?? 0;
+  }
+
+  /**
+   * Write the cache to disk if it changed since it was last written
+   * The file is replaced in one step so a crash never leaves half a cache
+   */
+  async flush(): Promise<void> {
+    if (!this.dirty || !this.cache) {
+      return;
+    }
+
+    try {
+      await mkdir(path.dirname(this.cachePath), { recursive: true });
+      const tempPath = `${this.cachePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(this.cache));
+      await rename(tempPath, this.cachePath);
+      this.dirty = false;
+    } catch (error) {
+      console.warn(`Failed to write listing cache ${this.cachePath}:`, error);
+    }
+  }
+
+  /**
+   * Objects and metadata served from the cache versus fetched, since the
+   * adapter was created
+   */
+  getCacheStats(): ListingCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * List the whole prefix, keeping cached metadata for unchanged objects
+   */
+  private async listAll(
+    prefix: string | undefined,
+    previous: CachedObject[]
+  ): Promise<CachedObject[]> {
+    const previousByKey = new Map(
+      previous.map((object) => [object.key, object])
+    );
+    const files = await this.fileSystemAdapter.listFiles(prefix);
+    this.misses += files.length;
+
+    return files.map((file) => {
+      const object = this.toCachedObject(file);
+      const cached = previousByKey.get(file.key);
+      if (
+        cached &&
+        cached.etag === object.etag &&
+        cached.versionId === object.versionId &&
+        !object.checksum
+      ) {
+        object.checksumAlgorithm = cached.checksumAlgorithm;
+        object.checksum = cached.checksum;
+      }
+      return object;
+    });
+  }
+
+  /**
+   * List each series after its last cached key, and the prefix after its
+   * last cached key, and add the new keys
+   */
+  private async listIncrementally(
+    prefix: string | undefined,
+    cached: CachedObject[]
+  ): Promise<CachedObject[]> {
+    const lastKeys = new Map<string, string>();
+    let lastKey = "";
+    for (const object of cached) {
+      const series = SERIES_PATTERN.exec(object.key)?.[1];
+      if (series && (lastKeys.get(series) ?? "") < object.key) {
+        lastKeys.set(series, object.key);
+      }
+      if (lastKey < object.key) {
+        lastKey = object.key;
+      }
+    }
+
+    const listed = await Promise.all([
+      ...[...lastKeys].map(([series, lastSeriesKey]) =>
+        this.fileSystemAdapter.listFiles(series, lastSeriesKey)
+      ),
+      this.fileSystemAdapter.listFiles(prefix, lastKey),
+    ]);
+
+    // The prefix listing repeats new keys of the last series
+    const addedByKey = new Map<string, FileMetadata>();
+    for (const file of listed.flat()) {
+      addedByKey.set(file.key, file);
+    }
+    const known = new Set(cached.map((object) => object.key));
+    const added = [...addedByKey.values()]
+      .filter((file) => !known.has(file.key))
+      .map((file) => this.toCachedObject(file));
+
+    this.hits += cached.length;
+    this.misses += added.length;
+
+    return [...cached, ...added].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Read the cache from disk once; a missing or unreadable cache is empty
+   */
+  private async load(): Promise<ListingCacheFile | null> {
+    if (this.loaded) {
+      return this.cache;
+    }
+
+    this.loaded = true;
+    try {
+      this.setCache(
+        JSON.parse(await readFile(this.cachePath, "utf8")) as ListingCacheFile
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(
+          `Ignoring unreadable listing cache ${this.cachePath}:`,
+          error
+        );
+      }
+    }
+
+    return this.cache;
+  }
+
+  private setCache(cache: ListingCacheFile): void {
+    this.cache = cache;
+    this.objectsByKey = new Map(
+      cache.objects.map((object) => [object.key, object])
+    );
+  }
+
+  private toCachedObject(file: FileMetadata): CachedObject {
+    return {
+      key: file.key,
+      size: file.size,
+      lastModified: file.lastModified.toISOString(),
+      etag: file.etag,
+      versionId: file.versionId,
+      checksumAlgorithm: file.checksumAlgorithm,
+      checksum: file.checksum,
+    };
+  }
+
+  private toMetadata(object: CachedObject): FileMetadata {
+    return {
+      key: object.key,
+      size: object.size,
+      lastModified: new Date(object.lastModified),
+      etag: object.etag,
+      versionId: object.versionId,
+      checksumAlgorithm: object.checksumAlgorithm,
+      checksum: object.checksum,
+    };
+  }
+}
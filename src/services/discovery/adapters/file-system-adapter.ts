@@ -9,25 +9,48 @@ export interface FileMetadata {
   lastModified: Date;
   etag: string;
   versionId?: string;
+  isLatest?: boolean; // False for older versions from listFileVersions
   checksumAlgorithm?: string[];
-  checksum?: Record<string, string>;
+  checksum?: Record<string, string>; // Checksum values by algorithm, base64 from S3
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
 }
 
 export interface FileSystemAdapter {
   /**
-   * List files with optional prefix filtering
+   * List files with optional prefix filtering, optionally only the keys that
+   * sort after startAfter
+   */
+  listFiles(prefix?: string, startAfter?: string): Promise<FileMetadata[]>;
+
+  /**
+   * List every stored version of files with optional prefix filtering,
+   * newest first for each key, optionally only for keys that sort after
+   * startAfter. Only implemented by versioned sources
    */
-  listFiles(prefix?: string): Promise<FileMetadata[]>;
+  listFileVersions?(
+    prefix?: string,
+    startAfter?: string
+  ): Promise<FileMetadata[]>;
 
   /**
-   * Get a readable stream for a file
+   * Get a readable stream for a file, or for one version of it, optionally
+   * limited to a byte range
    */
-  getFileStream(key: string): Promise<NodeJS.ReadableStream>;
+  getFileStream(
+    key: string,
+    versionId?: string,
+    range?: ByteRange
+  ): Promise<NodeJS.ReadableStream>;
 
   /**
-   * Get metadata for a specific file
+   * Get metadata for a specific file, or for one version of it
    */
-  getFileMetadata(key: string): Promise<FileMetadata>;
+  getFileMetadata(key: string, versionId?: string): Promise<FileMetadata>;
 
   /**
    * Check if a file exists
@@ -38,4 +61,44 @@ export interface FileSystemAdapter {
    * Get the size of a file
    */
   getFileSize(key: string): Promise<number>;
+
+  /**
+   * Copy a file, or one version of it, to another key and return the
+   * metadata of the copy
+   */
+  copyFile?(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata>;
+
+  /**
+   * Copy a file, or one version of it, to another key and remove the source
+   * key. Versioned sources keep the source version behind a delete marker
+   */
+  moveFile?(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata>;
+
+  /**
+   * Replace the tags of a file, or of one version of it
+   */
+  tagFile?(
+    key: string,
+    tags: Record<string, string>,
+    versionId?: string
+  ): Promise<void>;
+
+  /**
+   * Number of requests made to the source since the adapter was created, for
+   * sources that charge per request
+   */
+  getRequestCount?(): number;
+
+  /**
+   * Persist any cached listing state
+   */
+  flush?(): Promise<void>;
 }
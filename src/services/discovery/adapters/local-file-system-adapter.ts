@@ -0,0 +1,305 @@
+/**
+ * Local File System Adapter Implementation
+ * Provides disk-backed implementation of FileSystemAdapter for drop folders,
+ * manual replays and offline runs
+ */
+
+import { createReadStream } from "node:fs";
+import {
+  copyFile,
+  mkdir,
+  readdir,
+  rename,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import { createHash } from "node:crypto";
+import path from "node:path";
+import type {
+  ByteRange,
+  FileSystemAdapter,
+  FileMetadata,
+} from "./file-system-adapter";
+import type { LocalConfig } from "../types/config";
+
+// Tags are kept next to the file they belong to, as <file>.tags.json
+const TAGS_SUFFIX = ".tags.json";
+
+interface CachedHash {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+}
+
+export class LocalFileSystemAdapter implements FileSystemAdapter {
+  private config: LocalConfig;
+  private rootDir: string;
+  // Content hashes keyed by file key, reused while size and mtime are unchanged
+  private hashCache: Map<string, CachedHash> = new Map();
+
+  constructor(config: LocalConfig) {
+    this.config = config;
+    this.rootDir = path.resolve(config.rootDir);
+  }
+
+  async listFiles(
+    prefix?: string,
+    startAfter?: string
+  ): Promise<FileMetadata[]> {
+    const keyPrefix = prefix ?? this.config.prefix ?? "";
+
+    try {
+      const keys = await this.walk(this.rootDir);
+      const files: FileMetadata[] = [];
+
+      for (const key of keys) {
+        if (
+          !key.startsWith(keyPrefix) ||
+          (startAfter !== undefined && key <= startAfter)
+        ) {
+          continue;
+        }
+        files.push(await this.getFileMetadata(key));
+      }
+
+      return files;
+    } catch (error) {
+      throw new Error(
+        `Failed to list files from ${this.rootDir}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  async getFileStream(
+    key: string,
+    _versionId?: string,
+    range?: ByteRange
+  ): Promise<NodeJS.ReadableStream> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) {
+        throw new Error(`Not a file: ${key}`);
+      }
+
+      return createReadStream(filePath, range);
+    } catch (error) {
+      throw new Error(
+        `Failed to get file stream from disk: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  async getFileMetadata(key: string): Promise<FileMetadata> {
+    const filePath = this.resolveKey(key);
+
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) {
+        throw new Error(`Not a file: ${key}`);
+      }
+
+      const hash = await this.getContentHash(key, filePath, stats);
+
+      return {
+        key,
+        size: stats.size,
+        lastModified: stats.mtime,
+        etag: hash,
+        checksumAlgorithm: ["SHA256"],
+        checksum: { SHA256: hash },
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to get file metadata from disk: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  async fileExists(key: string): Promise<boolean> {
+    try {
+      const stats = await stat(this.resolveKey(key));
+      return stats.isFile();
+    } catch (error) {
+      // Missing files are not an error, anything else (permissions etc.) is
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getFileSize(key: string): Promise<number> {
+    const stats = await stat(this.resolveKey(key));
+    return stats.size;
+  }
+
+  async copyFile(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata> {
+    LocalFileSystemAdapter.rejectVersionId(sourceKey, sourceVersionId);
+    const sourcePath = this.resolveKey(sourceKey);
+    const destinationPath = this.resolveKey(destinationKey);
+
+    try {
+      await mkdir(path.dirname(destinationPath), { recursive: true });
+      await copyFile(sourcePath, destinationPath);
+      return await this.getFileMetadata(destinationKey);
+    } catch (error) {
+      throw new Error(
+        `Failed to copy ${sourceKey} to ${destinationKey} on disk: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Move a file and its tags to another key
+   */
+  async moveFile(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata> {
+    LocalFileSystemAdapter.rejectVersionId(sourceKey, sourceVersionId);
+    const sourcePath = this.resolveKey(sourceKey);
+    const destinationPath = this.resolveKey(destinationKey);
+
+    try {
+      await mkdir(path.dirname(destinationPath), { recursive: true });
+      await rename(sourcePath, destinationPath);
+      await rename(
+        `${sourcePath}${TAGS_SUFFIX}`,
+        `${destinationPath}${TAGS_SUFFIX}`
+      ).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") {
+          throw error;
+        }
+      });
+      this.hashCache.delete(sourceKey);
+      return await this.getFileMetadata(destinationKey);
+    } catch (error) {
+      throw new Error(
+        `Failed to move ${sourceKey} to ${destinationKey} on disk: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Replace a file's tags, kept in a <file>.tags.json file beside it
+   */
+  async tagFile(
+    key: string,
+    tags: Record<string, string>,
+    versionId?: string
+  ): Promise<void> {
+    LocalFileSystemAdapter.rejectVersionId(key, versionId);
+    const filePath = this.resolveKey(key);
+
+    try {
+      await stat(filePath);
+      await writeFile(`${filePath}${TAGS_SUFFIX}`, JSON.stringify(tags));
+    } catch (error) {
+      throw new Error(
+        `Failed to tag ${key} on disk: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Files on disk have no versions, so an operation on one version of a file
+   * cannot be carried out
+   */
+  private static rejectVersionId(key: string, versionId?: string): void {
+    if (versionId) {
+      throw new Error(
+        `Local files are not versioned, cannot use version ${versionId} of ${key}`
+      );
+    }
+  }
+
+  /**
+   * Check that the root directory is present and readable
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const stats = await stat(this.rootDir);
+      return stats.isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Recursively list file keys below a directory, relative to the root and
+   * using forward slashes so they look the same as S3 keys
+   */
+  private async walk(dir: string): Promise<string[]> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const keys: string[] = [];
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        keys.push(...(await this.walk(fullPath)));
+      } else if (entry.isFile() && !entry.name.endsWith(TAGS_SUFFIX)) {
+        keys.push(this.toKey(fullPath));
+      }
+    }
+
+    return keys.sort();
+  }
+
+  /**
+   * Calculate the SHA-256 of the file content, reusing the cached value if the
+   * file has not changed since it was last hashed
+   */
+  private async getContentHash(
+    key: string,
+    filePath: string,
+    stats: { size: number; mtimeMs: number }
+  ): Promise<string> {
+    const cached = this.hashCache.get(key);
+    if (
+      cached &&
+      cached.size === stats.size &&
+      cached.mtimeMs === stats.mtimeMs
+    ) {
+      return cached.hash;
+    }
+
+    const hash = createHash("sha256");
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk as Buffer);
+    }
+    const digest = hash.digest("hex");
+
+    this.hashCache.set(key, {
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      hash: digest,
+    });
+
+    return digest;
+  }
+
+  private toKey(filePath: string): string {
+    return path.relative(this.rootDir, filePath).split(path.sep).join("/");
+  }
+
+  /**
+   * Resolve a key to an absolute path, refusing keys that escape the root
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    const relative = path.relative(this.rootDir, filePath);
+
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new Error(`Key is outside the root directory: ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -6,22 +6,42 @@
 import {
   S3Client,
   ListObjectsV2Command,
+  ListObjectVersionsCommand,
   HeadObjectCommand,
   GetObjectCommand,
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  PutObjectTaggingCommand,
 } from "@aws-sdk/client-s3";
-import type { FileSystemAdapter, FileMetadata } from "./file-system-adapter";
+import type {
+  ByteRange,
+  FileSystemAdapter,
+  FileMetadata,
+} from "./file-system-adapter";
 import type { S3Config } from "../types/config";
 
 export class S3FileSystemAdapter implements FileSystemAdapter {
   private s3Client: S3Client;
   private config: S3Config;
+  // List through ListObjectVersions so each file carries its version ID
+  private enableVersioning: boolean;
+  private requestCount = 0;
 
-  constructor(s3Client: S3Client, config: S3Config) {
+  constructor(s3Client: S3Client, config: S3Config, enableVersioning = false) {
     this.s3Client = s3Client;
     this.config = config;
+    this.enableVersioning = enableVersioning;
   }
 
-  async listFiles(prefix?: string): Promise<FileMetadata[]> {
+  async listFiles(
+    prefix?: string,
+    startAfter?: string
+  ): Promise<FileMetadata[]> {
+    if (this.enableVersioning) {
+      const versions = await this.listFileVersions(prefix, startAfter);
+      return versions.filter((version) => version.isLatest);
+    }
+
     const files: FileMetadata[] = [];
     let continuationToken: string | undefined;
     const maxKeys = this.config.maxKeys || 1000;
@@ -33,8 +53,10 @@ export class S3FileSystemAdapter implements FileSystemAdapter {
           Prefix: prefix || this.config.prefix,
           MaxKeys: maxKeys,
           ContinuationToken: continuationToken,
+          StartAfter: startAfter,
         });
 
+        this.requestCount++;
         const response = await this.s3Client.send(command);
 
         if (response.Contents) {
@@ -64,17 +86,81 @@ export class S3FileSystemAdapter implements FileSystemAdapter {
     }
   }
 
-  async getFileStream(key: string): Promise<NodeJS.ReadableStream> {
+  /**
+   * List every version of each file, newest first per key
+   * Keys whose latest version is a delete marker only return older versions,
+   * all flagged as not latest. startAfter starts the listing after that key
+   */
+  async listFileVersions(
+    prefix?: string,
+    startAfter?: string
+  ): Promise<FileMetadata[]> {
+    const files: FileMetadata[] = [];
+    let keyMarker: string | undefined = startAfter;
+    let versionIdMarker: string | undefined;
+    const maxKeys = this.config.maxKeys || 1000;
+
+    try {
+      do {
+        const command = new ListObjectVersionsCommand({
+          Bucket: this.config.bucket,
+          Prefix: prefix || this.config.prefix,
+          MaxKeys: maxKeys,
+          KeyMarker: keyMarker,
+          VersionIdMarker: versionIdMarker,
+        });
+
+        this.requestCount++;
+        const response = await this.s3Client.send(command);
+
+        for (const version of response.Versions ?? []) {
+          if (version.Key) {
+            files.push({
+              key: version.Key,
+              size: version.Size || 0,
+              lastModified: version.LastModified || new Date(),
+              etag: version.ETag || "",
+              versionId: S3FileSystemAdapter.toVersionId(version.VersionId),
+              isLatest: version.IsLatest ?? false,
+              checksumAlgorithm: version.ChecksumAlgorithm,
+            });
+          }
+        }
+
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        versionIdMarker = response.IsTruncated
+          ? response.NextVersionIdMarker
+          : undefined;
+      } while (keyMarker);
+
+      return files;
+    } catch (error) {
+      throw new Error(
+        `Failed to list file versions from S3: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  async getFileStream(
+    key: string,
+    versionId?: string,
+    range?: ByteRange
+  ): Promise<NodeJS.ReadableStream> {
     try {
       const command = new GetObjectCommand({
         Bucket: this.config.bucket,
         Key: key,
+        VersionId: versionId || undefined,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
       });
 
+      this.requestCount++;
       const response = await this.s3Client.send(command);
 
       if (!response.Body) {
-        throw new Error(`No body returned for key: ${key}`);
+        throw new Error(
+          `No body returned for key: ${key}${versionId ? ` (version ${versionId})` : ""}`
+        );
       }
 
       return response.Body as NodeJS.ReadableStream;
@@ -85,23 +171,37 @@ export class S3FileSystemAdapter implements FileSystemAdapter {
     }
   }
 
-  async getFileMetadata(key: string): Promise<FileMetadata> {
+  async getFileMetadata(
+    key: string,
+    versionId?: string
+  ): Promise<FileMetadata> {
     try {
       const command = new HeadObjectCommand({
         Bucket: this.config.bucket,
         Key: key,
+        VersionId: versionId || undefined,
+        ChecksumMode: "ENABLED",
       });
 
+      this.requestCount++;
       const response = await this.s3Client.send(command);
+      const checksum = Object.fromEntries(
+        Object.entries({
+          SHA256: response.ChecksumSHA256,
+          SHA1: response.ChecksumSHA1,
+          CRC32: response.ChecksumCRC32,
+          CRC32C: response.ChecksumCRC32C,
+        }).filter((entry): entry is [string, string] => !!entry[1])
+      );
 
       return {
         key,
         size: response.ContentLength || 0,
         lastModified: response.LastModified || new Date(),
         etag: response.ETag || "",
-        versionId: response.VersionId,
-        checksumAlgorithm: (response as any).ChecksumAlgorithm,
-        checksum: (response as any).Checksum,
+        versionId: S3FileSystemAdapter.toVersionId(response.VersionId),
+        checksumAlgorithm: Object.keys(checksum),
+        checksum,
       };
     } catch (error) {
       throw new Error(
@@ -127,4 +227,130 @@ export class S3FileSystemAdapter implements FileSystemAdapter {
     const metadata = await this.getFileMetadata(key);
     return metadata.size;
   }
+
+  /**
+   * Copy an object, or one version of it, within the bucket
+   * Metadata and tags are copied with it. CopyObject handles objects up to
+   * 5GB
+   */
+  async copyFile(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata> {
+    return this.copyObject(sourceKey, destinationKey, { sourceVersionId });
+  }
+
+  /**
+   * Copy an object to another key and delete the copied source
+   * The delete names the copied version, so a newer upload to the key is left
+   * in place. Unversioned objects are copied and deleted only while they keep
+   * the ETag read before the copy
+   */
+  async moveFile(
+    sourceKey: string,
+    destinationKey: string,
+    sourceVersionId?: string
+  ): Promise<FileMetadata> {
+    const source = sourceVersionId
+      ? { versionId: sourceVersionId, etag: undefined }
+      : await this.getFileMetadata(sourceKey);
+    const condition = source.versionId
+      ? { sourceVersionId: source.versionId }
+      : { sourceEtag: source.etag };
+    const copy = await this.copyObject(sourceKey, destinationKey, condition);
+
+    try {
+      this.requestCount++;
+      await this.s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: this.config.bucket,
+          Key: sourceKey,
+          VersionId: condition.sourceVersionId,
+          IfMatch: condition.sourceEtag,
+        })
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to remove ${sourceKey} from S3 after copying it: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    return copy;
+  }
+
+  async tagFile(
+    key: string,
+    tags: Record<string, string>,
+    versionId?: string
+  ): Promise<void> {
+    try {
+      this.requestCount++;
+      await this.s3Client.send(
+        new PutObjectTaggingCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          VersionId: versionId || undefined,
+          Tagging: {
+            TagSet: Object.entries(tags).map(([Key, Value]) => ({
+              Key,
+              Value,
+            })),
+          },
+        })
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to tag ${key} in S3: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Copy one version of an object, or the object while it has the given ETag
+   */
+  private async copyObject(
+    sourceKey: string,
+    destinationKey: string,
+    source: { sourceVersionId?: string; sourceEtag?: string }
+  ): Promise<FileMetadata> {
+    try {
+      const copySource = `${this.config.bucket}/${encodeURIComponent(sourceKey)}${source.sourceVersionId ? `?versionId=${encodeURIComponent(source.sourceVersionId)}` : ""}`;
+      const command = new CopyObjectCommand({
+        Bucket: this.config.bucket,
+        Key: destinationKey,
+        CopySource: copySource,
+        CopySourceIfMatch: source.sourceEtag,
+        MetadataDirective: "COPY",
+        TaggingDirective: "COPY",
+      });
+
+      this.requestCount++;
+      const response = await this.s3Client.send(command);
+
+      return await this.getFileMetadata(
+        destinationKey,
+        S3FileSystemAdapter.toVersionId(response.VersionId)
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to copy ${sourceKey} to ${destinationKey} in S3: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Number of S3 requests sent, for discovery metrics
+   */
+  getRequestCount(): number {
+    return this.requestCount;
+  }
+
+  /**
+   * Objects written before versioning was enabled report the version ID
+   * "null"; treat them as unversioned so their idempotency key is unchanged
+   */
+  private static toVersionId(versionId?: string): string | undefined {
+    return versionId && versionId !== "null" ? versionId : undefined;
+  }
 }
@@ -0,0 +1,236 @@
+/**
+ * Archive Reader
+ * Lists the extracts inside zip archives and opens compressed extracts as
+ * decompressed CSV streams, reading only the byte ranges it needs
+ */
+
+import { Readable } from "node:stream";
+import { createGunzip, createInflateRaw } from "node:zlib";
+import type {
+  ByteRange,
+  FileSystemAdapter,
+} from "./adapters/file-system-adapter";
+import type { ArchiveEntry, DiscoveredFile } from "./types/files";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const ZIP64_MARKER = 0xffffffff;
+
+// Compression methods this reader can decompress
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export class ArchiveReader {
+  constructor(private fileSystemAdapter: FileSystemAdapter) {}
+
+  /**
+   * List the entries of a zip archive from its central directory
+   * Directory entries are left out; zip64 and encrypted archives are not
+   * supported
+   */
+  async listZipEntries(
+    key: string,
+    size: number,
+    versionId?: string
+  ): Promise<ArchiveEntry[]> {
+    // The end of central directory record sits at the very end, after an
+    // optional comment of up to 64KB
+    const tailStart = Math.max(
+      0,
+      size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE
+    );
+    const tail = await this.readRange(key, versionId, {
+      start: tailStart,
+      end: size - 1,
+    });
+
+    let eocd = -1;
+    for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error(`Not a zip archive: ${key}`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || directoryOffset === ZIP64_MARKER) {
+      throw new Error(`Zip64 archives are not supported: ${key}`);
+    }
+    if (entryCount === 0) {
+      return [];
+    }
+
+    const directory = await this.readRange(key, versionId, {
+      start: directoryOffset,
+      end: directoryOffset + directorySize - 1,
+    });
+
+    const entries: ArchiveEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(`Corrupt zip central directory: ${key}`);
+      }
+
+      const flags = directory.readUInt16LE(offset + 8);
+      const method = directory.readUInt16LE(offset + 10);
+      const compressedSize = directory.readUInt32LE(offset + 20);
+      const uncompressedSize = directory.readUInt32LE(offset + 24);
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const localHeaderOffset = directory.readUInt32LE(offset + 42);
+      // Bit 11 marks UTF-8 names, older tools write code page 437
+      const name = directory.toString(
+        flags & 0x800 ? "utf8" : "latin1",
+        offset + 46,
+        offset + 46 + nameLength
+      );
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith("/")) {
+        continue;
+      }
+      if (flags & 0x1) {
+        throw new Error(`Encrypted zip entries are not supported: ${name}`);
+      }
+      if (
+        compressedSize === ZIP64_MARKER ||
+        uncompressedSize === ZIP64_MARKER ||
+        localHeaderOffset === ZIP64_MARKER
+      ) {
+        throw new Error(`Zip64 entries are not supported: ${name}`);
+      }
+
+      entries.push({
+        name,
+        method,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Read the uncompressed size from a gzip file's trailer
+   * The trailer stores the size modulo 4GB, so larger files report less
+   */
+  async getGzipUncompressedSize(
+    key: string,
+    size: number,
+    versionId?: string
+  ): Promise<number> {
+    const trailer = await this.readRange(key, versionId, {
+      start: size - 4,
+      end: size - 1,
+    });
+    return trailer.readUInt32LE(0);
+  }
+
+  /**
+   * Open a discovered file as a stream of CSV bytes, decompressing gzipped
+   * files and zip entries as they stream
+   */
+  async openFile(file: DiscoveredFile): Promise<NodeJS.ReadableStream> {
+    const versionId = file.s3VersionId || undefined;
+
+    if (file.archiveEntry) {
+      return this.openZipEntry(file.s3Key, file.archiveEntry, versionId);
+    }
+
+    const stream = await this.fileSystemAdapter.getFileStream(
+      file.s3Key,
+      versionId
+    );
+    if (file.compression === "gzip") {
+      return this.decompress(stream, createGunzip());
+    }
+
+    return stream;
+  }
+
+  /**
+   * Open one zip entry, reading only its bytes from the archive
+   */
+  async openZipEntry(
+    key: string,
+    entry: ArchiveEntry,
+    versionId?: string
+  ): Promise<NodeJS.ReadableStream> {
+    if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+      throw new Error(
+        `Unsupported zip compression method ${entry.method}: ${entry.name}`
+      );
+    }
+
+    // The local header repeats the name and may carry a different extra
+    // field, so read it to find where the data starts
+    const header = await this.readRange(key, versionId, {
+      start: entry.localHeaderOffset,
+      end: entry.localHeaderOffset + LOCAL_FILE_HEADER_SIZE - 1,
+    });
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip local header: ${entry.name} in ${key}`);
+    }
+    const dataStart =
+      entry.localHeaderOffset +
+      LOCAL_FILE_HEADER_SIZE +
+      header.readUInt16LE(26) +
+      header.readUInt16LE(28);
+
+    if (entry.compressedSize === 0) {
+      return Readable.from([]);
+    }
+
+    const stream = await this.fileSystemAdapter.getFileStream(key, versionId, {
+      start: dataStart,
+      end: dataStart + entry.compressedSize - 1,
+    });
+    if (entry.method === METHOD_DEFLATE) {
+      return this.decompress(stream, createInflateRaw());
+    }
+
+    return stream;
+  }
+
+  /**
+   * Pipe a stream through a decompressor, passing source errors on
+   */
+  private decompress(
+    stream: NodeJS.ReadableStream,
+    decompressor: NodeJS.ReadWriteStream & { destroy(error?: Error): void }
+  ): NodeJS.ReadableStream {
+    stream.on("error", (error: Error) => decompressor.destroy(error));
+    return stream.pipe(decompressor);
+  }
+
+  private async readRange(
+    key: string,
+    versionId: string | undefined,
+    range: ByteRange
+  ): Promise<Buffer> {
+    const stream = await this.fileSystemAdapter.getFileStream(
+      key,
+      versionId,
+      range
+    );
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+}
@@ -4,23 +4,115 @@
  */
 
 import type { FileDiscovery } from "./file-discovery";
-import type { BatchProcessingOptions, ProcessingPlan } from "./types/discovery";
-import type { FileBatch, DiscoveredFile } from "./types/files";
+import type {
+  BatchProcessingOptions,
+  ExtractTypeDependency,
+  PlanDurationEstimate,
+  PracticePlanSummary,
+  ProcessingPlan,
+} from "./types/discovery";
+import type {
+  FileBatch,
+  DiscoveredFile,
+  FileProcessingPriority,
+  FileProcessingReason,
+} from "./types/files";
+import type { BatchManifestConfig, ReprocessingConfig } from "./types/config";
+import {
+  DefaultManifestConfig,
+  DefaultReprocessingConfig,
+} from "./types/config";
+import { ExtractDependencyGraph } from "./extract-dependency-graph";
+import { DurationEstimator } from "./duration-estimator";
+
+// Failed and stale files go first so a bad night doesn't leave gaps behind newer deltas
+const REASON_PRIORITY: Record<FileProcessingReason, FileProcessingPriority> = {
+  failed: "high",
+  stale: "high",
+  new: "normal",
+  reprocessed: "low",
+};
+
+const PRIORITY_RANK: Record<FileProcessingPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
 
 export class BatchProcessor {
-  constructor(private fileDiscovery: FileDiscovery) {}
+  constructor(
+    private fileDiscovery: FileDiscovery,
+    private manifest: BatchManifestConfig = DefaultManifestConfig,
+    private reprocessing: ReprocessingConfig = DefaultReprocessingConfig,
+    private dependencyGraph: ExtractDependencyGraph = new ExtractDependencyGraph(),
+    private durationEstimator: DurationEstimator = new DurationEstimator()
+  ) {}
 
   async createProcessingPlan(
     options: BatchProcessingOptions
   ): Promise<ProcessingPlan> {
     try {
       // Discover files based on options
+      // Re-running a specific batch includes files that already completed
       const discoveredFiles = await this.fileDiscovery.discoverFiles({
         extractTypes: options.extractTypes,
+        includeProcessed:
+          options.includeProcessed ?? options.mode === "specific",
       });
 
+      // Report files discovery could not parse or did not expect
+      const warnings: string[] = [];
+      for (const file of this.fileDiscovery.getQuarantinedFiles()) {
+        const name = file.archiveEntryName
+          ? `${file.archiveEntryName} in ${file.s3Key}`
+          : file.s3Key;
+        warnings.push(
+          `Quarantined ${name} during discovery (${file.reason}): ${file.message}`
+        );
+      }
+
+      // Prioritise retries and quarantine files over the retry cap
+      const { plannedFiles, quarantinedFiles } =
+        this.applyRetryPolicy(discoveredFiles);
+      for (const file of quarantinedFiles) {
+        warnings.push(
+          `Quarantined ${file.s3Key} after ${file.loadHistory?.attemptCount} failed attempts: ${file.loadHistory?.lastError ?? "no error recorded"}`
+        );
+      }
+
       // Group files into batches
-      const allBatches = await this.fileDiscovery.groupByBatch(discoveredFiles);
+      const groupedBatches = await this.fileDiscovery.groupByBatch(
+        plannedFiles,
+        options.extractTypes
+      );
+
+      // Warn about incomplete batches and hold back any still within the grace period
+      const heldBatches = new Set<FileBatch>();
+      for (const batch of groupedBatches) {
+        if (batch.isComplete) {
+          continue;
+        }
+
+        const label = `Batch ${batch.batchId} for ${batch.practiceName} (${batch.practiceKey})`;
+        const missing = batch.missingExtractTypes.join(", ");
+
+        // A batch asked for by ID is never held back
+        if (
+          !options.skipValidation &&
+          options.mode !== "specific" &&
+          this.isWithinGracePeriod(batch)
+        ) {
+          heldBatches.add(batch);
+          warnings.push(
+            `${label} is incomplete, missing: ${missing}. Held back until ${this.getGracePeriodEnd(batch).toISOString()}`
+          );
+        } else {
+          warnings.push(`${label} is incomplete, missing: ${missing}`);
+        }
+      }
+      const allBatches = this.prioritiseBatches(
+        groupedBatches.filter((b) => !heldBatches.has(b))
+      );
 
       // Filter batches based on mode and options
       let selectedBatches = allBatches;
@@ -37,6 +129,16 @@ export class BatchProcessor {
             batch.dateExtracted >= options.dateRange!.from &&
             batch.dateExtracted <= options.dateRange!.to
         );
+      } else if (options.mode === "specific") {
+        if (!options.specificBatch) {
+          throw new Error("specificBatch is required in specific mode");
+        }
+        const batch = this.fileDiscovery.findBatchById(
+          allBatches,
+          options.specificBatch,
+          options.practiceKey
+        );
+        selectedBatches = batch ? [batch] : [];
       }
 
       // Calculate totals
@@ -44,19 +146,27 @@ export class BatchProcessor {
         (sum, batch) => sum + batch.totalFiles,
         0
       );
-      const totalSize = selectedBatches.reduce(
-        (sum, batch) => sum + batch.totalSize,
-        0
-      );
 
-      // Estimate processing duration (rough estimate: 1MB per second)
-      const estimatedDuration = Math.ceil(totalSize / (1024 * 1024)); // seconds
+      // Estimate processing duration from the throughput of past runs
+      const selectedFiles = selectedBatches.flatMap((batch) => batch.files);
+      const durationEstimate =
+        await this.durationEstimator.estimatePlan(selectedFiles);
+      const estimatedDuration = Math.ceil(durationEstimate.expectedSeconds); // seconds
+      const windowWarning =
+        this.durationEstimator.getLoadWindowWarning(durationEstimate);
+      if (windowWarning) {
+        warnings.push(windowWarning);
+      }
+
+      // Order the planned extract types by their dependencies
+      const stages = this.dependencyGraph.getStages(
+        selectedFiles.map((file) => file.parsed.extractType)
+      );
 
       // Create processing order (optimize based on priority extract types)
-      const processingOrder = this.createProcessingOrder(discoveredFiles);
+      const processingOrder = this.createProcessingOrder([...selectedFiles]);
 
       // Check for any warnings
-      const warnings: string[] = [];
       if (selectedBatches.length === 0) {
         warnings.push("No batches found matching the specified criteria");
       }
@@ -65,8 +175,13 @@ export class BatchProcessor {
         batches: selectedBatches,
         totalFiles,
         estimatedDuration,
-        dependencies: [], // TODO: Implement dependency tracking
+        dependencies: this.createDependencies(stages, durationEstimate),
+        durationEstimate,
+        stages,
         processingOrder,
+        practices: this.summarisePractices(selectedBatches),
+        fileCounts: this.countByReason(selectedBatches),
+        quarantinedFiles,
         warnings,
       };
     } catch (error) {
@@ -99,25 +214,194 @@ export class BatchProcessor {
     return [];
   }
 
+  /**
+   * Check whether an incomplete batch should still wait for missing files
+   */
+  private isWithinGracePeriod(batch: FileBatch): boolean {
+    return (
+      this.manifest.holdIncompleteBatches &&
+      Date.now() < this.getGracePeriodEnd(batch).getTime()
+    );
+  }
+
+  /**
+   * The grace period runs from the most recent upload in the batch
+   */
+  private getGracePeriodEnd(batch: FileBatch): Date {
+    const lastUpload = Math.max(
+      ...batch.files.map((file) => file.lastModified.getTime())
+    );
+    return new Date(lastUpload + this.manifest.gracePeriodMinutes * 60 * 1000);
+  }
+
+  /**
+   * Set each file's priority from its processing reason and leave out failed
+   * or stale files that have used up their retry attempts
+   */
+  private applyRetryPolicy(files: DiscoveredFile[]): {
+    plannedFiles: DiscoveredFile[];
+    quarantinedFiles: DiscoveredFile[];
+  } {
+    const plannedFiles: DiscoveredFile[] = [];
+    const quarantinedFiles: DiscoveredFile[] = [];
+
+    for (const file of files) {
+      const reason = file.processingReason ?? "new";
+      const prioritised: DiscoveredFile = {
+        ...file,
+        processingPriority: REASON_PRIORITY[reason],
+      };
+
+      const isRetry = reason === "failed" || reason === "stale";
+      if (
+        isRetry &&
+        (file.loadHistory?.attemptCount ?? 0) >=
+          this.reprocessing.maxRetryAttempts
+      ) {
+        quarantinedFiles.push(prioritised);
+      } else {
+        plannedFiles.push(prioritised);
+      }
+    }
+
+    return { plannedFiles, quarantinedFiles };
+  }
+
+  /**
+   * Move batches holding failed or stale files ahead of the rest, keeping
+   * date order otherwise, and order each batch's files by priority
+   * A batch moved up takes the older batches of its practice with it, so a
+   * practice's batches still load in the order they were extracted
+   */
+  private prioritiseBatches(batches: FileBatch[]): FileBatch[] {
+    const rank = (file: DiscoveredFile): number =>
+      PRIORITY_RANK[file.processingPriority ?? "normal"];
+    const batchRank = (batch: FileBatch): number =>
+      Math.min(...batch.files.map(rank));
+    const practiceRank = (batch: FileBatch): number =>
+      Math.min(
+        ...batches
+          .filter(
+            (other) =>
+              other.practiceKey === batch.practiceKey &&
+              other.dateExtracted >= batch.dateExtracted
+          )
+          .map(batchRank)
+      );
+
+    for (const batch of batches) {
+      batch.files.sort((a, b) => rank(a) - rank(b));
+    }
+
+    const ranks = new Map(batches.map((batch) => [batch, practiceRank(batch)]));
+    return [...batches].sort(
+      (a, b) =>
+        ranks.get(a)! - ranks.get(b)! ||
+        a.dateExtracted.getTime() - b.dateExtracted.getTime()
+    );
+  }
+
+  /**
+   * Describe each planned extract type's dependencies, with its stage as the
+   * priority and the expected time to load, stage and merge its files
+   */
+  private createDependencies(
+    stages: string[][],
+    durationEstimate: PlanDurationEstimate
+  ): ExtractTypeDependency[] {
+    return stages.flatMap((extractTypes, stage) =>
+      extractTypes.map((extractType) => {
+        const seconds = [...durationEstimate.files, ...durationEstimate.stages]
+          .filter((estimate) => estimate.extractType === extractType)
+          .reduce((sum, estimate) => sum + estimate.expectedSeconds, 0);
+
+        return {
+          extractType,
+          dependsOn: this.dependencyGraph.getDependencies(extractType),
+          priority: stage,
+          estimatedProcessingTime: Math.ceil(seconds / 60),
+        };
+      })
+    );
+  }
+
+  /**
+   * Count the planned files by why they are being processed
+   * Files discovered without a load history check count as new
+   */
+  private countByReason(
+    batches: FileBatch[]
+  ): Record<FileProcessingReason, number> {
+    const counts: Record<FileProcessingReason, number> = {
+      new: 0,
+      failed: 0,
+      stale: 0,
+      reprocessed: 0,
+    };
+
+    for (const file of batches.flatMap((batch) => batch.files)) {
+      counts[file.processingReason ?? "new"]++;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Summarise the selected batches per practice for reporting
+   */
+  private summarisePractices(batches: FileBatch[]): PracticePlanSummary[] {
+    const summaries = new Map<string, PracticePlanSummary>();
+
+    for (const batch of batches) {
+      let summary = summaries.get(batch.practiceKey);
+      if (!summary) {
+        summary = {
+          perOrgId: batch.perOrgId,
+          practiceId: batch.practiceId,
+          practiceKey: batch.practiceKey,
+          practiceName: batch.practiceName,
+          batchIds: [],
+          totalFiles: 0,
+          totalSize: 0,
+          extractTypes: [],
+        };
+        summaries.set(batch.practiceKey, summary);
+      }
+
+      summary.batchIds.push(batch.batchId);
+      summary.totalFiles += batch.totalFiles;
+      summary.totalSize += batch.totalSize;
+      summary.extractTypes = [
+        ...new Set([...summary.extractTypes, ...batch.extractTypes]),
+      ];
+    }
+
+    return Array.from(summaries.values());
+  }
+
   private createProcessingOrder(
     discoveredFiles: DiscoveredFile[]
   ): DiscoveredFile[] {
-    // Sort files by priority extract types first, then by date
-    const priorityOrder = ["Patients", "Appointments", "Providers"]; // Default priority
-
+    // Sort failed and stale files first, then by dependency stage, full loads
+    // before deltas, then by date
     return discoveredFiles.sort((a, b) => {
-      // First, sort by extract type priority
-      const aPriority =
-        priorityOrder.indexOf(a.parsed.extractType) !== -1
-          ? priorityOrder.indexOf(a.parsed.extractType)
-          : priorityOrder.length;
-      const bPriority =
-        priorityOrder.indexOf(b.parsed.extractType) !== -1
-          ? priorityOrder.indexOf(b.parsed.extractType)
-          : priorityOrder.length;
-
-      if (aPriority !== bPriority) {
-        return aPriority - bPriority;
+      // First, retries ahead of new files
+      const aRank = PRIORITY_RANK[a.processingPriority ?? "normal"];
+      const bRank = PRIORITY_RANK[b.processingPriority ?? "normal"];
+      if (aRank !== bRank) {
+        return aRank - bRank;
+      }
+
+      // Then so each extract type follows the ones it depends on
+      const aStage = this.dependencyGraph.getStage(a.parsed.extractType);
+      const bStage = this.dependencyGraph.getStage(b.parsed.extractType);
+      if (aStage !== bStage) {
+        return aStage - bStage;
+      }
+
+      // Then full loads ahead of deltas
+      if (a.parsed.isFullLoad !== b.parsed.isFullLoad) {
+        return a.parsed.isFullLoad ? -1 : 1;
       }
 
       // Then sort by date extracted (oldest first)
@@ -5,8 +5,11 @@
 
 export interface DiscoveryMetrics {
   filesDiscovered: number;
+  filesQuarantined: number; // Files recorded in etl.discovery_quarantine
   batchesFound: number;
-  totalSizeBytes: number;
+  filesByPractice?: Record<string, number>; // Keyed by "<PerOrgID>_<PracticeID>"
+  totalSizeBytes: number; // Bytes as stored, compressed for compressed extracts
+  totalUncompressedSizeBytes: number; // CSV bytes, using stored size where unknown
   discoveryDurationMs: number;
   errorsEncountered: number;
   s3ApiCalls: number;
@@ -24,6 +27,8 @@ export interface DiscoveryStatus {
 }
 
 export class DiscoveryMonitor {
+  private lastMetrics: DiscoveryMetrics | null = null;
+
   async getStatus(): Promise<DiscoveryStatus> {
     // TODO: Implement status retrieval
     return {
@@ -35,8 +40,10 @@ export class DiscoveryMonitor {
       errors: [],
       metrics: {
         filesDiscovered: 0,
+        filesQuarantined: 0,
         batchesFound: 0,
         totalSizeBytes: 0,
+        totalUncompressedSizeBytes: 0,
         discoveryDurationMs: 0,
         errorsEncountered: 0,
         s3ApiCalls: 0,
@@ -45,12 +52,20 @@ export class DiscoveryMonitor {
     };
   }
 
+  /**
+   * Metrics of the last completed discovery, or zeros before the first
+   */
   async getMetrics(): Promise<DiscoveryMetrics> {
-    // TODO: Implement metrics retrieval
+    if (this.lastMetrics) {
+      return this.lastMetrics;
+    }
+
     return {
       filesDiscovered: 0,
+      filesQuarantined: 0,
       batchesFound: 0,
       totalSizeBytes: 0,
+      totalUncompressedSizeBytes: 0,
       discoveryDurationMs: 0,
       errorsEncountered: 0,
       s3ApiCalls: 0,
@@ -69,7 +84,7 @@ export class DiscoveryMonitor {
   }
 
   logDiscoveryComplete(metrics: DiscoveryMetrics): void {
-    // TODO: Implement completion logging
+    this.lastMetrics = metrics;
     console.log("Discovery completed", metrics);
   }
 
@@ -0,0 +1,63 @@
+/**
+ * Discovery Quarantine
+ * Records listed files that discovery could not turn into extracts in
+ * etl.discovery_quarantine, so they can be reviewed without failing discovery
+ */
+
+import { sql } from "drizzle-orm";
+import { db } from "@/db/client";
+import { discoveryQuarantine } from "@/db/schema/etl/audit";
+import type { DiscoveryQuarantineEntry } from "./types/files";
+
+export class DiscoveryQuarantine {
+  /**
+   * Record quarantined files, keeping when each was first and last seen
+   * If the database cannot be reached the files are only logged, so discovery
+   * of the valid files still goes ahead
+   */
+  async record(
+    s3Bucket: string,
+    entries: DiscoveryQuarantineEntry[]
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    try {
+      await db
+        .insert(discoveryQuarantine)
+        .values(
+          entries.map((entry) => ({
+            s3Bucket,
+            s3Key: entry.s3Key,
+            s3VersionId: entry.s3VersionId,
+            archiveEntryName: entry.archiveEntryName ?? "",
+            reason: entry.reason,
+            errorMessage: entry.message,
+            firstSeenAt: now,
+            lastSeenAt: now,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [
+            discoveryQuarantine.s3Bucket,
+            discoveryQuarantine.s3Key,
+            discoveryQuarantine.s3VersionId,
+            discoveryQuarantine.archiveEntryName,
+          ],
+          set: {
+            reason: sql`excluded.reason`,
+            errorMessage: sql`excluded.error_message`,
+            lastSeenAt: now,
+            seenCount: sql`${discoveryQuarantine.seenCount} + 1`,
+          },
+        });
+    } catch (error) {
+      console.warn(
+        `Failed to record ${entries.length} quarantined files in discovery_quarantine:`,
+        error
+      );
+    }
+  }
+}
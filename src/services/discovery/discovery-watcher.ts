@@ -0,0 +1,200 @@
+/**
+ * Discovery Watcher
+ * Long-running watch mode: polls discovery for new batches on an interval and
+ * hands each one to the load pipeline, backing off after failures
+ */
+
+import type { ExtractType } from "@/db/schema";
+import type { S3DiscoveryService } from "./s3-discovery-service";
+import type { WatchConfig } from "./types/config";
+import { DefaultWatchConfig } from "./types/config";
+import type { ProcessingPlan } from "./types/discovery";
+import type { FileBatch } from "./types/files";
+
+// Runs one batch through raw -> staging -> core; rejects if any layer fails
+export type BatchPipeline = (
+  batch: FileBatch,
+  plan: ProcessingPlan
+) => Promise<void>;
+
+export class DiscoveryWatcher {
+  private inFlight = new Map<string, Promise<void>>(); // By practice key
+  private consecutiveFailures = 0;
+  private pipelineFailed = false;
+  private deferredBatches = 0;
+  private stopping = false;
+  private loop?: Promise<void>;
+  private wake?: () => void;
+
+  constructor(
+    private discoveryService: Pick<S3DiscoveryService, "discoverLatestFiles">,
+    private runPipeline: BatchPipeline,
+    private config: WatchConfig = DefaultWatchConfig,
+    private extractTypes?: ExtractType[],
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Poll until stopped; resolves once stopped and in-flight batches are done
+   */
+  start(): Promise<void> {
+    if (this.loop) {
+      throw new Error("Watch mode is already running");
+    }
+
+    this.stopping = false;
+    this.loop = this.run();
+    return this.loop;
+  }
+
+  /**
+   * Stop polling and wait for batches already in the pipeline to finish
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.wake?.();
+    await this.loop;
+  }
+
+  /**
+   * Discover the latest files and start new batches, up to the in-flight cap
+   * Batches of a practice run one at a time in batch order, so deltas are
+   * merged in the order they were extracted. Batches that cannot start yet
+   * wait for the next poll, which comes early once a running batch finishes
+   * @returns Number of batches started
+   */
+  async poll(): Promise<number> {
+    let plan: ProcessingPlan;
+    try {
+      plan = await this.discoveryService.discoverLatestFiles({
+        extractTypes: this.extractTypes,
+      });
+    } catch (error) {
+      this.recordFailure("Discovery failed", error);
+      return 0;
+    }
+
+    if (!this.pipelineFailed) {
+      this.consecutiveFailures = 0;
+    }
+    this.pipelineFailed = false;
+
+    let started = 0;
+    this.deferredBatches = 0;
+    for (const batch of plan.batches) {
+      if (
+        this.inFlight.has(batch.practiceKey) ||
+        this.inFlight.size >= this.config.maxInFlightBatches
+      ) {
+        this.deferredBatches++;
+        continue;
+      }
+
+      this.inFlight.set(batch.practiceKey, this.runBatch(batch, plan));
+      started++;
+    }
+
+    if (started > 0) {
+      console.log(
+        `🚚 Started ${started} batch(es), ${this.inFlight.size} in flight${this.deferredBatches > 0 ? `, ${this.deferredBatches} waiting` : ""}`
+      );
+    }
+
+    return started;
+  }
+
+  /**
+   * Wait before the next poll: the interval, or a jittered exponential
+   * backoff after failures in a row
+   */
+  getNextDelayMs(): number {
+    if (this.consecutiveFailures === 0) {
+      return this.config.intervalMinutes * 60 * 1000;
+    }
+
+    const backoffMs = Math.min(
+      this.config.maxBackoffMinutes * 60 * 1000,
+      this.config.initialBackoffSeconds *
+        1000 *
+        2 ** (this.consecutiveFailures - 1)
+    );
+    return Math.round(
+      backoffMs * (1 - this.config.jitterRatio * this.random())
+    );
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  private async run(): Promise<void> {
+    console.log(
+      `👀 Watching for new batches every ${this.config.intervalMinutes} minutes`
+    );
+
+    try {
+      while (!this.stopping) {
+        await this.poll();
+        if (this.stopping) {
+          break;
+        }
+        await this.sleep(this.getNextDelayMs());
+      }
+
+      if (this.inFlight.size > 0) {
+        console.log(
+          `⏳ Waiting for ${this.inFlight.size} batch(es) to finish before stopping`
+        );
+      }
+      await Promise.allSettled(this.inFlight.values());
+      console.log("🛑 Watch mode stopped");
+    } finally {
+      this.loop = undefined;
+    }
+  }
+
+  private async runBatch(
+    batch: FileBatch,
+    plan: ProcessingPlan
+  ): Promise<void> {
+    try {
+      await this.runPipeline(batch, plan);
+      console.log(`✅ Batch ${batch.practiceKey}/${batch.batchId} completed`);
+    } catch (error) {
+      this.pipelineFailed = true;
+      this.recordFailure(
+        `Batch ${batch.practiceKey}/${batch.batchId} failed`,
+        error
+      );
+    } finally {
+      this.inFlight.delete(batch.practiceKey);
+      // Batches left waiting by the cap can start now
+      if (this.deferredBatches > 0 && this.consecutiveFailures === 0) {
+        this.wake?.();
+      }
+    }
+  }
+
+  private recordFailure(message: string, error: unknown): void {
+    this.consecutiveFailures++;
+    console.error(
+      `❌ ${message} (${this.consecutiveFailures} failure(s) in a row):`,
+      error instanceof Error ? error.message : error
+    );
+  }
+
+  /**
+   * Sleep that stop() and finished batches can cut short
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+    }).finally(() => {
+      this.wake = undefined;
+    });
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Duration Estimator
+ * Estimates how long planned files take to load, stage and merge from the
+ * throughput of past runs, with a band from the spread of that throughput
+ */
+
+import type { ThroughputHistory } from "./throughput-history";
+import type { EstimationConfig } from "./types/config";
+import { DefaultEstimationConfig } from "./types/config";
+import type {
+  DurationEstimate,
+  FileDurationEstimate,
+  PipelineStage,
+  PlanDurationEstimate,
+  StageDurationEstimate,
+  ThroughputSample,
+} from "./types/discovery";
+import type { DiscoveredFile } from "./types/files";
+
+// Band around the default rate, used before there is any history
+const DEFAULT_BAND_FACTOR = 2;
+
+export class DurationEstimator {
+  constructor(
+    private config: EstimationConfig = DefaultEstimationConfig,
+    private history?: ThroughputHistory
+  ) {}
+
+  /**
+   * Estimate the planned files from the run history
+   */
+  async estimatePlan(files: DiscoveredFile[]): Promise<PlanDurationEstimate> {
+    const samples = this.history ? await this.history.getSamples() : [];
+    return this.estimate(files, samples);
+  }
+
+  /**
+   * Estimate each file's raw load, then the staging and core runs for each
+   * extract type from the rows the files are expected to hold
+   * Stages are summed as if they ran one after another
+   */
+  estimate(
+    files: DiscoveredFile[],
+    samples: ThroughputSample[]
+  ): PlanDurationEstimate {
+    const fileEstimates = files.map((file) => this.estimateFile(file, samples));
+
+    const stageEstimates: StageDurationEstimate[] = [];
+    const missingStages = new Set<PipelineStage>();
+    const extractTypes = [...new Set(files.map((f) => f.parsed.extractType))];
+    for (const stage of ["staging", "core"] as const) {
+      for (const extractType of extractTypes) {
+        const estimates = fileEstimates.filter(
+          (f) => f.extractType === extractType
+        );
+        const stageEstimate = this.estimateStage(
+          stage,
+          extractType,
+          estimates.every((f) => f.estimatedRows !== undefined)
+            ? estimates.reduce((sum, f) => sum + f.estimatedRows!, 0)
+            : undefined,
+          samples
+        );
+
+        if (stageEstimate) {
+          stageEstimates.push(stageEstimate);
+        } else {
+          missingStages.add(stage);
+        }
+      }
+    }
+
+    const all = [...fileEstimates, ...stageEstimates];
+    return {
+      expectedSeconds: all.reduce((sum, e) => sum + e.expectedSeconds, 0),
+      lowSeconds: all.reduce((sum, e) => sum + e.lowSeconds, 0),
+      highSeconds: all.reduce((sum, e) => sum + e.highSeconds, 0),
+      sampleCount: all.reduce((max, e) => Math.max(max, e.sampleCount), 0),
+      files: fileEstimates,
+      stages: stageEstimates,
+      missingStages: [...missingStages],
+    };
+  }
+
+  /**
+   * Warn when the slow end of the estimate runs past the load window
+   */
+  getLoadWindowWarning(estimate: PlanDurationEstimate): string | null {
+    const windowMinutes = this.config.loadWindowMinutes;
+    if (!windowMinutes || estimate.highSeconds <= windowMinutes * 60) {
+      return null;
+    }
+
+    const minutes = (seconds: number): number => Math.ceil(seconds / 60);
+    return `Plan may not finish within the ${windowMinutes}-minute load window: estimated ${minutes(estimate.lowSeconds)}-${minutes(estimate.highSeconds)} minutes, most likely ${minutes(estimate.expectedSeconds)}`;
+  }
+
+  /**
+   * Estimate a file's raw load from bytes per second, and its rows from the
+   * bytes per row of past loads
+   */
+  private estimateFile(
+    file: DiscoveredFile,
+    samples: ThroughputSample[]
+  ): FileDurationEstimate {
+    const extractType = file.parsed.extractType;
+    const bytes = file.uncompressedSize ?? file.fileSize;
+    const history = this.selectSamples(samples, "raw", extractType).filter(
+      (sample) => (sample.bytes ?? 0) > 0
+    );
+
+    const withRows = history.filter((sample) => sample.rows > 0);
+    const bytesPerRow =
+      withRows.length > 0
+        ? this.percentile(
+            withRows.map((sample) => sample.bytes! / sample.rows),
+            0.5
+          )
+        : undefined;
+
+    const estimate =
+      history.length > 0
+        ? this.band(
+            bytes,
+            history.map((sample) => sample.bytes! / (sample.durationMs / 1000))
+          )
+        : this.defaultBand(bytes / this.config.defaultBytesPerSecond);
+
+    return {
+      s3Key: file.s3Key,
+      archiveEntryName: file.archiveEntry?.name,
+      extractType,
+      estimatedRows: bytesPerRow ? Math.round(bytes / bytesPerRow) : undefined,
+      ...estimate,
+    };
+  }
+
+  /**
+   * Estimate a staging or core run from rows per second
+   * Returns null when the rows or the stage's throughput are unknown
+   */
+  private estimateStage(
+    stage: PipelineStage,
+    extractType: string,
+    rows: number | undefined,
+    samples: ThroughputSample[]
+  ): StageDurationEstimate | null {
+    const history = this.selectSamples(samples, stage, extractType).filter(
+      (sample) => sample.rows > 0
+    );
+    if (rows === undefined || history.length === 0) {
+      return null;
+    }
+
+    return {
+      stage,
+      extractType,
+      estimatedRows: rows,
+      ...this.band(
+        rows,
+        history.map((sample) => sample.rows / (sample.durationMs / 1000))
+      ),
+    };
+  }
+
+  /**
+   * Use an extract type's own runs once there are enough of them, otherwise
+   * every run of the stage
+   */
+  private selectSamples(
+    samples: ThroughputSample[],
+    stage: PipelineStage,
+    extractType: string
+  ): ThroughputSample[] {
+    const stageSamples = samples.filter(
+      (sample) => sample.stage === stage && sample.durationMs > 0
+    );
+    const ownSamples = stageSamples.filter(
+      (sample) => sample.extractType === extractType
+    );
+
+    return ownSamples.length >= this.config.minSamples
+      ? ownSamples
+      : stageSamples;
+  }
+
+  private band(amount: number, rates: number[]): DurationEstimate {
+    return {
+      expectedSeconds: amount / this.percentile(rates, 0.5),
+      lowSeconds: amount / this.percentile(rates, 0.9),
+      highSeconds: amount / this.percentile(rates, 0.1),
+      sampleCount: rates.length,
+    };
+  }
+
+  private defaultBand(expectedSeconds: number): DurationEstimate {
+    return {
+      expectedSeconds,
+      lowSeconds: expectedSeconds / DEFAULT_BAND_FACTOR,
+      highSeconds: expectedSeconds * DEFAULT_BAND_FACTOR,
+      sampleCount: 0,
+    };
+  }
+
+  /**
+   * Percentile with linear interpolation between the nearest values
+   */
+  private percentile(values: number[], fraction: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = (sorted.length - 1) * fraction;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Extract Dependency Graph
+ * Orders extract types so each is loaded after the extract types it depends
+ * on, grouping independent extract types into stages that can run in parallel
+ */
+
+import type { ExtractDependencyMap } from "./types/config";
+import { DefaultExtractDependencies } from "./types/config";
+
+export class ExtractDependencyGraph {
+  // Stage of each extract type: 0 for no dependencies, otherwise one more
+  // than the latest stage it depends on
+  private stages: Map<string, number>;
+
+  constructor(
+    private dependencies: ExtractDependencyMap = DefaultExtractDependencies
+  ) {
+    this.stages = this.computeStages();
+  }
+
+  /**
+   * Get the extract types that must be loaded before an extract type
+   */
+  getDependencies(extractType: string): string[] {
+    return this.dependencies[extractType as keyof ExtractDependencyMap] ?? [];
+  }
+
+  /**
+   * Get the stage of an extract type in the full graph
+   * Extract types missing from the graph go after every known stage
+   */
+  getStage(extractType: string): number {
+    return this.stages.get(extractType) ?? this.stages.size;
+  }
+
+  /**
+   * Group extract types into stages in dependency order
+   * Extract types within a stage do not depend on each other and can be
+   * loaded in parallel; stages left empty by the selection are dropped
+   */
+  getStages(extractTypes: string[]): string[][] {
+    const byStage = new Map<number, string[]>();
+
+    for (const extractType of new Set(extractTypes)) {
+      const stage = this.getStage(extractType);
+      byStage.set(stage, [...(byStage.get(stage) ?? []), extractType]);
+    }
+
+    return [...byStage.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, types]) => types.sort());
+  }
+
+  /**
+   * Sort extract types into a single topological order
+   */
+  sort(extractTypes: string[]): string[] {
+    return this.getStages(extractTypes).flat();
+  }
+
+  /**
+   * Work out each extract type's stage with a depth-first walk, failing on
+   * cycles and on dependencies that are not in the graph
+   */
+  private computeStages(): Map<string, number> {
+    const stages = new Map<string, number>();
+    const visiting: string[] = [];
+
+    const visit = (extractType: string): number => {
+      const known = stages.get(extractType);
+      if (known !== undefined) {
+        return known;
+      }
+
+      if (visiting.includes(extractType)) {
+        const cycle = [
+          ...visiting.slice(visiting.indexOf(extractType)),
+          extractType,
+        ];
+        throw new Error(`Circular extract dependency: ${cycle.join(" -> ")}`);
+      }
+
+      if (!(extractType in this.dependencies)) {
+        throw new Error(
+          `Unknown extract type in dependency graph: ${extractType} (required by ${visiting.at(-1)})`
+        );
+      }
+
+      visiting.push(extractType);
+      const stage =
+        Math.max(-1, ...this.getDependencies(extractType).map(visit)) + 1;
+      visiting.pop();
+
+      stages.set(extractType, stage);
+      return stage;
+    };
+
+    for (const extractType of Object.keys(this.dependencies)) {
+      visit(extractType);
+    }
+
+    return stages;
+  }
+}
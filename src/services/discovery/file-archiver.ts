@@ -0,0 +1,347 @@
+/**
+ * File Archiver
+ * Moves files out of the working prefix once etl.load_run_files shows them
+ * loaded and their staging and core runs have completed, so the working area
+ * only holds pending work. Files that used up their retry attempts move to
+ * the failed prefix
+ */
+
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { db } from "@/db/client";
+import {
+  coreMergeRuns,
+  loadRunFiles,
+  stagingRuns,
+} from "@/db/schema/etl/audit";
+import type {
+  FileMetadata,
+  FileSystemAdapter,
+} from "./adapters/file-system-adapter";
+import { PracticeRegistry } from "./practice-registry";
+import type { ArchivalConfig } from "./types/config";
+import {
+  DefaultArchivalConfig,
+  DefaultReprocessingConfig,
+} from "./types/config";
+import type {
+  ArchiveDestination,
+  ArchivedFile,
+  ArchiveResult,
+} from "./types/files";
+import { toWallClockTime } from "./zoned-time";
+
+// A load_run_files row not yet archived
+export interface LoadedFileRecord {
+  loadRunId: string;
+  s3Key: string;
+  s3VersionId: string;
+  s3Etag: string | null; // Null for files loaded before ETags were recorded
+  extractType: string;
+  perOrgId: string;
+  practiceId: string;
+  dateExtracted: string; // ISO 8601 UTC instant
+  status: string;
+  attemptCount: number;
+}
+
+// One object version to archive; zip archives have a row per extract
+export interface ArchivalCandidate {
+  s3Key: string;
+  s3VersionId: string;
+  s3Etag: string | null;
+  destination: ArchiveDestination;
+  archivedS3Key: string;
+}
+
+// Keep the IN (...) list well below the Postgres parameter limit
+const LOOKUP_CHUNK_SIZE = 1000;
+
+export class FileArchiver {
+  constructor(
+    private fileSystemAdapter: FileSystemAdapter,
+    private s3Bucket: string,
+    private config: ArchivalConfig = DefaultArchivalConfig,
+    private practiceRegistry: PracticeRegistry = new PracticeRegistry(),
+    private maxRetryAttempts: number = DefaultReprocessingConfig.maxRetryAttempts
+  ) {}
+
+  /**
+   * Archive files whose load, staging and core runs have all completed, and
+   * files that used up their retry attempts
+   * Each file is recorded as archived once moved, so running again only
+   * picks up files that are new or were not moved last time
+   */
+  async archiveLoadedFiles(): Promise<ArchiveResult> {
+    const records = await db
+      .select({
+        loadRunId: loadRunFiles.loadRunId,
+        s3Key: loadRunFiles.s3Key,
+        s3VersionId: loadRunFiles.s3VersionId,
+        s3Etag: loadRunFiles.s3Etag,
+        extractType: loadRunFiles.extractType,
+        perOrgId: loadRunFiles.perOrgId,
+        practiceId: loadRunFiles.practiceId,
+        dateExtracted: loadRunFiles.dateExtracted,
+        status: loadRunFiles.status,
+        attemptCount: loadRunFiles.attemptCount,
+      })
+      .from(loadRunFiles)
+      .where(
+        and(
+          eq(loadRunFiles.s3Bucket, this.s3Bucket),
+          isNull(loadRunFiles.archivedAt)
+        )
+      )
+      .orderBy(loadRunFiles.loadRunFileId);
+
+    const mergedRuns = await this.getMergedRuns(
+      records.filter((record) => record.status === "completed")
+    );
+    const { candidates, pending } = this.selectArchivable(records, mergedRuns);
+
+    const result: ArchiveResult = { archived: [], pending, errors: [] };
+    for (const candidate of candidates.slice(0, this.config.maxFilesPerRun)) {
+      try {
+        const archived = await this.archiveFile(candidate);
+        await this.recordArchived(archived, candidate.s3Etag);
+        result.archived.push(archived);
+      } catch (error) {
+        result.errors.push({
+          s3Key: candidate.s3Key,
+          s3VersionId: candidate.s3VersionId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+    result.pending += Math.max(
+      0,
+      candidates.length - this.config.maxFilesPerRun
+    );
+
+    return result;
+  }
+
+  /**
+   * Group rows by object version and decide where each version goes
+   * Unversioned keys are told apart by ETag, so a re-upload to a loaded key
+   * is its own version. A version is archived only when every extract read
+   * from it is done:
+   * all merged goes to processed/, and any that used up their retry
+   * attempts sends the whole object to failed/
+   * @param mergedRuns "<loadRunId>|<extractType>" of completed core merges
+   */
+  selectArchivable(
+    records: LoadedFileRecord[],
+    mergedRuns: Set<string>
+  ): { candidates: ArchivalCandidate[]; pending: number } {
+    const versions = new Map<string, LoadedFileRecord[]>();
+    for (const record of records) {
+      const key = `${record.s3Key}|${record.s3VersionId}|${record.s3Etag ?? ""}`;
+      versions.set(key, [...(versions.get(key) ?? []), record]);
+    }
+
+    const candidates: ArchivalCandidate[] = [];
+    let pending = 0;
+    for (const rows of versions.values()) {
+      const merged = rows.map(
+        (row) =>
+          row.status === "completed" &&
+          mergedRuns.has(FileArchiver.runKey(row.loadRunId, row.extractType))
+      );
+      const exhausted = rows.map(
+        (row) =>
+          row.status === "failed" && row.attemptCount >= this.maxRetryAttempts
+      );
+
+      if (!rows.every((row, i) => merged[i] || exhausted[i])) {
+        pending++;
+        continue;
+      }
+
+      const destination = exhausted.some(Boolean) ? "failed" : "processed";
+      candidates.push({
+        s3Key: rows[0].s3Key,
+        s3VersionId: rows[0].s3VersionId,
+        s3Etag: rows[0].s3Etag,
+        destination,
+        archivedS3Key: this.getArchiveKey(rows[0], destination),
+      });
+    }
+
+    return { candidates, pending };
+  }
+
+  /**
+   * Get the archive key: <processedPrefix>YYYY/MM/<filename> by the practice's
+   * local DateExtracted, or <failedPrefix><filename>
+   */
+  getArchiveKey(
+    record: LoadedFileRecord,
+    destination: ArchiveDestination
+  ): string {
+    const filename = record.s3Key.slice(record.s3Key.lastIndexOf("/") + 1);
+    if (destination === "failed") {
+      return `${this.config.failedPrefix}${filename}`;
+    }
+
+    const extracted = toWallClockTime(
+      new Date(record.dateExtracted),
+      this.practiceRegistry.getTimezone(record.perOrgId, record.practiceId)
+    );
+    const month = String(extracted.month).padStart(2, "0");
+    return `${this.config.processedPrefix}${extracted.year}/${month}/${filename}`;
+  }
+
+  /**
+   * Copy the loaded version to its archive key and tag the copy with where it
+   * came from. The working key is removed only while it still holds the
+   * loaded version, matched by version ID or, on unversioned sources, by the
+   * ETag recorded when it was loaded; a newer upload to the same key is left
+   * to be loaded
+   * Safe to repeat: a copy already at the archive key is reused
+   */
+  async archiveFile(candidate: ArchivalCandidate): Promise<ArchivedFile> {
+    const adapter = this.fileSystemAdapter;
+    if (!adapter.copyFile || !adapter.moveFile || !adapter.tagFile) {
+      throw new Error("The file source does not support archiving files");
+    }
+
+    const { s3Key, s3VersionId, archivedS3Key } = candidate;
+    const versionId = s3VersionId || undefined;
+    const current = await this.getMetadata(s3Key);
+    const isLoadedVersion =
+      current !== null &&
+      (versionId !== undefined
+        ? current.versionId === versionId
+        : candidate.s3Etag !== null && current.etag === candidate.s3Etag);
+
+    let archived: FileMetadata;
+    if (isLoadedVersion) {
+      archived = await adapter.moveFile(s3Key, archivedS3Key, versionId);
+    } else {
+      const existing = await this.getMetadata(archivedS3Key);
+      const source = versionId
+        ? await adapter.getFileMetadata(s3Key, versionId)
+        : null;
+
+      if (
+        existing &&
+        (!source ||
+          (existing.etag === source.etag && existing.size === source.size))
+      ) {
+        archived = existing;
+      } else if (source) {
+        archived = await adapter.copyFile(s3Key, archivedS3Key, versionId);
+      } else if (current) {
+        throw new Error(
+          `${s3Key} has changed since it was loaded and is not at ${archivedS3Key}`
+        );
+      } else {
+        throw new Error(
+          `${s3Key} is no longer in the working prefix or at ${archivedS3Key}`
+        );
+      }
+    }
+
+    await adapter.tagFile(
+      archivedS3Key,
+      {
+        "source-key": s3Key,
+        "source-version-id": s3VersionId,
+        "archive-destination": candidate.destination,
+      },
+      archived.versionId
+    );
+
+    return {
+      s3Key,
+      s3VersionId,
+      destination: candidate.destination,
+      archivedS3Key,
+      archivedS3VersionId: archived.versionId ?? "",
+      movedFromWorking: isLoadedVersion,
+    };
+  }
+
+  /**
+   * Completed core merges of the load runs the files were loaded in
+   */
+  private async getMergedRuns(
+    records: LoadedFileRecord[]
+  ): Promise<Set<string>> {
+    const merged = new Set<string>();
+    const loadRunIds = [...new Set(records.map((record) => record.loadRunId))];
+
+    for (let i = 0; i < loadRunIds.length; i += LOOKUP_CHUNK_SIZE) {
+      const runs = await db
+        .selectDistinct({
+          loadRunId: stagingRuns.loadRunId,
+          extractType: stagingRuns.extractType,
+        })
+        .from(stagingRuns)
+        .innerJoin(
+          coreMergeRuns,
+          eq(coreMergeRuns.stagingRunId, stagingRuns.stagingRunId)
+        )
+        .where(
+          and(
+            inArray(
+              stagingRuns.loadRunId,
+              loadRunIds.slice(i, i + LOOKUP_CHUNK_SIZE)
+            ),
+            eq(stagingRuns.status, "completed"),
+            eq(coreMergeRuns.status, "completed")
+          )
+        );
+
+      for (const run of runs) {
+        merged.add(FileArchiver.runKey(run.loadRunId, run.extractType));
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Record where every extract of the version was archived, so lineage from
+   * raw rows resolves to the archived object as well as the original version
+   */
+  private async recordArchived(
+    archived: ArchivedFile,
+    s3Etag: string | null
+  ): Promise<void> {
+    await db
+      .update(loadRunFiles)
+      .set({
+        archivedS3Key: archived.archivedS3Key,
+        archivedS3VersionId: archived.archivedS3VersionId,
+        archivedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(loadRunFiles.s3Bucket, this.s3Bucket),
+          eq(loadRunFiles.s3Key, archived.s3Key),
+          eq(loadRunFiles.s3VersionId, archived.s3VersionId),
+          s3Etag === null
+            ? isNull(loadRunFiles.s3Etag)
+            : eq(loadRunFiles.s3Etag, s3Etag),
+          isNull(loadRunFiles.archivedAt)
+        )
+      );
+  }
+
+  /**
+   * Current metadata of a key, or null when there is no such object
+   */
+  private async getMetadata(key: string): Promise<FileMetadata | null> {
+    if (!(await this.fileSystemAdapter.fileExists(key))) {
+      return null;
+    }
+    return this.fileSystemAdapter.getFileMetadata(key);
+  }
+
+  private static runKey(loadRunId: string, extractType: string): string {
+    return `${loadRunId}|${extractType}`;
+  }
+}
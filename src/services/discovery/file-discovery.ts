@@ -3,75 +3,121 @@
  * Handles S3 file listing, filtering, and batch grouping
  */
 
-import type { FileSystemAdapter } from "./adapters/file-system-adapter";
-import type { FilenameParser } from "./filename-parser";
+import type {
+  FileMetadata,
+  FileSystemAdapter,
+} from "./adapters/file-system-adapter";
+import { FilenameParser } from "./filename-parser";
 import type { DiscoveryOptions } from "./types/discovery";
-import type { DiscoveredFile, FileBatch } from "./types/files";
+import type {
+  ArchiveEntry,
+  DiscoveredFile,
+  DiscoveryQuarantineEntry,
+  FileBatch,
+  FileCompression,
+} from "./types/files";
+import type { PracticeRegistry } from "./practice-registry";
+import type { ProcessedFileChecker } from "./processed-file-checker";
+import type { FileIntegrityService } from "./file-integrity-service";
+import type { DiscoveryQuarantine } from "./discovery-quarantine";
+import { ArchiveReader } from "./archive-reader";
 import { createHash } from "node:crypto";
 
 export class FileDiscovery {
+  private archiveReader: ArchiveReader;
+  private quarantinedFiles: DiscoveryQuarantineEntry[] = [];
+  // Extract types each batch delivered in the last discoverFiles call,
+  // including files already loaded, keyed by batchKey
+  private deliveredExtractTypes = new Map<string, Set<string>>();
+
   constructor(
     private fileSystemAdapter: FileSystemAdapter,
     private filenameParser: FilenameParser,
-    private s3Bucket: string = "poutiri-datacraft-data"
-  ) {}
+    private s3Bucket: string = "poutiri-datacraft-data",
+    private practiceRegistry: PracticeRegistry = filenameParser.getPracticeRegistry(),
+    private processedFileChecker?: ProcessedFileChecker,
+    // Set when hashes are validated, to fetch checksums and flag duplicates
+    private integrityService?: FileIntegrityService,
+    // Set to record quarantined files in etl.discovery_quarantine
+    private discoveryQuarantine?: DiscoveryQuarantine,
+    // Keys under these prefixes are never discovered, e.g. archive prefixes
+    // inside a listing of the whole bucket
+    private excludedPrefixes: string[] = []
+  ) {
+    this.archiveReader = new ArchiveReader(fileSystemAdapter);
+  }
 
   /**
    * Discover files from the file system
+   * Files that cannot be parsed or are unexpected are quarantined rather than
+   * failing discovery; see getQuarantinedFiles
    * @param options - The discovery options
    * @returns The discovered files
    */
   async discoverFiles(options?: DiscoveryOptions): Promise<DiscoveredFile[]> {
     try {
       // Get all files from S3
-      const fileMetadata = await this.fileSystemAdapter.listFiles();
+      const fileMetadata = (await this.fileSystemAdapter.listFiles()).filter(
+        (file) =>
+          !this.excludedPrefixes.some((prefix) => file.key.startsWith(prefix))
+      );
 
       // Filter and parse files
       const discoveredFiles: DiscoveredFile[] = [];
+      const quarantined: DiscoveryQuarantineEntry[] = [];
 
       for (const file of fileMetadata) {
-        // Skip directories and non-CSV files
-        if (file.key.endsWith("/") || !file.key.endsWith(".csv")) {
-          continue;
-        }
+        discoveredFiles.push(
+          ...(await this.expandFile(file, quarantined, options))
+        );
+      }
 
-        // Parse filename to extract metadata
-        const parsedFilename = this.filenameParser.parseFilename(file.key);
-        if (!parsedFilename) {
-          console.warn(`Could not parse filename: ${file.key}`);
-          continue;
-        }
+      this.quarantinedFiles = quarantined;
+      if (quarantined.length > 0) {
+        console.warn(
+          `🚫 Quarantined ${quarantined.length} files discovery could not load: ${quarantined.map((f) => f.s3Key).join(", ")}`
+        );
+        await this.discoveryQuarantine?.record(this.s3Bucket, quarantined);
+      }
 
-        // Filter by extract types if specified
-        if (options?.extractTypes && options.extractTypes.length > 0) {
-          if (
-            !options.extractTypes.includes(parsedFilename.extractType as any)
-          ) {
-            continue;
-          }
+      // Completeness counts files already loaded, so extracts arriving late
+      // for a partly loaded batch are not held back
+      this.deliveredExtractTypes = new Map();
+      for (const file of discoveredFiles) {
+        const key = FileDiscovery.batchKey(file.parsed);
+        if (!this.deliveredExtractTypes.has(key)) {
+          this.deliveredExtractTypes.set(key, new Set());
         }
+        this.deliveredExtractTypes.get(key)!.add(file.parsed.extractType);
+      }
 
-        // Generate a unique hash for the file based on its metadata
-        // This provides idempotency without needing to read the entire file
-        const fileHash = this.generateFileHash(file);
-
-        // Create discovered file using the correct interface
-        const discoveredFile: DiscoveredFile = {
-          s3Key: file.key,
-          s3VersionId: file.versionId ?? "",
-          s3Bucket: this.s3Bucket,
-          fileSize: file.size,
-          lastModified: file.lastModified,
-          etag: file.etag,
-          parsed: parsedFilename,
-          checksum: file.checksum?.[0] ?? "",
-          fileHash,
-        };
-
-        discoveredFiles.push(discoveredFile);
+      // Skip deltas covered by a newer full load, checked before leaving out
+      // loaded files so full loads that were already loaded still count
+      const { files: reconciledFiles, superseded } = this.filenameParser
+        .getLoadModePolicy()
+        .reconcile(discoveredFiles);
+      if (superseded.length > 0) {
+        console.log(
+          `⏭️  Skipping ${superseded.length} deltas covered by a newer full load: ${superseded.map((f) => f.s3Key).join(", ")}`
+        );
       }
 
-      return discoveredFiles;
+      // Leave out files already loaded unless asked to include them
+      const plannedFiles = this.processedFileChecker
+        ? await this.processedFileChecker.filterAndLabel(
+            reconciledFiles,
+            options?.includeProcessed
+          )
+        : reconciledFiles;
+
+      const files = this.integrityService
+        ? await this.flagDuplicates(plannedFiles, this.integrityService)
+        : plannedFiles;
+
+      // Keep metadata fetched while flagging duplicates for the next run
+      await this.fileSystemAdapter.flush?.();
+
+      return files;
     } catch (error) {
       throw new Error(
         `Failed to discover files: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -80,47 +126,278 @@ export class FileDiscovery {
   }
 
   /**
-   * Group files by batch ID
+   * Files quarantined by the last discoverFiles call
+   */
+  getQuarantinedFiles(): DiscoveryQuarantineEntry[] {
+    return this.quarantinedFiles;
+  }
+
+  /**
+   * List every stored version of a file, newest first, so an overwritten
+   * extract can be found and replayed. Versions that were already loaded are
+   * included and labelled as reprocessed
+   */
+  async discoverFileVersions(s3Key: string): Promise<DiscoveredFile[]> {
+    if (!this.fileSystemAdapter.listFileVersions) {
+      throw new Error("The file source does not support object versions");
+    }
+
+    try {
+      const versions = await this.fileSystemAdapter.listFileVersions(s3Key);
+
+      const quarantined: DiscoveryQuarantineEntry[] = [];
+      const expanded = await Promise.all(
+        versions
+          .filter((version) => version.key === s3Key)
+          .map((version) => this.expandFile(version, quarantined))
+      );
+      for (const entry of quarantined) {
+        console.warn(
+          `Skipping version ${entry.s3VersionId} of ${s3Key}: ${entry.message}`
+        );
+      }
+      const files = expanded
+        .flat()
+        .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+
+      if (this.processedFileChecker) {
+        return await this.processedFileChecker.filterAndLabel(files, true);
+      }
+
+      return files;
+    } catch (error) {
+      throw new Error(
+        `Failed to discover versions of ${s3Key}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Attach checksums for the loader to verify against and flag files whose
+   * content matches another listed file under a different key
+   */
+  private async flagDuplicates(
+    files: DiscoveredFile[],
+    integrityService: FileIntegrityService
+  ): Promise<DiscoveredFile[]> {
+    const withChecksums = await integrityService.attachChecksums(files);
+    const duplicates = integrityService.findDuplicates(withChecksums);
+
+    for (const [key, original] of duplicates) {
+      console.warn(`⚠️  ${key} has the same content as ${original}`);
+    }
+
+    return withChecksums.map((file) =>
+      duplicates.has(file.s3Key)
+        ? { ...file, duplicateOf: duplicates.get(file.s3Key) }
+        : file
+    );
+  }
+
+  /**
+   * Turn a listed file into the extracts it holds: one for a plain or gzipped
+   * CSV, one per CSV entry for a zip archive
+   */
+  private async expandFile(
+    file: FileMetadata,
+    quarantined: DiscoveryQuarantineEntry[],
+    options?: DiscoveryOptions
+  ): Promise<DiscoveredFile[]> {
+    // Skip directories and files that are not extracts
+    const compression = FilenameParser.getCompression(file.key);
+    if (file.key.endsWith("/") || compression === null) {
+      return [];
+    }
+
+    if (compression !== "zip") {
+      const discoveredFile = this.toDiscoveredFile(
+        file,
+        compression,
+        quarantined,
+        options
+      );
+      if (!discoveredFile) {
+        return [];
+      }
+
+      if (compression === "gzip") {
+        try {
+          discoveredFile.uncompressedSize =
+            await this.archiveReader.getGzipUncompressedSize(
+              file.key,
+              file.size,
+              file.versionId
+            );
+        } catch (error) {
+          console.warn(`Could not read gzip size of ${file.key}:`, error);
+        }
+      }
+
+      return [discoveredFile];
+    }
+
+    let entries: ArchiveEntry[];
+    try {
+      entries = await this.archiveReader.listZipEntries(
+        file.key,
+        file.size,
+        file.versionId
+      );
+    } catch (error) {
+      console.warn(`Could not read zip archive ${file.key}:`, error);
+      return [];
+    }
+
+    return entries
+      .filter((entry) => FilenameParser.getCompression(entry.name) === "none")
+      .map((entry) =>
+        this.toDiscoveredFile(file, "zip", quarantined, options, entry)
+      )
+      .filter((entry): entry is DiscoveredFile => entry !== null);
+  }
+
+  /**
+   * Parse a listed file, or one entry of a zip archive, into a discovered file
+   * Returns null for files that are filtered out, or that cannot be parsed,
+   * which are added to the quarantined list
+   */
+  private toDiscoveredFile(
+    file: FileMetadata,
+    compression: FileCompression,
+    quarantined: DiscoveryQuarantineEntry[],
+    options?: DiscoveryOptions,
+    entry?: ArchiveEntry
+  ): DiscoveredFile | null {
+    // Parse filename to extract metadata
+    const result = this.filenameParser.tryParseFilename(
+      entry?.name ?? file.key
+    );
+    if (!result.ok) {
+      quarantined.push({
+        s3Key: file.key,
+        s3VersionId: file.versionId ?? "",
+        archiveEntryName: entry?.name,
+        reason: result.reason,
+        message: result.message,
+      });
+      return null;
+    }
+    const parsedFilename = result.parsed;
+
+    // Skip extract types the practice has not enabled
+    if (
+      !this.practiceRegistry.isExtractEnabled(
+        parsedFilename.perOrgId,
+        parsedFilename.practiceId,
+        parsedFilename.extractType
+      )
+    ) {
+      return null;
+    }
+
+    // Filter by extract types if specified
+    if (options?.extractTypes && options.extractTypes.length > 0) {
+      if (!options.extractTypes.includes(parsedFilename.extractType)) {
+        return null;
+      }
+    }
+
+    // Generate a unique hash for the file based on its metadata
+    // This provides idempotency without needing to read the entire file
+    const fileHash = this.generateFileHash(file, entry?.name);
+
+    return {
+      s3Key: file.key,
+      s3VersionId: file.versionId ?? "",
+      s3Bucket: this.s3Bucket,
+      fileSize: entry ? entry.compressedSize : file.size,
+      uncompressedSize: entry
+        ? entry.uncompressedSize
+        : compression === "none"
+          ? file.size
+          : undefined,
+      compression,
+      archiveEntry: entry,
+      lastModified: file.lastModified,
+      etag: file.etag,
+      parsed: parsedFilename,
+      // Object checksums cover the stored bytes, so only plain CSVs can be
+      // checked against the loaded content
+      checksum: compression === "none" ? (file.checksum?.SHA256 ?? "") : "",
+      fileHash,
+    };
+  }
+
+  /**
+   * Group files by practice and batch ID
+   * Each practice's DateExtracted drop becomes its own batch, so one run can
+   * ingest several practices' batches side by side
    * @param files - The discovered files
+   * @param requestedExtractTypes - Extract types that were requested, if filtered
    * @returns The grouped files
    */
-  async groupByBatch(files: DiscoveredFile[]): Promise<FileBatch[]> {
+  async groupByBatch(
+    files: DiscoveredFile[],
+    requestedExtractTypes?: string[]
+  ): Promise<FileBatch[]> {
     const batchMap = new Map<string, DiscoveredFile[]>();
 
-    // Group files by batch ID
+    // Group files by practice and batch ID
     for (const file of files) {
-      const batchId = file.parsed.batchId;
-      if (!batchMap.has(batchId)) {
-        batchMap.set(batchId, []);
+      const key = FileDiscovery.batchKey(file.parsed);
+      if (!batchMap.has(key)) {
+        batchMap.set(key, []);
       }
-      batchMap.get(batchId)!.push(file);
+      batchMap.get(key)!.push(file);
     }
 
     // Convert to FileBatch objects
     const batches: FileBatch[] = [];
-    for (const [batchId, batchFiles] of batchMap.entries()) {
-      const dateExtracted = batchFiles[0].parsed.dateExtracted;
+    for (const batchFiles of batchMap.values()) {
+      const { batchId, dateExtracted, perOrgId, practiceId, practiceKey } =
+        batchFiles[0].parsed;
       const extractTypes = [
         ...new Set(batchFiles.map((f) => f.parsed.extractType)),
       ];
       const totalSize = batchFiles.reduce((sum, f) => sum + f.fileSize, 0);
+      const totalUncompressedSize = batchFiles.reduce(
+        (sum, f) => sum + (f.uncompressedSize ?? f.fileSize),
+        0
+      );
 
       const batch: FileBatch = {
         dateExtracted,
         batchId,
+        perOrgId,
+        practiceId,
+        practiceKey,
+        practiceName: this.practiceRegistry.getDisplayName(
+          perOrgId,
+          practiceId
+        ),
         files: batchFiles,
         totalFiles: batchFiles.length,
         totalSize,
+        totalUncompressedSize,
         extractTypes,
-        isComplete: true, // We'll implement completeness check later
+        isComplete: true,
+        missingExtractTypes: [],
       };
 
+      batch.missingExtractTypes = this.getMissingExtractTypes(
+        batch,
+        requestedExtractTypes
+      );
+      batch.isComplete = batch.missingExtractTypes.length === 0;
+
       batches.push(batch);
     }
 
-    // Sort batches by date extracted (oldest first)
+    // Sort batches by date extracted (oldest first), then by practice
     batches.sort(
-      (a, b) => a.dateExtracted.getTime() - b.dateExtracted.getTime()
+      (a, b) =>
+        a.dateExtracted.getTime() - b.dateExtracted.getTime() ||
+        a.practiceKey.localeCompare(b.practiceKey)
     );
 
     return batches;
@@ -129,29 +406,144 @@ export class FileDiscovery {
   /**
    * Generate a unique hash for a file based on its metadata
    * This provides idempotency without reading the entire file content
+   * Zip entries add their entry name so each extract in an archive is unique
    */
-  private generateFileHash(file: any): string {
-    const hashInput = `${file.key}|${file.size}|${file.etag}|${file.lastModified?.toISOString()}`;
+  private generateFileHash(file: FileMetadata, entryName?: string): string {
+    const hashInput = `${file.key}|${file.size}|${file.etag}|${file.lastModified.toISOString()}${entryName ? `|${entryName}` : ""}`;
     return createHash("sha256").update(hashInput).digest("hex");
   }
 
-  findLatestBatch(): FileBatch | null {
-    // TODO: Implement latest batch finding
-    return null;
+  /**
+   * Find the most recent batch, optionally for one practice
+   */
+  findLatestBatch(
+    batches: FileBatch[],
+    practiceKey?: string
+  ): FileBatch | null {
+    const candidates = batches.filter(
+      (batch) => !practiceKey || batch.practiceKey === practiceKey
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    return candidates.reduce((latest, batch) =>
+      batch.dateExtracted > latest.dateExtracted ? batch : latest
+    );
   }
 
-  findBatchByDate(dateExtracted?: Date): FileBatch | null {
-    // TODO: Implement batch lookup by date
-    return dateExtracted ? null : null;
+  /**
+   * Find a batch by its batch ID (YYMMDDHHMM)
+   * Throws if several practices have a batch with the same ID and no practice
+   * was given
+   */
+  findBatchById(
+    batches: FileBatch[],
+    batchId: string,
+    practiceKey?: string
+  ): FileBatch | null {
+    return this.selectPracticeBatch(
+      batches.filter((batch) => batch.batchId === batchId),
+      `batch ${batchId}`,
+      practiceKey
+    );
   }
 
-  findFilesByExtractType(): DiscoveredFile[] {
-    // TODO: Implement extract type filtering
-    return [];
+  /**
+   * Find a batch by its DateExtracted
+   */
+  findBatchByDate(
+    batches: FileBatch[],
+    dateExtracted: Date,
+    practiceKey?: string
+  ): FileBatch | null {
+    return this.selectPracticeBatch(
+      batches.filter(
+        (batch) => batch.dateExtracted.getTime() === dateExtracted.getTime()
+      ),
+      `DateExtracted ${dateExtracted.toISOString()}`,
+      practiceKey
+    );
   }
 
-  validateBatchCompleteness(): boolean {
-    // TODO: Implement batch validation
-    return true;
+  findFilesByExtractType(
+    files: DiscoveredFile[],
+    extractType: string
+  ): DiscoveredFile[] {
+    return files.filter((file) => file.parsed.extractType === extractType);
+  }
+
+  /**
+   * Pick the batch for a practice from batches sharing the same DateExtracted
+   */
+  private selectPracticeBatch(
+    matches: FileBatch[],
+    description: string,
+    practiceKey?: string
+  ): FileBatch | null {
+    if (practiceKey) {
+      return matches.find((batch) => batch.practiceKey === practiceKey) ?? null;
+    }
+
+    if (matches.length > 1) {
+      throw new Error(
+        `Found ${description} for several practices (${matches.map((b) => b.practiceKey).join(", ")}); specify a practice`
+      );
+    }
+
+    return matches[0] ?? null;
+  }
+
+  /**
+   * Check a batch against the practice's manifest of required extract types
+   */
+  validateBatchCompleteness(
+    batch: FileBatch,
+    extractTypes?: string[]
+  ): boolean {
+    return this.getMissingExtractTypes(batch, extractTypes).length === 0;
+  }
+
+  /**
+   * List the required extract types missing from a batch
+   * Extracts the last discovery found already loaded count as delivered.
+   * When discovery was filtered to some extract types, only those are expected
+   */
+  getMissingExtractTypes(batch: FileBatch, extractTypes?: string[]): string[] {
+    // A batch of retries only holds the files being retried; the drop was
+    // checked when its files were first discovered
+    if (
+      batch.files.every((file) => (file.processingReason ?? "new") !== "new")
+    ) {
+      return [];
+    }
+
+    const required = this.practiceRegistry
+      .getRequiredExtractTypes(batch.perOrgId, batch.practiceId)
+      .filter(
+        (extractType) =>
+          !extractTypes ||
+          extractTypes.length === 0 ||
+          extractTypes.includes(extractType)
+      );
+
+    const delivered = this.deliveredExtractTypes.get(
+      FileDiscovery.batchKey(batch)
+    );
+    return required.filter(
+      (extractType) =>
+        !batch.extractTypes.includes(extractType) &&
+        !delivered?.has(extractType)
+    );
+  }
+
+  /**
+   * Key of a practice's DateExtracted drop
+   */
+  private static batchKey(batch: {
+    practiceKey: string;
+    batchId: string;
+  }): string {
+    return `${batch.practiceKey}:${batch.batchId}`;
   }
 }
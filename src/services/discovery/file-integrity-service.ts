@@ -3,7 +3,8 @@
  * Handles file hashing and integrity validation
  */
 
-import { createHash } from "node:crypto";
+import { createHash, type Hash } from "node:crypto";
+import { Transform, type TransformCallback } from "node:stream";
 import type { FileSystemAdapter } from "./adapters/file-system-adapter";
 import type { DiscoveredFile } from "./types/files";
 
@@ -17,6 +18,46 @@ export interface FileIntegrity {
   checksumAlgorithm?: string; // S3 checksum algorithm (SHA256, SHA1, etc.)
 }
 
+/**
+ * Pass-through stream that hashes content on its way to the loader, so the
+ * content hash comes from the same download that loads the file
+ */
+export class HashingStream extends Transform {
+  private hash: Hash = createHash("sha256");
+  private digest: string | null = null;
+  private bytes = 0;
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: string,
+    callback: TransformCallback
+  ): void {
+    this.hash.update(chunk);
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.digest = this.hash.digest("hex");
+    callback();
+  }
+
+  /**
+   * SHA-256 of the content (hex), or null until the stream has been read
+   * to the end
+   */
+  get contentHash(): string | null {
+    return this.digest;
+  }
+
+  /**
+   * Bytes passed through so far
+   */
+  get byteCount(): number {
+    return this.bytes;
+  }
+}
+
 export class FileIntegrityService {
   constructor(private fileSystemAdapter: FileSystemAdapter) {}
 
@@ -28,16 +69,95 @@ export class FileIntegrityService {
     return hash.digest("hex");
   }
 
+  /**
+   * Check a content hash against the file's SHA-256 checksum
+   * `fileHash` only covers listing metadata, so the checksum is the only
+   * content hash to compare with
+   */
   async validateIntegrity(
     file: DiscoveredFile,
     contentStream: NodeJS.ReadableStream
   ): Promise<boolean> {
-    if (!file.fileHash) {
-      return true; // No hash to validate against
+    const calculatedHash = await this.calculateHash(contentStream);
+    return this.verifyContentHash(calculatedHash, file.checksum) !== false;
+  }
+
+  /**
+   * Compare a hex SHA-256 content hash with a SHA-256 checksum, given as base64
+   * (S3) or hex (local files). Returns null when there is nothing to compare,
+   * including S3 composite checksums of multipart uploads ("<hash>-<parts>")
+   */
+  verifyContentHash(contentHash: string, checksum?: string): boolean | null {
+    if (!checksum || checksum.includes("-")) {
+      return null;
     }
 
-    const calculatedHash = await this.calculateHash(contentStream);
-    return calculatedHash === file.fileHash;
+    return (
+      checksum === contentHash ||
+      checksum === Buffer.from(contentHash, "hex").toString("base64")
+    );
+  }
+
+  /**
+   * Fetch SHA-256 checksums for files whose listing did not include one
+   * S3 listings never carry checksum values, so this is a HEAD per file;
+   * files whose checksum cannot be fetched are returned unchanged
+   */
+  async attachChecksums(
+    files: DiscoveredFile[],
+    concurrency: number = 10
+  ): Promise<DiscoveredFile[]> {
+    const result: DiscoveredFile[] = [];
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      const chunk = files.slice(i, i + concurrency);
+      const withChecksums = await Promise.all(
+        chunk.map(async (file) => {
+          // Checksums of compressed files cover the compressed bytes
+          if (file.checksum || (file.compression ?? "none") !== "none") {
+            return file;
+          }
+
+          try {
+            const metadata = await this.fileSystemAdapter.getFileMetadata(
+              file.s3Key,
+              file.s3VersionId || undefined
+            );
+            return { ...file, checksum: metadata.checksum?.SHA256 ?? "" };
+          } catch (error) {
+            console.warn(`Could not fetch checksum for ${file.s3Key}:`, error);
+            return file;
+          }
+        })
+      );
+      result.push(...withChecksums);
+    }
+
+    return result;
+  }
+
+  /**
+   * Find files with identical content under different keys, by checksum
+   * Returns each duplicate's key mapped to the first key with that content
+   */
+  findDuplicates(files: DiscoveredFile[]): Map<string, string> {
+    const firstByChecksum = new Map<string, string>();
+    const duplicates = new Map<string, string>();
+
+    for (const file of files) {
+      if (!file.checksum || file.checksum.includes("-")) {
+        continue;
+      }
+
+      const original = firstByChecksum.get(file.checksum);
+      if (original === undefined) {
+        firstByChecksum.set(file.checksum, file.s3Key);
+      } else if (original !== file.s3Key) {
+        duplicates.set(file.s3Key, original);
+      }
+    }
+
+    return duplicates;
   }
 
   async getFileMetadata(s3Key: string): Promise<FileIntegrity> {
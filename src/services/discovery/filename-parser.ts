@@ -4,23 +4,111 @@
  */
 
 import { extractTypes, type ExtractType } from "@/db/schema";
-import type { ParsedFilename } from "./types/files";
+import type {
+  FileCompression,
+  FilenameParseResult,
+  ParsedFilename,
+  DiscoveryQuarantineReason,
+} from "./types/files";
+import { PracticeRegistry } from "./practice-registry";
+import { LoadModePolicy } from "./load-mode-policy";
+import { DefaultTimezone } from "./types/config";
+import {
+  fromWallClockTime,
+  toWallClockTime,
+  type WallClockTime,
+} from "./zoned-time";
 
 // Re-export ParsedFilename for convenience
 export type { ParsedFilename };
 
 export class FilenameParser {
+  // Registry used when no practices are configured (Poutiri only)
+  private static defaultRegistry = new PracticeRegistry();
+  private static defaultLoadModePolicy = new LoadModePolicy();
+
+  constructor(
+    private practiceRegistry: PracticeRegistry = FilenameParser.defaultRegistry,
+    private loadModePolicy: LoadModePolicy = FilenameParser.defaultLoadModePolicy
+  ) {}
+
   /**
    * Parse filename and extract metadata
    */
   parseFilename(filename: string): ParsedFilename | null {
-    return FilenameParser.parse(filename);
+    return FilenameParser.parse(
+      filename,
+      this.practiceRegistry,
+      this.loadModePolicy
+    );
+  }
+
+  /**
+   * Get the practice registry used to validate PerOrgID/PracticeID pairs
+   */
+  getPracticeRegistry(): PracticeRegistry {
+    return this.practiceRegistry;
+  }
+
+  /**
+   * Get the policy used to tell full loads from deltas
+   */
+  getLoadModePolicy(): LoadModePolicy {
+    return this.loadModePolicy;
+  }
+
+  /**
+   * Tell how an extract is stored from its name: ".csv", ".csv.gz" or a
+   * ".zip" archive of extracts. Returns null for anything else
+   */
+  static getCompression(filename: string): FileCompression | null {
+    if (/\.csv$/i.test(filename)) {
+      return "none";
+    }
+    if (/\.csv\.gz$/i.test(filename)) {
+      return "gzip";
+    }
+    if (/\.zip$/i.test(filename)) {
+      return "zip";
+    }
+    return null;
+  }
+
+  /**
+   * Parse filename and extract metadata, or report why it cannot be loaded
+   */
+  tryParseFilename(filename: string): FilenameParseResult {
+    return FilenameParser.tryParse(
+      filename,
+      this.practiceRegistry,
+      this.loadModePolicy
+    );
   }
 
   /**
    * Static parse method for direct usage
    */
-  static parse(filename: string): ParsedFilename {
+  static parse(
+    filename: string,
+    practiceRegistry: PracticeRegistry = FilenameParser.defaultRegistry,
+    loadModePolicy: LoadModePolicy = FilenameParser.defaultLoadModePolicy
+  ): ParsedFilename {
+    const result = this.tryParse(filename, practiceRegistry, loadModePolicy);
+    if (!result.ok) {
+      throw new Error(result.message);
+    }
+    return result.parsed;
+  }
+
+  /**
+   * Parse a filename without throwing, giving the quarantine reason for
+   * names that cannot be loaded
+   */
+  static tryParse(
+    filename: string,
+    practiceRegistry: PracticeRegistry = FilenameParser.defaultRegistry,
+    loadModePolicy: LoadModePolicy = FilenameParser.defaultLoadModePolicy
+  ): FilenameParseResult {
     // Handle full S3 key path or just filename
     // Support both Windows (\) and Unix (/) path separators
     let baseFilename = filename;
@@ -32,21 +120,25 @@ export class FilenameParser {
     }
 
     if (!baseFilename) {
-      throw new Error(`Could not extract filename from: ${filename}`);
+      return this.reject(
+        "unparseable_filename",
+        `Could not extract filename from: ${filename}`
+      );
     }
 
-    // Remove .csv extension if present
-    const nameWithoutExt = baseFilename.replace(/\.csv$/i, ""); // Case insensitive
+    // Remove .csv or .csv.gz extension if present
+    const nameWithoutExt = baseFilename.replace(/\.csv(\.gz)?$/i, ""); // Case insensitive
 
-    // Expected format: 685146_535_<ExtractType>_<DateFrom>_<DateTo>_<DateExtracted>
+    // Expected format: <PerOrgID>_<PracticeID>_<ExtractType>_<DateFrom>_<DateTo>_<DateExtracted>
     // Example: 685146_535_Allergies_202508180544_202508181044_2508181044
 
-    const regex = /^(\d{6})_(\d{3})_(\w+)_(\d{12})_(\d{12})_(\d{10})$/;
+    const regex = /^(\d+)_(\d+)_(\w+)_(\d{12})_(\d{12})_(\d{10})$/;
     const match = nameWithoutExt.match(regex);
 
     if (!match) {
-      throw new Error(
-        `Invalid filename format: ${nameWithoutExt}. Expected: 685146_535_<ExtractType>_<DateFrom>_<DateTo>_<DateExtracted>`
+      return this.reject(
+        "unparseable_filename",
+        `Invalid filename format: ${nameWithoutExt}. Expected: <PerOrgID>_<PracticeID>_<ExtractType>_<DateFrom>_<DateTo>_<DateExtracted>`
       );
     }
 
@@ -60,51 +152,89 @@ export class FilenameParser {
       dateExtractedStr,
     ] = match;
 
-    // Validate known values
-    if (perOrgId !== "685146") {
-      throw new Error(`Invalid PerOrgID: ${perOrgId}. Expected: 685146`);
-    }
-
-    if (practiceId !== "535") {
-      throw new Error(`Invalid PracticeID: ${practiceId}. Expected: 535`);
+    // Validate the practice against the registry of allowed pairs
+    if (!practiceRegistry.isAllowed(perOrgId, practiceId)) {
+      return this.reject(
+        "unknown_practice",
+        `Unknown practice: PerOrgID ${perOrgId}, PracticeID ${practiceId}. Expected one of: ${practiceRegistry.describe()}`
+      );
     }
 
     if (!extractTypes[extractType as ExtractType]) {
-      throw new Error(
+      return this.reject(
+        "unknown_extract_type",
         `Invalid ExtractType: ${extractType}. Expected: ${Object.values(extractTypes).join(", ")}`
       );
     }
 
-    const dateFrom = this.parseDateString(dateFromStr);
-    const dateTo = this.parseDateString(dateToStr);
-    const dateExtracted = this.parseDateString(dateExtractedStr);
+    // Timestamps are practice local time, stored as UTC instants
+    const timezone = practiceRegistry.getTimezone(perOrgId, practiceId);
+    let dateFrom: Date;
+    let dateTo: Date;
+    let dateExtracted: Date;
+    try {
+      dateFrom = this.parseDateString(dateFromStr, timezone);
+      dateTo = this.parseDateString(dateToStr, timezone);
+      dateExtracted = this.parseDateString(dateExtractedStr, timezone);
+    } catch (error) {
+      return this.reject(
+        "invalid_timestamp",
+        error instanceof Error ? error.message : "Invalid timestamp"
+      );
+    }
 
     // Validate date logic
+    if (dateTo < dateFrom) {
+      return this.reject(
+        "invalid_date_order",
+        `DateTo (${dateTo.toISOString()}) must be >= DateFrom (${dateFrom.toISOString()})`
+      );
+    }
     if (dateExtracted < dateTo) {
-      throw new Error(
+      return this.reject(
+        "invalid_date_order",
         `DateExtracted (${dateExtracted.toISOString()}) must be >= DateTo (${dateTo.toISOString()})`
       );
     }
 
-    // Determine if this is a full load or delta based on date range
-    const isFullLoad = this.isFullLoad(dateFrom, dateTo);
+    // Determine if this is a full load or delta from the extract type's rule
+    const isFullLoad = loadModePolicy.isFullLoad(
+      extractType,
+      dateFrom,
+      dateTo,
+      timezone
+    );
     const isDelta = !isFullLoad;
 
-    const batchId = this.formatBatchId(dateExtracted);
+    // Use the filename's own digits so the batch ID never depends on how a
+    // time was resolved, e.g. one skipped by a DST change
+    const batchId = dateExtractedStr;
 
     return {
-      perOrgId,
-      practiceId,
-      extractType: extractType as ExtractType,
-      dateFrom,
-      dateTo,
-      dateExtracted,
-      isFullLoad,
-      isDelta,
-      batchId,
+      ok: true,
+      parsed: {
+        perOrgId,
+        practiceId,
+        practiceKey: PracticeRegistry.key(perOrgId, practiceId),
+        extractType: extractType as ExtractType,
+        dateFrom,
+        dateTo,
+        dateExtracted,
+        timezone,
+        isFullLoad,
+        isDelta,
+        batchId,
+      },
     };
   }
 
+  private static reject(
+    reason: DiscoveryQuarantineReason,
+    message: string
+  ): FilenameParseResult {
+    return { ok: false, reason, message };
+  }
+
   /**
    * Validate parsed filename
    */
@@ -132,9 +262,10 @@ export class FilenameParser {
   }
 
   /**
-   * Parse date string in YYYYMMDDHHMM or YYMMDDHHMM format to Date object
+   * Parse date string in YYYYMMDDHHMM or YYMMDDHHMM format, read as wall-clock
+   * time in the given timezone, to a UTC instant
    */
-  private static parseDateString(dateStr: string): Date {
+  private static parseDateString(dateStr: string, timeZone: string): Date {
     let year: number;
     let month: number;
     let day: number;
@@ -175,7 +306,27 @@ export class FilenameParser {
       throw new Error(`Invalid minute: ${minute}`);
     }
 
-    return new Date(year, month - 1, day, hour, minute); // month is 0-indexed in Date constructor
+    const time: WallClockTime = { year, month, day, hour, minute };
+    const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    if (day > days) {
+      throw new Error(`Invalid day: ${day} (${dateStr})`);
+    }
+
+    return fromWallClockTime(time, timeZone);
+  }
+
+  /**
+   * Parse a batch ID (YYMMDDHHMM) back to its DateExtracted
+   * @param timeZone - The practice's timezone (default: Pacific/Auckland)
+   */
+  static parseBatchId(
+    batchId: string,
+    timeZone: string = DefaultTimezone
+  ): Date {
+    if (!/^\d{10}$/.test(batchId)) {
+      throw new Error(`Invalid batch ID: ${batchId}. Expected YYMMDDHHMM`);
+    }
+    return this.parseDateString(batchId, timeZone);
   }
 
   /**
@@ -187,27 +338,17 @@ export class FilenameParser {
   }
 
   /**
-   * Format date as batch ID (YYMMDDHHMM)
+   * Format date as batch ID (YYMMDDHHMM) in the practice's timezone
+   * Round-trips with parseBatchId for every time that exists locally
    */
-  private static formatBatchId(date: Date): string {
-    const year = (date.getFullYear() % 100).toString().padStart(2, "0");
-    const month = (date.getMonth() + 1).toString().padStart(2, "0");
-    const day = date.getDate().toString().padStart(2, "0");
-    const hour = date.getHours().toString().padStart(2, "0");
-    const minute = date.getMinutes().toString().padStart(2, "0");
+  static formatBatchId(date: Date, timeZone: string = DefaultTimezone): string {
+    const time = toWallClockTime(date, timeZone);
+    const year = (time.year % 100).toString().padStart(2, "0");
+    const month = time.month.toString().padStart(2, "0");
+    const day = time.day.toString().padStart(2, "0");
+    const hour = time.hour.toString().padStart(2, "0");
+    const minute = time.minute.toString().padStart(2, "0");
 
     return `${year}${month}${day}${hour}${minute}`;
   }
-
-  /**
-   * Determine if this is a full load based on date range
-   */
-  private static isFullLoad(dateFrom: Date, dateTo: Date): boolean {
-    // Full loads typically have longer date ranges or specific patterns
-    const diffInHours =
-      (dateTo.getTime() - dateFrom.getTime()) / (1000 * 60 * 60);
-
-    // If the range is more than 24 hours, it's likely a full load
-    return diffInHours >= 24;
-  }
 }
@@ -9,20 +9,50 @@ export { S3DiscoveryService } from "./s3-discovery-service.js";
 export { FilenameParser } from "./filename-parser.js";
 export { FileDiscovery } from "./file-discovery.js";
 export { BatchProcessor } from "./batch-processor.js";
-export { FileIntegrityService } from "./file-integrity-service.js";
+export {
+  FileIntegrityService,
+  HashingStream,
+} from "./file-integrity-service.js";
 export { DiscoveryMonitor } from "./discovery-monitor.js";
+export { PracticeRegistry } from "./practice-registry.js";
+export { ProcessedFileChecker } from "./processed-file-checker.js";
+export { ExtractDependencyGraph } from "./extract-dependency-graph.js";
+export { LoadModePolicy } from "./load-mode-policy.js";
+export { ArchiveReader } from "./archive-reader.js";
+export { DiscoveryQuarantine } from "./discovery-quarantine.js";
+export { DurationEstimator } from "./duration-estimator.js";
+export { ThroughputHistory } from "./throughput-history.js";
+export { FileArchiver } from "./file-archiver.js";
+export { DiscoveryWatcher } from "./discovery-watcher.js";
+export type { BatchPipeline } from "./discovery-watcher.js";
 
 // Adapters
 export { S3FileSystemAdapter } from "./adapters/s3-file-system-adapter.js";
+export { LocalFileSystemAdapter } from "./adapters/local-file-system-adapter.js";
+export { CachedFileSystemAdapter } from "./adapters/cached-file-system-adapter.js";
+export type { ListingCacheStats } from "./adapters/cached-file-system-adapter.js";
 export type {
   FileSystemAdapter,
   FileMetadata,
+  ByteRange,
 } from "./adapters/file-system-adapter.js";
 
 // Types
 export type {
   S3DiscoveryConfig,
   S3Config,
+  LocalConfig,
+  PracticeConfig,
+  BatchManifestConfig,
+  ReprocessingConfig,
+  ExtractDependencyMap,
+  LoadModeRule,
+  LoadModeConfig,
+  EstimationConfig,
+  ArchivalConfig,
+  WatchConfig,
+  FileSourceType,
+  FileSourceConfig,
   DiscoveryConfig,
   ProcessingConfig,
 } from "./types/config.js";
@@ -30,12 +60,33 @@ export type {
 export type {
   DiscoveryOptions,
   ProcessingPlan,
+  PracticePlanSummary,
   BatchProcessingOptions,
   ExtractTypeDependency,
   ValidationResult,
+  PipelineStage,
+  ThroughputSample,
+  DurationEstimate,
+  FileDurationEstimate,
+  StageDurationEstimate,
+  PlanDurationEstimate,
 } from "./types/discovery.js";
 
-export type { DiscoveredFile, FileBatch } from "./types/files.js";
+export type {
+  DiscoveredFile,
+  FileBatch,
+  FileProcessingReason,
+  FileProcessingPriority,
+  FileLoadHistory,
+  FileCompression,
+  ArchiveEntry,
+  DiscoveryQuarantineReason,
+  DiscoveryQuarantineEntry,
+  FilenameParseResult,
+  ArchiveDestination,
+  ArchivedFile,
+  ArchiveResult,
+} from "./types/files.js";
 
 export type { ParsedFilename } from "./filename-parser.js";
 
@@ -45,4 +96,13 @@ export {
   DefaultS3Config as DEFAULT_S3_CONFIG,
   DefaultDiscoveryConfig as DEFAULT_DISCOVERY_CONFIG,
   DefaultProcessingConfig as DEFAULT_PROCESSING_CONFIG,
+  DefaultPractices as DEFAULT_PRACTICES,
+  DefaultTimezone as DEFAULT_TIMEZONE,
+  DefaultManifestConfig as DEFAULT_MANIFEST_CONFIG,
+  DefaultReprocessingConfig as DEFAULT_REPROCESSING_CONFIG,
+  DefaultExtractDependencies as DEFAULT_EXTRACT_DEPENDENCIES,
+  DefaultLoadModeConfig as DEFAULT_LOAD_MODE_CONFIG,
+  DefaultEstimationConfig as DEFAULT_ESTIMATION_CONFIG,
+  DefaultArchivalConfig as DEFAULT_ARCHIVAL_CONFIG,
+  DefaultWatchConfig as DEFAULT_WATCH_CONFIG,
 } from "./types/config.js";
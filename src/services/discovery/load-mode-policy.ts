@@ -0,0 +1,95 @@
+/**
+ * Load Mode Policy
+ * Decides whether a file is a full load or a delta from per-extract-type
+ * rules, and reconciles full loads with the deltas they cover
+ */
+
+import type { LoadModeConfig, LoadModeRule } from "./types/config";
+import { DefaultLoadModeConfig } from "./types/config";
+import type { DiscoveredFile } from "./types/files";
+import { toWallClockTime, wallClockMs } from "./zoned-time";
+
+export class LoadModePolicy {
+  constructor(private config: LoadModeConfig = DefaultLoadModeConfig) {}
+
+  getRule(extractType: string): LoadModeRule {
+    return (
+      this.config.rules[extractType as keyof LoadModeConfig["rules"]] ??
+      this.config.defaultRule
+    );
+  }
+
+  /**
+   * Check whether a file is a full load under its extract type's rule
+   * With a timezone, windows are measured in wall-clock hours so a day that
+   * spans a DST change still counts as 24 hours
+   */
+  isFullLoad(
+    extractType: string,
+    dateFrom: Date,
+    dateTo: Date,
+    timeZone?: string
+  ): boolean {
+    const rule = this.getRule(extractType);
+
+    switch (rule.mode) {
+      case "full":
+        return true;
+      case "delta":
+        return false;
+      case "window": {
+        const diffInMs = timeZone
+          ? wallClockMs(toWallClockTime(dateTo, timeZone)) -
+            wallClockMs(toWallClockTime(dateFrom, timeZone))
+          : dateTo.getTime() - dateFrom.getTime();
+        const diffInHours = diffInMs / (1000 * 60 * 60);
+        return diffInHours >= rule.fullLoadMinHours;
+      }
+    }
+  }
+
+  /**
+   * Split files into those to load and deltas already covered by a newer full
+   * load of the same practice and extract type. Pass every listed file,
+   * including already-loaded ones, so loaded full loads still count
+   */
+  reconcile(files: DiscoveredFile[]): {
+    files: DiscoveredFile[];
+    superseded: DiscoveredFile[];
+  } {
+    const latestFullLoads = new Map<string, DiscoveredFile>();
+    for (const file of files) {
+      if (!file.parsed.isFullLoad) {
+        continue;
+      }
+      const key = this.key(file);
+      const latest = latestFullLoads.get(key);
+      if (!latest || file.parsed.dateExtracted > latest.parsed.dateExtracted) {
+        latestFullLoads.set(key, file);
+      }
+    }
+
+    const kept: DiscoveredFile[] = [];
+    const superseded: DiscoveredFile[] = [];
+    for (const file of files) {
+      const fullLoad = latestFullLoads.get(this.key(file));
+      const isCovered =
+        file.parsed.isDelta &&
+        fullLoad !== undefined &&
+        fullLoad.parsed.dateExtracted > file.parsed.dateExtracted &&
+        fullLoad.parsed.dateTo >= file.parsed.dateTo;
+
+      if (isCovered) {
+        superseded.push(file);
+      } else {
+        kept.push(file);
+      }
+    }
+
+    return { files: kept, superseded };
+  }
+
+  private key(file: DiscoveredFile): string {
+    return `${file.parsed.practiceKey}:${file.parsed.extractType}`;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Practice Registry
+ * Holds the allowed (PerOrgID, PracticeID) pairs and their metadata
+ */
+
+import type { ExtractType } from "@/db/schema";
+import type { PracticeConfig } from "./types/config";
+import { DefaultPractices, DefaultTimezone } from "./types/config";
+import { isValidTimeZone } from "./zoned-time";
+
+export class PracticeRegistry {
+  private practices: Map<string, PracticeConfig> = new Map();
+
+  constructor(
+    practices: PracticeConfig[] = DefaultPractices,
+    private defaultRequiredExtractTypes: ExtractType[] = []
+  ) {
+    for (const practice of practices) {
+      this.register(practice);
+    }
+  }
+
+  /**
+   * Build the registry key for a practice, e.g. "685146_535"
+   */
+  static key(perOrgId: string, practiceId: string): string {
+    return `${perOrgId}_${practiceId}`;
+  }
+
+  /**
+   * Add or replace a practice in the registry
+   */
+  register(practice: PracticeConfig): void {
+    if (practice.timezone && !isValidTimeZone(practice.timezone)) {
+      throw new Error(
+        `Invalid timezone for practice ${PracticeRegistry.key(practice.perOrgId, practice.practiceId)}: ${practice.timezone}`
+      );
+    }
+
+    this.practices.set(
+      PracticeRegistry.key(practice.perOrgId, practice.practiceId),
+      practice
+    );
+  }
+
+  get(perOrgId: string, practiceId: string): PracticeConfig | undefined {
+    return this.practices.get(PracticeRegistry.key(perOrgId, practiceId));
+  }
+
+  isAllowed(perOrgId: string, practiceId: string): boolean {
+    return this.practices.has(PracticeRegistry.key(perOrgId, practiceId));
+  }
+
+  /**
+   * Check whether an extract type should be ingested for a practice
+   * Practices without an explicit list have every extract type enabled
+   */
+  isExtractEnabled(
+    perOrgId: string,
+    practiceId: string,
+    extractType: string
+  ): boolean {
+    const practice = this.get(perOrgId, practiceId);
+    if (!practice) {
+      return false;
+    }
+
+    if (!practice.enabledExtractTypes) {
+      return true;
+    }
+
+    return practice.enabledExtractTypes.includes(extractType as ExtractType);
+  }
+
+  /**
+   * Get the extract types every batch from a practice must contain
+   * Uses the practice override if set, otherwise the manifest default, and
+   * ignores extract types the practice has not enabled
+   */
+  getRequiredExtractTypes(perOrgId: string, practiceId: string): string[] {
+    const practice = this.get(perOrgId, practiceId);
+    const required =
+      practice?.requiredExtractTypes ?? this.defaultRequiredExtractTypes;
+
+    return required.filter((extractType) =>
+      this.isExtractEnabled(perOrgId, practiceId, extractType)
+    );
+  }
+
+  /**
+   * Get the display name for a practice, falling back to its registry key
+   */
+  getDisplayName(perOrgId: string, practiceId: string): string {
+    return (
+      this.get(perOrgId, practiceId)?.displayName ??
+      PracticeRegistry.key(perOrgId, practiceId)
+    );
+  }
+
+  /**
+   * Get the timezone a practice's filename timestamps are written in
+   */
+  getTimezone(perOrgId: string, practiceId: string): string {
+    return this.get(perOrgId, practiceId)?.timezone ?? DefaultTimezone;
+  }
+
+  list(): PracticeConfig[] {
+    return Array.from(this.practices.values());
+  }
+
+  /**
+   * Describe the allowed pairs for error messages, e.g. "685146/535, 685146/536"
+   */
+  describe(): string {
+    return this.list()
+      .map((p) => `${p.perOrgId}/${p.practiceId}`)
+      .join(", ");
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Processed File Checker
+ * Looks up discovered files in etl.load_run_files so discovery can leave out
+ * files that were already loaded and label the rest
+ */
+
+import { inArray } from "drizzle-orm";
+import { db } from "@/db/client";
+import { loadRunFiles } from "@/db/schema/etl/audit";
+import type {
+  DiscoveredFile,
+  FileLoadHistory,
+  FileProcessingReason,
+} from "./types/files";
+
+// Keep the IN (...) list well below the Postgres parameter limit
+const LOOKUP_CHUNK_SIZE = 1000;
+
+export class ProcessedFileChecker {
+  constructor(private staleProcessingMinutes: number = 60) {}
+
+  /**
+   * Get the last load attempt for each file, keyed by version and hash
+   * Files that have never been loaded are not included in the result
+   */
+  async getLoadHistory(
+    files: DiscoveredFile[]
+  ): Promise<Map<string, FileLoadHistory>> {
+    const history = new Map<string, FileLoadHistory>();
+    const hashes = [
+      ...new Set(
+        files.map((f) => f.fileHash).filter((h): h is string => Boolean(h))
+      ),
+    ];
+
+    for (let i = 0; i < hashes.length; i += LOOKUP_CHUNK_SIZE) {
+      const records = await db
+        .select({
+          s3VersionId: loadRunFiles.s3VersionId,
+          fileHash: loadRunFiles.fileHash,
+          status: loadRunFiles.status,
+          attemptCount: loadRunFiles.attemptCount,
+          updatedAt: loadRunFiles.updatedAt,
+          errorMessage: loadRunFiles.errorMessage,
+        })
+        .from(loadRunFiles)
+        .where(
+          inArray(loadRunFiles.fileHash, hashes.slice(i, i + LOOKUP_CHUNK_SIZE))
+        );
+
+      for (const record of records) {
+        history.set(
+          ProcessedFileChecker.key(record.s3VersionId, record.fileHash),
+          {
+            status: record.status,
+            attemptCount: record.attemptCount,
+            lastAttemptAt: record.updatedAt,
+            lastError: record.errorMessage ?? undefined,
+          }
+        );
+      }
+    }
+
+    return history;
+  }
+
+  /**
+   * Label files by their previous load attempt and drop completed files
+   * unless includeProcessed is set. Files another run is still loading are
+   * left out. If the database cannot be reached every file is treated as new
+   * and the raw loader's idempotency check still applies
+   */
+  async filterAndLabel(
+    files: DiscoveredFile[],
+    includeProcessed: boolean = false
+  ): Promise<DiscoveredFile[]> {
+    let history: Map<string, FileLoadHistory>;
+    try {
+      history = await this.getLoadHistory(files);
+    } catch (error) {
+      console.warn(
+        "Failed to check load_run_files during discovery, treating all files as new:",
+        error
+      );
+      history = new Map();
+    }
+
+    const labelled: DiscoveredFile[] = [];
+    let inProgress = 0;
+    for (const file of files) {
+      const loadHistory = history.get(
+        ProcessedFileChecker.key(file.s3VersionId, file.fileHash ?? "")
+      );
+      const reason = this.toReason(loadHistory);
+
+      if (reason === "reprocessed" && !includeProcessed) {
+        continue;
+      }
+      if (reason === null) {
+        inProgress++;
+        continue;
+      }
+
+      labelled.push({ ...file, processingReason: reason, loadHistory });
+    }
+
+    if (inProgress > 0) {
+      console.log(`⏳ Skipping ${inProgress} files still being loaded`);
+    }
+
+    return labelled;
+  }
+
+  /**
+   * Map the last load attempt to a processing reason
+   * Returns null for files that are pending or processing but not yet stale
+   */
+  private toReason(
+    loadHistory: FileLoadHistory | undefined
+  ): FileProcessingReason | null {
+    if (!loadHistory) {
+      return "new";
+    }
+
+    switch (loadHistory.status) {
+      case "completed":
+        return "reprocessed";
+      case "pending":
+      case "processing": {
+        const staleAfter =
+          loadHistory.lastAttemptAt.getTime() +
+          this.staleProcessingMinutes * 60 * 1000;
+        return Date.now() >= staleAfter ? "stale" : null;
+      }
+      default:
+        return "failed";
+    }
+  }
+
+  private static key(s3VersionId: string, fileHash: string): string {
+    return `${s3VersionId}:${fileHash}`;
+  }
+}
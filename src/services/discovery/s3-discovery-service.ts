@@ -10,21 +10,41 @@ import {
   fromInstanceMetadata,
 } from "@aws-sdk/credential-providers";
 import { S3FileSystemAdapter } from "./adapters/s3-file-system-adapter";
+import { LocalFileSystemAdapter } from "./adapters/local-file-system-adapter";
+import { CachedFileSystemAdapter } from "./adapters/cached-file-system-adapter";
+import type { FileSystemAdapter } from "./adapters/file-system-adapter";
+import type { ListingCacheStats } from "./adapters/cached-file-system-adapter";
 import { FileIntegrityService } from "./file-integrity-service";
 import { FilenameParser } from "./filename-parser";
+import { PracticeRegistry } from "./practice-registry";
+import { ProcessedFileChecker } from "./processed-file-checker";
+import { DiscoveryQuarantine } from "./discovery-quarantine";
+import { ExtractDependencyGraph } from "./extract-dependency-graph";
+import { LoadModePolicy } from "./load-mode-policy";
+import { DurationEstimator } from "./duration-estimator";
+import { ThroughputHistory } from "./throughput-history";
 import { FileDiscovery } from "./file-discovery";
 import { BatchProcessor } from "./batch-processor";
+import { FileArchiver } from "./file-archiver";
 import { DiscoveryMonitor } from "./discovery-monitor";
 import type { S3DiscoveryConfig } from "./types/config";
-import { DefaultConfig } from "./types/config";
+import {
+  DefaultArchivalConfig,
+  DefaultConfig,
+  DefaultDiscoveryConfig,
+  DefaultEstimationConfig,
+  DefaultManifestConfig,
+  DefaultReprocessingConfig,
+} from "./types/config";
 import type { ProcessingPlan } from "./types/discovery";
-import type { FileBatch } from "./types/files";
+import type { ArchiveResult, DiscoveredFile, FileBatch } from "./types/files";
 import type { ExtractType } from "@/db/schema";
 
 export class S3DiscoveryService {
   private config: S3DiscoveryConfig;
   private s3Client: S3Client;
-  private fileSystemAdapter: S3FileSystemAdapter;
+  private fileSystemAdapter: FileSystemAdapter;
+  private listingCache?: CachedFileSystemAdapter;
   private filenameParser: FilenameParser;
   private fileDiscovery: FileDiscovery;
   private batchProcessor: BatchProcessor;
@@ -41,24 +61,106 @@ export class S3DiscoveryService {
       maxAttempts: this.config.s3.retryAttempts || 3,
     });
 
-    // Initialize adapter
-    this.fileSystemAdapter = new S3FileSystemAdapter(
-      this.s3Client,
-      this.config.s3
-    );
+    // Initialize adapter for the configured file source, listing through the
+    // cache when it is enabled
+    this.fileSystemAdapter = this.createFileSystemAdapter();
+    this.listingCache = this.createListingCache();
+    const discoveryAdapter = this.listingCache ?? this.fileSystemAdapter;
 
     // Initialize core services
-    this.filenameParser = new FilenameParser();
+    const manifest = this.config.manifest ?? DefaultManifestConfig;
+    const reprocessing = this.config.reprocessing ?? DefaultReprocessingConfig;
+    const estimation = this.config.estimation ?? DefaultEstimationConfig;
+    this.filenameParser = new FilenameParser(
+      new PracticeRegistry(
+        this.config.practices,
+        manifest.requiredExtractTypes
+      ),
+      new LoadModePolicy(this.config.loadModes)
+    );
+    this.integrityService = new FileIntegrityService(discoveryAdapter);
+    // A listing of the whole bucket takes in the archive prefixes, whose
+    // files must not be discovered again
+    const archival = this.config.archival ?? DefaultArchivalConfig;
+    const excludedPrefixes =
+      archival.enabled && this.getDiscoveryPrefix() === ""
+        ? [archival.processedPrefix, archival.failedPrefix]
+        : [];
     this.fileDiscovery = new FileDiscovery(
-      this.fileSystemAdapter,
+      discoveryAdapter,
       this.filenameParser,
-      this.config.s3.bucket
+      this.config.s3.bucket,
+      this.filenameParser.getPracticeRegistry(),
+      new ProcessedFileChecker(reprocessing.staleProcessingMinutes),
+      this.config.discovery.validateHashes ? this.integrityService : undefined,
+      new DiscoveryQuarantine(),
+      excludedPrefixes
+    );
+    this.batchProcessor = new BatchProcessor(
+      this.fileDiscovery,
+      manifest,
+      reprocessing,
+      new ExtractDependencyGraph(this.config.extractDependencies),
+      new DurationEstimator(
+        estimation,
+        new ThroughputHistory(estimation.historyDays)
+      )
     );
-    this.batchProcessor = new BatchProcessor(this.fileDiscovery);
-    this.integrityService = new FileIntegrityService(this.fileSystemAdapter);
     this.monitor = new DiscoveryMonitor();
   }
 
+  /**
+   * Prefix discovery lists, or "" for the whole bucket or root directory
+   */
+  private getDiscoveryPrefix(): string {
+    return (
+      (this.config.source === "local"
+        ? this.config.local?.prefix
+        : this.config.s3.prefix) ?? ""
+    );
+  }
+
+  /**
+   * Create the file system adapter for the configured source (S3 by default)
+   */
+  private createFileSystemAdapter(): FileSystemAdapter {
+    if (this.config.source === "local") {
+      if (!this.config.local) {
+        throw new Error(
+          "Local configuration is required when discovery source is 'local'"
+        );
+      }
+      return new LocalFileSystemAdapter(this.config.local);
+    }
+
+    return new S3FileSystemAdapter(
+      this.s3Client,
+      this.config.s3,
+      this.config.discovery.enableVersioning
+    );
+  }
+
+  /**
+   * Wrap the file source in a listing cache when metadata caching is on
+   */
+  private createListingCache(): CachedFileSystemAdapter | undefined {
+    const { cacheMetadata, cacheTtlMinutes, cachePath } = this.config.discovery;
+    if (!cacheMetadata) {
+      return undefined;
+    }
+
+    const source =
+      this.config.source === "local"
+        ? `file://${this.config.local?.rootDir}`
+        : `s3://${this.config.s3.bucket}`;
+    return new CachedFileSystemAdapter(
+      this.fileSystemAdapter,
+      cachePath ?? DefaultDiscoveryConfig.cachePath!,
+      source,
+      cacheTtlMinutes
+    );
+  }
+
   /**
    * Determine the appropriate credential provider based on environment
    */
@@ -88,37 +190,49 @@ export class S3DiscoveryService {
   async discoverLatestFiles(options?: {
     extractTypes?: ExtractType[];
     maxBatches?: number;
+    includeProcessed?: boolean; // Include files already completed in load_run_files
   }): Promise<ProcessingPlan> {
     const startTime = Date.now();
+    const requestsBefore = this.fileSystemAdapter.getRequestCount?.() ?? 0;
+    const cacheBefore = this.listingCache?.getCacheStats();
     this.monitor.logDiscoveryStart(options);
 
     try {
       const files = await this.fileDiscovery.discoverFiles(options);
       if (files.length === 0) {
-        throw new Error(
-          "No files found in the discovery service for the given extract types",
-          {
-            cause: options?.extractTypes,
-          }
+        // Nothing left to load is a normal outcome once files have been processed
+        console.log(
+          `📭 No unprocessed files found for extract types: ${options?.extractTypes?.join(", ") ?? "all"}`
         );
       }
 
-      const batches = await this.fileDiscovery.groupByBatch(files);
+      const batches = await this.fileDiscovery.groupByBatch(
+        files,
+        options?.extractTypes
+      );
       const processingPlan = await this.batchProcessor.createProcessingPlan({
         mode: "latest",
         extractTypes: options?.extractTypes,
         maxBatches: options?.maxBatches,
+        includeProcessed: options?.includeProcessed,
       });
 
       const duration = Date.now() - startTime;
       this.monitor.logDiscoveryComplete({
         filesDiscovered: files.length,
+        filesQuarantined: this.fileDiscovery.getQuarantinedFiles().length,
         batchesFound: batches.length,
+        filesByPractice: this.countFilesByPractice(files),
         totalSizeBytes: files.reduce((sum, f) => sum + f.fileSize, 0),
+        totalUncompressedSizeBytes: files.reduce(
+          (sum, f) => sum + (f.uncompressedSize ?? f.fileSize),
+          0
+        ),
         discoveryDurationMs: duration,
         errorsEncountered: 0,
-        s3ApiCalls: 1, // TODO: Track actual API calls
-        cacheHitRate: 0, // TODO: Implement caching metrics
+        s3ApiCalls:
+          (this.fileSystemAdapter.getRequestCount?.() ?? 0) - requestsBefore,
+        cacheHitRate: this.getCacheHitRate(cacheBefore),
       });
 
       return processingPlan;
@@ -134,6 +248,35 @@ export class S3DiscoveryService {
     }
   }
 
+  /**
+   * Share of listed objects and metadata served from the listing cache since
+   * the given stats were taken
+   */
+  private getCacheHitRate(before?: ListingCacheStats): number {
+    const after = this.listingCache?.getCacheStats();
+    if (!before || !after) {
+      return 0;
+    }
+
+    const hits = after.hits - before.hits;
+    const lookups = hits + after.misses - before.misses;
+    return lookups > 0 ? hits / lookups : 0;
+  }
+
+  /**
+   * Count discovered files per practice key for discovery metrics
+   */
+  private countFilesByPractice(
+    files: DiscoveredFile[]
+  ): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const file of files) {
+      counts[file.parsed.practiceKey] =
+        (counts[file.parsed.practiceKey] ?? 0) + 1;
+    }
+    return counts;
+  }
+
   /**
    * Discover files within a specific date range
    */
@@ -145,32 +288,120 @@ export class S3DiscoveryService {
   }
 
   /**
-   * Discover a specific batch by date extracted
+   * Discover a specific batch by its batch ID (YYMMDDHHMM)
+   * Includes files that were already loaded so the batch is returned whole
    */
-  async discoverSpecificBatch(batchId: string): Promise<FileBatch | null> {
-    return this.fileDiscovery.findBatchByDate(this.parseBatchIdToDate());
+  async discoverSpecificBatch(
+    batchId: string,
+    practiceKey?: string
+  ): Promise<FileBatch | null> {
+    FilenameParser.parseBatchId(batchId); // Fail fast on a malformed batch ID
+
+    const files = await this.fileDiscovery.discoverFiles({
+      includeProcessed: true,
+    });
+    const batches = await this.fileDiscovery.groupByBatch(files);
+    return this.fileDiscovery.findBatchById(batches, batchId, practiceKey);
   }
 
   /**
-   * Get current discovery status and health information
+   * Create a processing plan to re-run one batch, e.g. after a practice
+   * reports a bad drop
    */
-  async getDiscoveryStatus() {
-    return this.monitor.getStatus();
+  async discoverSpecificBatchPlan(
+    batchId: string,
+    practiceKey?: string
+  ): Promise<ProcessingPlan> {
+    FilenameParser.parseBatchId(batchId); // Fail fast on a malformed batch ID
+
+    return this.batchProcessor.createProcessingPlan({
+      mode: "specific",
+      specificBatch: batchId,
+      practiceKey,
+    });
+  }
+
+  /**
+   * List every version of an extract, newest first, e.g. to find the copy a
+   * practice overwrote
+   */
+  async discoverFileVersions(s3Key: string): Promise<DiscoveredFile[]> {
+    return this.fileDiscovery.discoverFileVersions(s3Key);
+  }
+
+  /**
+   * Get one version of an extract so it can be replayed through the raw
+   * loader, which streams that exact version
+   */
+  async discoverFileVersion(
+    s3Key: string,
+    versionId: string
+  ): Promise<DiscoveredFile> {
+    const versions = await this.fileDiscovery.discoverFileVersions(s3Key);
+    const version = versions.find((file) => file.s3VersionId === versionId);
+
+    if (!version) {
+      throw new Error(`Version ${versionId} of ${s3Key} not found`);
+    }
+
+    return version;
+  }
+
+  /**
+   * Move files that have been loaded through raw, staging and core out of
+   * the working prefix, and files that used up their retry attempts to the
+   * failed prefix
+   */
+  async archiveLoadedFiles(): Promise<ArchiveResult> {
+    const archival = this.config.archival ?? DefaultArchivalConfig;
+    if (!archival.enabled) {
+      return { archived: [], pending: 0, errors: [] };
+    }
+
+    // Archive prefixes inside the listed prefix would be discovered again.
+    // An empty prefix lists the whole bucket, and discovery skips the archive
+    // prefixes instead
+    const prefix = this.getDiscoveryPrefix();
+    for (const archivePrefix of [
+      archival.processedPrefix,
+      archival.failedPrefix,
+    ]) {
+      if (prefix !== "" && archivePrefix.startsWith(prefix)) {
+        throw new Error(
+          `Archive prefix "${archivePrefix}" is inside the discovery prefix "${prefix}", so archived files would be discovered again`
+        );
+      }
+    }
+
+    const archiver = new FileArchiver(
+      this.listingCache ?? this.fileSystemAdapter,
+      this.config.s3.bucket,
+      archival,
+      this.filenameParser.getPracticeRegistry(),
+      (this.config.reprocessing ?? DefaultReprocessingConfig).maxRetryAttempts
+    );
+    const result = await archiver.archiveLoadedFiles();
+    await this.listingCache?.flush();
+
+    return result;
   }
 
   /**
-   * Parse batch ID back to Date object
+   * Get current discovery status and health information
    */
-  private parseBatchIdToDate(): Date {
-    // Assuming batchId format is YYMMDDHHMM
-    // This should be implemented based on your specific format
-    return new Date(); // Placeholder
+  async getDiscoveryStatus() {
+    return this.monitor.getStatus();
   }
 
   /**
    * Validate service connectivity and configuration
    */
   async healthCheck(): Promise<boolean> {
+    // Local sources only need the root folder to be readable
+    if (this.fileSystemAdapter instanceof LocalFileSystemAdapter) {
+      return this.fileSystemAdapter.healthCheck();
+    }
+
     try {
       // Test basic S3 connectivity
       await this.s3Client.send(
@@ -0,0 +1,143 @@
+/**
+ * Throughput History
+ * Reads how long past raw loads, staging runs and core merges took from the
+ * ETL audit tables, for duration estimates
+ */
+
+import { and, desc, eq, gte, isNotNull } from "drizzle-orm";
+import { db } from "@/db/client";
+import {
+  coreMergeRuns,
+  loadRunFiles,
+  stagingRuns,
+} from "@/db/schema/etl/audit";
+import type { ThroughputSample } from "./types/discovery";
+
+// Most recent runs read per stage, plenty for stable percentiles
+const MAX_SAMPLES_PER_STAGE = 5000;
+
+export class ThroughputHistory {
+  constructor(private historyDays: number = 30) {}
+
+  /**
+   * Get the throughput of completed runs within the history window
+   * If the database cannot be reached there is no history and estimates use
+   * the default rate
+   */
+  async getSamples(): Promise<ThroughputSample[]> {
+    const since = new Date(Date.now() - this.historyDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const [raw, staging, core] = await Promise.all([
+        this.getRawSamples(since),
+        this.getStagingSamples(since),
+        this.getCoreSamples(since),
+      ]);
+      return [...raw, ...staging, ...core];
+    } catch (error) {
+      console.warn(
+        "Failed to read run history for duration estimates, using default rates:",
+        error
+      );
+      return [];
+    }
+  }
+
+  private async getRawSamples(since: Date): Promise<ThroughputSample[]> {
+    const records = await db
+      .select({
+        extractType: loadRunFiles.extractType,
+        rowsRead: loadRunFiles.rowsRead,
+        bytesRead: loadRunFiles.bytesRead,
+        startedAt: loadRunFiles.startedAt,
+        finishedAt: loadRunFiles.finishedAt,
+      })
+      .from(loadRunFiles)
+      .where(
+        and(
+          eq(loadRunFiles.status, "completed"),
+          isNotNull(loadRunFiles.bytesRead),
+          gte(loadRunFiles.finishedAt, since)
+        )
+      )
+      .orderBy(desc(loadRunFiles.finishedAt))
+      .limit(MAX_SAMPLES_PER_STAGE);
+
+    return records.map((record) => ({
+      stage: "raw" as const,
+      extractType: record.extractType,
+      rows: record.rowsRead ?? 0,
+      bytes: record.bytesRead ?? 0,
+      durationMs: this.durationMs(record.startedAt, record.finishedAt),
+    }));
+  }
+
+  private async getStagingSamples(since: Date): Promise<ThroughputSample[]> {
+    const records = await db
+      .select({
+        extractType: stagingRuns.extractType,
+        totalRowsRead: stagingRuns.totalRowsRead,
+        durationMs: stagingRuns.durationMs,
+        startedAt: stagingRuns.startedAt,
+        completedAt: stagingRuns.completedAt,
+      })
+      .from(stagingRuns)
+      .where(
+        and(
+          eq(stagingRuns.status, "completed"),
+          gte(stagingRuns.completedAt, since)
+        )
+      )
+      .orderBy(desc(stagingRuns.completedAt))
+      .limit(MAX_SAMPLES_PER_STAGE);
+
+    return records.map((record) => ({
+      stage: "staging" as const,
+      extractType: record.extractType,
+      rows: record.totalRowsRead ?? 0,
+      durationMs:
+        record.durationMs ??
+        this.durationMs(record.startedAt, record.completedAt),
+    }));
+  }
+
+  /**
+   * Core merges are measured by the staged rows they read, so the same row
+   * estimate drives the staging and core stages
+   */
+  private async getCoreSamples(since: Date): Promise<ThroughputSample[]> {
+    const records = await db
+      .select({
+        extractType: coreMergeRuns.extractType,
+        totalRowsTransformed: stagingRuns.totalRowsTransformed,
+        startedAt: coreMergeRuns.startedAt,
+        completedAt: coreMergeRuns.completedAt,
+      })
+      .from(coreMergeRuns)
+      .innerJoin(
+        stagingRuns,
+        eq(coreMergeRuns.stagingRunId, stagingRuns.stagingRunId)
+      )
+      .where(
+        and(
+          eq(coreMergeRuns.status, "completed"),
+          gte(coreMergeRuns.completedAt, since)
+        )
+      )
+      .orderBy(desc(coreMergeRuns.completedAt))
+      .limit(MAX_SAMPLES_PER_STAGE);
+
+    return records.map((record) => ({
+      stage: "core" as const,
+      extractType: record.extractType,
+      rows: record.totalRowsTransformed ?? 0,
+      durationMs: this.durationMs(record.startedAt, record.completedAt),
+    }));
+  }
+
+  private durationMs(startedAt: Date | null, finishedAt: Date | null): number {
+    return startedAt && finishedAt
+      ? finishedAt.getTime() - startedAt.getTime()
+      : 0;
+  }
+}
@@ -15,13 +15,82 @@ export interface S3Config {
   timeoutMs?: number; // Request timeout in milliseconds (default: 30000)
 }
 
+export interface LocalConfig {
+  rootDir: string; // Folder holding Indici extracts, e.g. an on-prem drop folder
+  prefix?: string; // Optional key prefix (relative to rootDir) for file filtering
+}
+
+// Where extract files are read from
+export type FileSourceType = "s3" | "local";
+
+export type FileSourceConfig =
+  | { type: "s3"; s3: S3Config }
+  | { type: "local"; local: LocalConfig };
+
+export interface PracticeConfig {
+  perOrgId: string; // Indici PerOrgID, e.g. "685146" (EBPHA)
+  practiceId: string; // Indici PracticeID, e.g. "535"
+  displayName?: string; // Human readable practice name for reporting
+  timezone?: string; // IANA timezone of the filename timestamps (default: "Pacific/Auckland")
+  enabledExtractTypes?: ExtractType[]; // Extract types to ingest (default: all)
+  requiredExtractTypes?: ExtractType[]; // Overrides the manifest for this practice
+}
+
+export interface BatchManifestConfig {
+  requiredExtractTypes: ExtractType[]; // Extract types every DateExtracted batch must contain
+  holdIncompleteBatches: boolean; // Hold incomplete batches back until the grace period has passed
+  gracePeriodMinutes: number; // Wait after the newest upload in a batch before releasing it incomplete
+}
+
+export interface ReprocessingConfig {
+  maxRetryAttempts: number; // Load attempts before a failing file is quarantined
+  staleProcessingMinutes: number; // A file still 'processing' after this is treated as stale
+}
+
+// How to tell a full load from a delta for an extract type
+export type LoadModeRule =
+  | { mode: "full" } // Every file is a full snapshot
+  | { mode: "delta" } // Every file is a delta
+  | { mode: "window"; fullLoadMinHours: number }; // Full when DateFrom..DateTo spans at least this many hours
+
+export interface LoadModeConfig {
+  defaultRule: LoadModeRule; // Used for extract types without their own rule
+  rules: Partial<Record<ExtractType, LoadModeRule>>;
+}
+
+// Extract types that must be loaded before each extract type
+export type ExtractDependencyMap = Record<ExtractType, ExtractType[]>;
+
+export interface EstimationConfig {
+  historyDays: number; // Past runs to learn throughput from
+  minSamples: number; // Runs needed before an extract type uses its own throughput rather than its stage's
+  defaultBytesPerSecond: number; // Raw load throughput when there is no history
+  loadWindowMinutes?: number; // Warn when a plan may not finish within this window, e.g. overnight
+}
+
+export interface ArchivalConfig {
+  enabled: boolean; // Move files out of the working prefix once they are loaded
+  processedPrefix: string; // Files loaded through raw, staging and core go under <processedPrefix>YYYY/MM/
+  failedPrefix: string; // Files that used up their retry attempts
+  maxFilesPerRun: number; // Files archived per call, to bound each run
+}
+
+export interface WatchConfig {
+  intervalMinutes: number; // Time between discovery polls
+  maxInFlightBatches: number; // Batches running through the pipeline at once, one per practice
+  initialBackoffSeconds: number; // Wait after the first failure, doubled for each failure in a row
+  maxBackoffMinutes: number; // Longest wait after failures
+  jitterRatio: number; // Share of the backoff taken off at random, 0-1, so retries spread out
+}
+
 export interface DiscoveryConfig {
   batchSize: number; // Number of files to process in each batch
   maxFilesPerBatch: number; // Maximum files per batch to prevent memory issues
   enableVersioning: boolean; // Whether to track S3 versioning
   validateHashes: boolean; // Whether to validate file integrity hashes
-  cacheMetadata: boolean; // Whether to cache file metadata
-  cacheTtlMinutes: number; // Time-to-live for cached metadata
+  cacheMetadata: boolean; // Whether to cache file listings and metadata between runs
+  cacheTtlMinutes: number; // Age after which the whole prefix is listed again
+  cachePath?: string; // Listing cache file (default: ".cache/discovery-listing.json")
 }
 
 export interface ProcessingConfig {
@@ -31,7 +100,17 @@ export interface ProcessingConfig {
 }
 
 export interface S3DiscoveryConfig {
+  source?: FileSourceType; // Defaults to "s3"
   s3: S3Config;
+  local?: LocalConfig; // Required when source is "local"
+  practices?: PracticeConfig[]; // Allowed (PerOrgID, PracticeID) pairs
+  manifest?: BatchManifestConfig; // Expected extract types per batch
+  reprocessing?: ReprocessingConfig; // Retry policy for failed and stale files
+  extractDependencies?: ExtractDependencyMap; // Load order between extract types
+  loadModes?: LoadModeConfig; // Full load versus delta rules per extract type
+  estimation?: EstimationConfig; // Duration estimates from past run throughput
+  archival?: ArchivalConfig; // Moving loaded files out of the working prefix
+  watch?: WatchConfig; // Polling for new batches in watch mode
   discovery: DiscoveryConfig;
   processing: ProcessingConfig;
 }
@@ -50,6 +129,83 @@ export const DefaultS3Config: S3Config = {
   timeoutMs: 30000,
 };
 
+// Indici writes filename timestamps in New Zealand local time
+export const DefaultTimezone = "Pacific/Auckland";
+
+export const DefaultPractices: PracticeConfig[] = [
+  {
+    perOrgId: "685146",
+    practiceId: "535",
+    displayName: "Poutiri",
+    timezone: "Pacific/Auckland",
+  },
+];
+
+// No extract types are required until a manifest is configured, so every
+// batch counts as complete by default
+export const DefaultManifestConfig: BatchManifestConfig = {
+  requiredExtractTypes: [],
+  holdIncompleteBatches: true,
+  gracePeriodMinutes: 120,
+};
+
+export const DefaultReprocessingConfig: ReprocessingConfig = {
+  maxRetryAttempts: 3,
+  staleProcessingMinutes: 60,
+};
+
+export const DefaultLoadModeConfig: LoadModeConfig = {
+  defaultRule: { mode: "window", fullLoadMinHours: 24 },
+  rules: {},
+};
+
+// PracticeInfo -> Provider -> Patient -> Appointments/Immunisation/Invoices -> InvoiceDetail
+// Vaccine and Medicine are practice reference data used by patient records
+export const DefaultExtractDependencies: ExtractDependencyMap = {
+  PracticeInfo: [],
+  Provider: ["PracticeInfo"],
+  Vaccine: ["PracticeInfo"],
+  Medicine: ["PracticeInfo"],
+  Patient: ["Provider"],
+  Appointments: ["Patient", "Provider"],
+  Immunisation: ["Patient", "Vaccine"],
+  Invoices: ["Patient"],
+  InvoiceDetail: ["Invoices"],
+  Measurements: ["Patient"],
+  Diagnosis: ["Patient"],
+  Recalls: ["Patient"],
+  Inbox: ["Patient"],
+  InboxDetail: ["Inbox"],
+  NextOfKin: ["Patient"],
+  Allergies: ["Patient"],
+  PatientAlerts: ["Patient"],
+  AppointmentMedications: ["Appointments", "Medicine"],
+};
+
+export const DefaultEstimationConfig: EstimationConfig = {
+  historyDays: 30,
+  minSamples: 3,
+  defaultBytesPerSecond: 1024 * 1024, // 1MB per second
+  loadWindowMinutes: 480, // 10pm to 6am
+};
+
+// Siblings of the working prefix, so archived files are not discovered again
+export const DefaultArchivalConfig: ArchivalConfig = {
+  enabled: true,
+  processedPrefix: "C:/Jobs/indici_export/ebpha_poutiri/processed/",
+  failedPrefix: "C:/Jobs/indici_export/ebpha_poutiri/failed/",
+  maxFilesPerRun: 500,
+};
+
+// Deliveries are weekly for now, so an hourly poll picks them up well in time
+export const DefaultWatchConfig: WatchConfig = {
+  intervalMinutes: 60,
+  maxInFlightBatches: 2,
+  initialBackoffSeconds: 30,
+  maxBackoffMinutes: 30,
+  jitterRatio: 0.5,
+};
+
 export const DefaultDiscoveryConfig: DiscoveryConfig = {
   batchSize: 1000,
   maxFilesPerBatch: 100,
@@ -57,6 +213,7 @@ export const DefaultDiscoveryConfig: DiscoveryConfig = {
   validateHashes: true,
   cacheMetadata: true,
   cacheTtlMinutes: 60,
+  cachePath: ".cache/discovery-listing.json",
 };
 
 export const DefaultProcessingConfig: ProcessingConfig = {
@@ -67,7 +224,16 @@ export const DefaultProcessingConfig: ProcessingConfig = {
 };
 
 export const DefaultConfig: S3DiscoveryConfig = {
+  source: "s3",
   s3: DefaultS3Config,
+  practices: DefaultPractices,
+  manifest: DefaultManifestConfig,
+  reprocessing: DefaultReprocessingConfig,
+  extractDependencies: DefaultExtractDependencies,
+  loadModes: DefaultLoadModeConfig,
+  estimation: DefaultEstimationConfig,
+  archival: DefaultArchivalConfig,
+  watch: DefaultWatchConfig,
   discovery: DefaultDiscoveryConfig,
   processing: DefaultProcessingConfig,
 };
@@ -2,7 +2,7 @@
  * Discovery-related types
  */
 
-import type { FileBatch, DiscoveredFile } from "./files";
+import type { FileBatch, DiscoveredFile, FileProcessingReason } from "./files";
 
 export interface DiscoveryOptions {
   extractTypes?: string[]; // Filter by specific extract types
@@ -17,27 +17,83 @@ export interface ProcessingPlan {
   totalFiles: number;
   estimatedDuration: number;
   dependencies: ExtractTypeDependency[];
+  durationEstimate: PlanDurationEstimate; // Per-file and per-stage estimates from past runs
+  stages: string[][]; // Extract types in dependency order; each stage can load in parallel
   processingOrder: DiscoveredFile[];
+  practices: PracticePlanSummary[]; // Per-practice breakdown of the plan
+  fileCounts: Record<FileProcessingReason, number>; // Planned files by processing reason
+  quarantinedFiles: DiscoveredFile[]; // Files over the retry cap, left out of the plan
   warnings: string[]; // Non-critical issues found
 }
 
+export interface PracticePlanSummary {
+  perOrgId: string;
+  practiceId: string;
+  practiceKey: string;
+  practiceName: string;
+  batchIds: string[];
+  totalFiles: number;
+  totalSize: number;
+  extractTypes: string[];
+}
+
 export interface BatchProcessingOptions {
   mode: "latest" | "backfill" | "specific";
   extractTypes?: string[];
   dateRange?: { from: Date; to: Date };
-  specificBatch?: string;
+  specificBatch?: string; // Batch ID (YYMMDDHHMM) for "specific" mode
+  practiceKey?: string; // Practice of the specific batch, e.g. "685146_535"
   priorityOrder?: string[];
   skipValidation?: boolean; // For performance in large backfills
   maxBatches?: number; // Limit number of batches returned
+  includeProcessed?: boolean; // Reprocess files already completed in load_run_files
 }
 
 export interface ExtractTypeDependency {
   extractType: string;
   dependsOn: string[];
-  priority: number;
+  priority: number; // Dependency stage, 0 loads first
   estimatedProcessingTime: number; // Minutes
 }
 
+// Pipeline stage a file goes through after discovery
+export type PipelineStage = "raw" | "staging" | "core";
+
+// Throughput of one past run, from the ETL audit tables
+export interface ThroughputSample {
+  stage: PipelineStage;
+  extractType: string;
+  rows: number;
+  bytes?: number; // CSV bytes, raw loads only
+  durationMs: number;
+}
+
+export interface DurationEstimate {
+  expectedSeconds: number; // At the median throughput
+  lowSeconds: number; // At the 90th percentile throughput
+  highSeconds: number; // At the 10th percentile throughput
+  sampleCount: number; // Past runs the estimate is based on, 0 for the default rate
+}
+
+export interface FileDurationEstimate extends DurationEstimate {
+  s3Key: string;
+  archiveEntryName?: string;
+  extractType: string;
+  estimatedRows?: number; // From the bytes per row of past raw loads
+}
+
+export interface StageDurationEstimate extends DurationEstimate {
+  stage: PipelineStage;
+  extractType: string;
+  estimatedRows?: number;
+}
+
+export interface PlanDurationEstimate extends DurationEstimate {
+  files: FileDurationEstimate[]; // Raw loads
+  stages: StageDurationEstimate[]; // One per pipeline stage and extract type
+  missingStages: PipelineStage[]; // Stages with no history for some extract type, left out of the totals
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
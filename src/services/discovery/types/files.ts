@@ -5,33 +5,114 @@
 export interface ParsedFilename {
   perOrgId: string; // "685146" - EBPHA PerOrgID
   practiceId: string; // "535" - Indici PracticeID
+  practiceKey: string; // "685146_535" - Registry key used to group by practice
   extractType: string; // "Appointments", "Patients", etc.
-  dateFrom: Date; // 2025-08-18 05:44
+  dateFrom: Date; // 2025-08-18 05:44 practice local time, as a UTC instant
   dateTo: Date; // 2025-08-19 05:44
   dateExtracted: Date; // 2025-08-19 08:50
+  timezone: string; // IANA timezone the filename timestamps were read in
   isFullLoad: boolean; // Determined by filename pattern
   isDelta: boolean; // Determined by filename pattern
   batchId: string; // Formatted dateExtracted for batch grouping
 }
 
+// Why a listed file was quarantined instead of being loaded
+export type DiscoveryQuarantineReason =
+  | "unparseable_filename"
+  | "unknown_practice"
+  | "unknown_extract_type"
+  | "invalid_timestamp"
+  | "invalid_date_order";
+
+export type FilenameParseResult =
+  | { ok: true; parsed: ParsedFilename }
+  | { ok: false; reason: DiscoveryQuarantineReason; message: string };
+
+// A listed file, or zip entry, discovery could not turn into an extract
+export interface DiscoveryQuarantineEntry {
+  s3Key: string;
+  s3VersionId: string;
+  archiveEntryName?: string; // Set for entries of a zip archive
+  reason: DiscoveryQuarantineReason;
+  message: string;
+}
+
+// Where a loaded file was archived to
+export type ArchiveDestination = "processed" | "failed";
+
+export interface ArchivedFile {
+  s3Key: string;
+  s3VersionId: string;
+  destination: ArchiveDestination;
+  archivedS3Key: string;
+  archivedS3VersionId: string;
+  movedFromWorking: boolean; // False when a newer version of the key was left in place
+}
+
+export interface ArchiveResult {
+  archived: ArchivedFile[];
+  pending: number; // Files still being loaded, staged or merged
+  errors: { s3Key: string; s3VersionId: string; error: string }[];
+}
+
+// How an extract is stored: a plain CSV, a gzipped CSV (.csv.gz) or a CSV
+// inside a zip archive holding one or more extracts
+export type FileCompression = "none" | "gzip" | "zip";
+
+// A CSV inside a zip archive, from the archive's central directory
+export interface ArchiveEntry {
+  name: string; // Entry name, e.g. "685146_535_Patient_..._2508190850.csv"
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number; // Where the entry's local header starts
+}
+
+// Why a file is in a processing plan, based on etl.load_run_files
+// "stale" files were left pending or processing by an interrupted run
+export type FileProcessingReason = "new" | "failed" | "stale" | "reprocessed";
+
+// Failed and stale files are loaded ahead of new files
+export type FileProcessingPriority = "high" | "normal" | "low";
+
+export interface FileLoadHistory {
+  status: string; // Last load_run_files status
+  attemptCount: number; // Load attempts so far
+  lastAttemptAt: Date; // When the load_run_files record was last updated
+  lastError?: string;
+}
+
 export interface DiscoveredFile {
   s3Key: string;
   s3VersionId: string;
   s3Bucket: string;
-  fileSize: number;
+  fileSize: number; // Bytes as stored (compressed size for compressed extracts)
+  uncompressedSize?: number; // CSV bytes, when known before loading
+  compression?: FileCompression; // Defaults to "none"
+  archiveEntry?: ArchiveEntry; // Set for extracts inside a zip archive
   lastModified: Date;
   etag: string;
   parsed: ParsedFilename;
   fileHash?: string; // Calculated later for integrity checks
-  checksum?: string; // S3 checksum for quick comparison
+  checksum?: string; // SHA-256 checksum of the content (base64 from S3, hex for local files)
+  duplicateOf?: string; // Key of another listed file with identical content
+  processingReason?: FileProcessingReason; // Set when discovery checked load history
+  processingPriority?: FileProcessingPriority; // Set by the batch processor
+  loadHistory?: FileLoadHistory; // Previous load attempt, if any
 }
 
 export interface FileBatch {
   dateExtracted: Date;
-  batchId: string; // Formatted dateExtracted for unique identification
+  batchId: string; // Formatted dateExtracted, unique within a practice
+  perOrgId: string;
+  practiceId: string;
+  practiceKey: string; // "685146_535" - Practice the batch belongs to
+  practiceName: string; // Display name from the practice registry
   files: DiscoveredFile[];
   totalFiles: number;
-  totalSize: number;
+  totalSize: number; // Bytes as stored
+  totalUncompressedSize: number; // CSV bytes, using stored size where unknown
   extractTypes: string[];
   isComplete: boolean; // Whether all expected files are present
+  missingExtractTypes: string[]; // Required extract types not found in the batch
 }
@@ -0,0 +1,115 @@
+/**
+ * Zoned Time
+ * Converts between wall-clock times in an IANA timezone and UTC instants,
+ * independent of the host's timezone
+ */
+
+export interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Intl formatters are expensive to create, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check that a timezone name is known to the runtime
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock time of an instant in a timezone
+ */
+export const toWallClockTime = (
+  instant: Date,
+  timeZone: string
+): WallClockTime => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+};
+
+/**
+ * Milliseconds of a wall-clock time as if it were UTC, used to compare
+ * wall-clock times without DST shifts
+ */
+export const wallClockMs = (time: WallClockTime): number =>
+  Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+const getOffsetMs = (instantMs: number, timeZone: string): number => {
+  const wholeMinute = instantMs - (instantMs % 60000);
+  return (
+    wallClockMs(toWallClockTime(new Date(wholeMinute), timeZone)) - wholeMinute
+  );
+};
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ * Times repeated when clocks go back resolve to the earlier instant; times
+ * skipped when clocks go forward are moved forward by the gap
+ */
+export const fromWallClockTime = (
+  time: WallClockTime,
+  timeZone: string
+): Date => {
+  const localMs = wallClockMs(time);
+
+  // Offsets either side of any transition near this time
+  const offsetBefore = getOffsetMs(localMs - ONE_DAY_MS, timeZone);
+  const offsetAfter = getOffsetMs(localMs + ONE_DAY_MS, timeZone);
+
+  const candidates = [localMs - offsetBefore, localMs - offsetAfter].filter(
+    (instantMs) => instantMs + getOffsetMs(instantMs, timeZone) === localMs
+  );
+
+  if (candidates.length === 0) {
+    // Skipped time: the offset before the transition lands after the gap
+    return new Date(localMs - offsetBefore);
+  }
+
+  return new Date(Math.min(...candidates));
+};
@@ -0,0 +1,133 @@
+/**
+ * Batch Loader COPY path - Unit Tests
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { PoolClient } from "pg";
+import { BatchLoader } from "../../shared/batch-loader";
+import { CopyFromStdin } from "../../shared/copy-from-stdin";
+import type { DatabasePool } from "../../shared/database-pool";
+import type { ErrorHandler } from "../error-handler";
+import type { InsertBatch, LoadError } from "../../shared/types";
+
+const batch = (values: (string | null)[][]): InsertBatch => ({
+  tableName: "raw.patients",
+  columns: ["load_run_file_id", "patient_id", "first_name"],
+  values: values.map((row) => [7, ...row]),
+  rowCount: values.length,
+  batchNumber: 1,
+});
+
+/**
+ * Pool whose client plays the COPY protocol back to the submittable and
+ * fails any COPY or INSERT holding a value containing "\u0000"
+ */
+const createPool = (): {
+  pool: DatabasePool;
+  copied: string[];
+  inserted: unknown[][];
+} => {
+  const copied: string[] = [];
+  const inserted: unknown[][] = [];
+
+  const client = {
+    query: (query: string | CopyFromStdin, params?: unknown[]): unknown => {
+      if (query instanceof CopyFromStdin) {
+        const chunks: Buffer[] = [];
+        const connection = {
+          query: vi.fn(),
+          sendCopyFromChunk: (chunk: Buffer): number => chunks.push(chunk),
+          endCopyFrom: vi.fn(),
+        };
+        query.submit(connection as never);
+        query.handleCopyInResponse(connection as never);
+
+        const data = Buffer.concat(chunks).toString("utf8");
+        if (data.includes("\u0000")) {
+          query.handleError(new Error("invalid byte sequence"));
+        } else {
+          copied.push(data);
+          const rows = data
+            .split("\n")
+            .filter((line) => line.startsWith('"7",')).length;
+          query.handleCommandComplete({ text: `COPY ${rows}` });
+          query.handleReadyForQuery();
+        }
+        return query;
+      }
+
+      const values = params ?? [];
+      if (values.some((value) => String(value).includes("\u0000"))) {
+        return Promise.reject(new Error("invalid byte sequence"));
+      }
+      const rows = values.length / 3;
+      for (let i = 0; i < rows; i++) {
+        inserted.push(values.slice(i * 3, i * 3 + 3));
+      }
+      return Promise.resolve({ rowCount: rows });
+    },
+  } as unknown as PoolClient;
+
+  const pool = {
+    transaction: <T>(callback: (c: PoolClient) => Promise<T>): Promise<T> =>
+      callback(client),
+  } as unknown as DatabasePool;
+
+  return { pool, copied, inserted };
+};
+
+const errorHandler = {
+  handleError: (error: Error, context: Record<string, unknown>) =>
+    Promise.resolve({ message: error.message, context } as LoadError),
+} as unknown as ErrorHandler;
+
+describe("BatchLoader.executeCopy", () => {
+  it("should copy rows as quoted CSV", async () => {
+    const { pool, copied } = createPool();
+    const loader = new BatchLoader(pool, errorHandler);
+
+    const result = await loader.executeCopy(
+      batch([
+        ["1", 'Mere "Molly"'],
+        ["2", "Line\nbreak, comma"],
+        ["3", ""],
+        ["4", null],
+      ])
+    );
+
+    expect(result).toMatchObject({ success: true, rowsInserted: 4 });
+    expect(copied).toEqual([
+      '"7","1","Mere ""Molly"""\n' +
+        '"7","2","Line\nbreak, comma"\n' +
+        '"7","3",""\n' +
+        '"7","4",\n',
+    ]);
+  });
+
+  it("should fall back to INSERT and report only the offending rows", async () => {
+    const { pool, inserted } = createPool();
+    const loader = new BatchLoader(pool, errorHandler);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await loader.executeCopy(
+      batch([
+        ["1", "Aroha"],
+        ["2", "Bad\u0000name"],
+        ["3", "Tama"],
+        ["4", "Wiremu"],
+      ])
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.rowsInserted).toBe(3);
+    expect(inserted.map((row) => row[1])).toEqual(["1", "3", "4"]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].context).toMatchObject({
+      operation: "executeCopy",
+      batchRowIndex: 1,
+    });
+    expect(result.errors[0].rawRow).toBe(
+      JSON.stringify([7, "2", "Bad\u0000name"])
+    );
+  });
+});
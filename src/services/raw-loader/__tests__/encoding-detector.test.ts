@@ -0,0 +1,107 @@
+/**
+ * Encoding Detector - Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { detectEncoding, DecodingStream } from "../encoding-detector";
+import { CSVParser } from "../csv-parser";
+
+const text = "954535|^^|Aroha|^^|Ngata|~~|954536|^^|Tama|^^|Wiremu|~~|";
+
+const utf16be = (value: string): Buffer =>
+  Buffer.from(value, "utf16le").swap16();
+
+const parseRows = async (
+  chunks: Buffer[],
+  options: ConstructorParameters<typeof CSVParser>[0] = {}
+): Promise<{ rows: unknown[][]; parser: CSVParser }> => {
+  const parser = new CSVParser(options);
+  const rows: unknown[][] = [];
+  for await (const row of Readable.from(chunks).pipe(parser.parser)) {
+    rows.push(row as unknown[]);
+  }
+  return { rows, parser };
+};
+
+describe("detectEncoding", () => {
+  it("should detect encodings from the byte order mark", () => {
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x39, 0x00]))).toBe(
+      "utf16le"
+    );
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0x00, 0x39]))).toBe(
+      "utf16be"
+    );
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x39]))).toBe("utf8");
+  });
+
+  it("should detect encodings without a byte order mark", () => {
+    expect(detectEncoding(Buffer.from(text, "utf16le"))).toBe("utf16le");
+    expect(detectEncoding(utf16be(text))).toBe("utf16be");
+    expect(detectEncoding(Buffer.from(`${text}Māori`, "utf8"))).toBe("utf8");
+    expect(detectEncoding(Buffer.from(`Zoë|^^|${text}`, "latin1"))).toBe(
+      "windows1252"
+    );
+  });
+});
+
+describe("CSVParser encoding", () => {
+  it("should parse the same rows from every encoding", async () => {
+    const expected = [
+      ["954535", "Aroha", "Ngata"],
+      ["954536", "Tama", "Wiremu"],
+    ];
+
+    for (const buffer of [
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]),
+      utf16be(text),
+      Buffer.from(`\uFEFF${text}`, "utf8"),
+      Buffer.from(text, "latin1"),
+    ]) {
+      // Split mid-character to check decoding across chunks
+      const { rows } = await parseRows([
+        buffer.subarray(0, 5),
+        buffer.subarray(5),
+      ]);
+      expect(rows).toEqual(expected);
+    }
+  });
+
+  it("should decode Windows-1252 punctuation and report the encoding", async () => {
+    const { rows, parser } = await parseRows([
+      Buffer.from([0x31, 0x7c, 0x5e, 0x5e, 0x7c, 0x93, 0x4f, 0x4b, 0x94]),
+      Buffer.from("|~~|", "latin1"),
+    ]);
+
+    expect(rows).toEqual([["1", "“OK”"]]);
+    expect(parser.encoding).toBe("windows1252");
+  });
+
+  it("should use the configured encoding over detection", async () => {
+    const { parser } = await parseRows([Buffer.from(text, "utf8")], {
+      encoding: "windows1252",
+    });
+
+    expect(parser.encoding).toBe("windows1252");
+  });
+
+  it("should fail fast when no row separator appears early in the file", async () => {
+    // A UTF-16LE file read as UTF-8 never shows "|~~|"
+    const row = Buffer.from(text.replace(/\|~~\|/g, ""), "utf16le");
+    const chunks = Array.from({ length: 100 }, () => row);
+    const decoder = new DecodingStream({
+      encoding: "utf8",
+      separatorCheckBytes: 1024,
+    });
+
+    await expect(Readable.from(chunks).pipe(decoder).toArray()).rejects.toThrow(
+      'No "|~~|" row separator in the first 1 KB'
+    );
+  });
+
+  it("should fail a small file that holds one mega-row", async () => {
+    await expect(
+      parseRows([Buffer.from("954535|^^|Aroha|^^|Ngata", "utf8")])
+    ).rejects.toThrow("row separator in the file (read as utf8)");
+  });
+});
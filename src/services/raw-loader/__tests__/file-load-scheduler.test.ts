@@ -0,0 +1,222 @@
+/**
+ * File Load Scheduler and memory budget - Unit Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Readable } from "node:stream";
+import { FileLoadScheduler } from "../file-load-scheduler";
+import { CSVParser } from "../csv-parser";
+import { MemoryBudget } from "../../shared/memory-budget";
+import { StreamBatchProcessor } from "../../shared/stream-batch-processor";
+import type { DiscoveredFile } from "../../discovery/types/files";
+import type { BatchResult } from "../../shared/types";
+
+const MB = 1024 * 1024;
+
+const file = (s3Key: string, fileSize: number): DiscoveredFile =>
+  ({ s3Key, fileSize }) as DiscoveredFile;
+
+const tick = (ms = 5): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Loads that record how many files ran at once; files of 1 MB or more
+// take longer
+const trackConcurrency = (): {
+  load: (file: DiscoveredFile) => Promise<string>;
+  peak: () => number;
+} => {
+  let running = 0;
+  let peak = 0;
+  return {
+    load: async (file): Promise<string> => {
+      peak = Math.max(peak, ++running);
+      await tick(file.fileSize >= MB ? 50 : 5);
+      running--;
+      return file.s3Key;
+    },
+    peak: () => peak,
+  };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("FileLoadScheduler", () => {
+  it("should give large files more slots, so fewer load at once", async () => {
+    const scheduler = new FileLoadScheduler({
+      maxConcurrentFiles: 4,
+      largeFileMB: 1,
+    });
+    const small = [1, 2, 3, 4].map((n) => file(`small${n}`, MB / 2));
+
+    expect(scheduler.slotsFor(file("big", 3 * MB))).toBe(3);
+    expect(scheduler.slotsFor(file("huge", 40 * MB))).toBe(4);
+
+    const smallLoads = trackConcurrency();
+    await scheduler.run(small, smallLoads.load);
+    expect(smallLoads.peak()).toBe(4);
+
+    const mixedLoads = trackConcurrency();
+    const results = await scheduler.run(
+      [file("big", 3 * MB), ...small],
+      mixedLoads.load
+    );
+    expect(mixedLoads.peak()).toBe(2);
+    expect(results.map((r) => r.status === "fulfilled" && r.value)).toEqual([
+      "big",
+      "small1",
+      "small2",
+      "small3",
+      "small4",
+    ]);
+  });
+
+  it("should not start a file while the heap is over budget", async () => {
+    let heapMB = 10;
+    const scheduler = new FileLoadScheduler({
+      maxConcurrentFiles: 4,
+      largeFileMB: 1,
+      memoryBudget: new MemoryBudget({
+        maxHeapMB: 100,
+        maxQueuedMB: 1,
+        heapUsed: (): number => heapMB * MB,
+      }),
+      memoryPollMs: 1,
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const order: string[] = [];
+
+    await scheduler.run(
+      [file("first", MB), file("second", MB)],
+      async (file) => {
+        order.push(`start ${file.s3Key}`);
+        heapMB = 200;
+        await tick();
+        heapMB = 10;
+        order.push(`end ${file.s3Key}`);
+      }
+    );
+
+    expect(order).toEqual([
+      "start first",
+      "end first",
+      "start second",
+      "end second",
+    ]);
+  });
+
+  it("should report rejected loads without stopping the others", async () => {
+    const scheduler = new FileLoadScheduler({
+      maxConcurrentFiles: 2,
+      largeFileMB: 1,
+    });
+    const settled: number[] = [];
+
+    const results = await scheduler.run(
+      [file("bad", 1), file("good", 1)],
+      (file) =>
+        file.s3Key === "bad"
+          ? Promise.reject(new Error("boom"))
+          : Promise.resolve(file.s3Key),
+      (_result, index) => {
+        settled.push(index);
+        return Promise.resolve();
+      }
+    );
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "fulfilled"]);
+    expect(settled.sort()).toEqual([0, 1]);
+  });
+});
+
+describe("StreamBatchProcessor memory budget", () => {
+  it("should keep loading while over budget and report the stream's own peak", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const heapReadings = [20, 20, 350, 20];
+    let reading = 0;
+    const memoryBudget = new MemoryBudget({
+      maxHeapMB: 512,
+      maxQueuedMB: 0, // Every queued batch is over budget
+      heapUsed: (): number =>
+        heapReadings[reading++ % heapReadings.length] * MB,
+    });
+    const rows = Array.from({ length: 25 }, (_, i) => `P${i}|^^|Aroha`);
+    const loaded: number[] = [];
+    const batchExecutor = (
+      batch: unknown[][],
+      batchNumber: number
+    ): Promise<BatchResult> => {
+      loaded.push(batch.length);
+      return Promise.resolve({
+        batchNumber,
+        rowsInserted: batch.length,
+        errors: [],
+        warnings: [],
+        durationMs: 0,
+        success: true,
+      });
+    };
+
+    const chunks = rows.map((row) => Buffer.from(`${row}|~~|`));
+
+    const result = await new StreamBatchProcessor().processStream(
+      Readable.from(chunks),
+      new CSVParser({}),
+      batchExecutor,
+      { batchSize: 10, memoryBudget }
+    );
+
+    expect(loaded).toEqual([10, 10, 5]);
+    expect(result.totalRows).toBe(25);
+    // Queued rows, not the heap other loads share
+    const fileMB = Buffer.concat(chunks).length / MB;
+    expect(result.memoryUsageMB).toBeGreaterThan(0);
+    expect(result.memoryUsageMB).toBeLessThanOrEqual(fileMB);
+  });
+
+  it("should queue as many batches as fit in the budget", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const memoryBudget = new MemoryBudget({
+      maxHeapMB: 512,
+      maxQueuedMB: 1,
+      heapUsed: (): number => 20 * MB,
+    });
+    const rows = Array.from({ length: 80 }, (_, i) => `P${i}|^^|Aroha|~~|`);
+    let release = (): void => {};
+    const firstBatch = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const loaded: number[] = [];
+    const batchExecutor = async (
+      batch: unknown[][],
+      batchNumber: number
+    ): Promise<BatchResult> => {
+      if (loaded.length === 0) {
+        await firstBatch;
+      }
+      loaded.push(batch.length);
+      return {
+        batchNumber,
+        rowsInserted: batch.length,
+        errors: [],
+        warnings: [],
+        durationMs: 0,
+        success: true,
+      };
+    };
+
+    const result = new StreamBatchProcessor().processStream(
+      Readable.from([Buffer.from(rows.join(""))]),
+      new CSVParser({}),
+      batchExecutor,
+      { batchSize: 10, memoryBudget }
+    );
+    await tick();
+    release();
+
+    expect((await result).totalRows).toBe(80);
+    expect(loaded).toHaveLength(8);
+    expect(log.mock.calls.flat().join("\n")).not.toContain("Stream paused");
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { Readable } from "node:stream";
 import { RawLoaderService } from "../raw-loader-service";
 import { IdempotencyService } from "../idempotency-service";
 import { ErrorHandler } from "../error-handler";
@@ -472,3 +473,67 @@ describe("RawLoaderService", () => {
     });
   });
 });
+
+describe("RawLoaderService content hash", () => {
+  it("should remove a file's rows when its content does not match the checksum", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const discardRowsAfter = vi.fn(() => Promise.resolve(2));
+    const saveCheckpoint = vi.fn(() => Promise.resolve());
+    const markFileCompleted = vi.fn();
+    const markFileError = vi.fn(() => Promise.resolve());
+    const tableLoader = {
+      loadFromStream: async (
+        stream: NodeJS.ReadableStream
+      ): Promise<unknown> => {
+        // Read the file through so it is hashed
+        await new Promise((resolve) => stream.on("end", resolve).resume());
+        return { totalRows: 2, successfulBatches: 1, warnings: [] };
+      },
+      discardRowsAfter,
+    };
+    const idempotencyService = {
+      checkFileProcessed: (): Promise<unknown> =>
+        Promise.resolve({ isProcessed: false }),
+      markFileProcessing: (): Promise<number> => Promise.resolve(7),
+      saveCheckpoint,
+      markFileCompleted,
+      markFileError,
+    };
+    const fileSystemAdapter = {
+      getFileStream: (): Promise<Readable> =>
+        Promise.resolve(Readable.from([Buffer.from("P1|^^|Aroha|~~|")])),
+    };
+    const service = new RawLoaderService(
+      tableLoader as never,
+      {
+        getHandler: () => Promise.resolve({ tableName: "raw.patients" }),
+      } as never,
+      idempotencyService as never,
+      new ErrorHandler({ ...mockConfig.errorHandling, logErrors: false }),
+      mockMonitor as never,
+      fileSystemAdapter as never,
+      mockConfig as never,
+      { warn: vi.fn() } as never
+    );
+
+    const result = await service.loadFile(
+      {
+        s3Key: "patients.csv",
+        s3Bucket: "test-bucket",
+        checksum: "0".repeat(64),
+        parsed: { extractType: "Patient" },
+      } as DiscoveredFile,
+      "run-123",
+      {}
+    );
+
+    expect(result.successfulBatches).toBe(0);
+    expect(result.errors[0].message).toContain("Content hash mismatch");
+    expect(discardRowsAfter).toHaveBeenCalledWith("raw.patients", 7, 0);
+    expect(saveCheckpoint).toHaveBeenCalledWith(7, null);
+    expect(markFileCompleted).not.toHaveBeenCalled();
+    expect(markFileError).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Raw Table Loader rejects - Unit Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { MockInstance } from "vitest";
+import { Readable } from "node:stream";
+import { RawTableLoader } from "../raw-table-loader";
+import { BatchLoader } from "../../shared/batch-loader";
+import type { ErrorHandler } from "../error-handler";
+import {
+  DefaultDatabaseConfig,
+  DefaultProcessingConfig,
+} from "../types/config";
+import type { LoadCheckpoint } from "../types/raw-loader";
+import type { InsertBatch } from "../../shared/types";
+import { DatabasePool } from "../../shared/database-pool";
+import type { QueryResult } from "pg";
+
+const loadOptions = {
+  loadRunId: "run-123",
+  loadRunFileId: 7,
+  extractType: "Patient",
+  tableName: "raw.patients",
+  columns: ["patient_id", "first_name", "family_name"],
+};
+
+const fileStream = (rows: string[]): Readable =>
+  Readable.from([Buffer.from(rows.map((row) => `${row}|~~|`).join(""))]);
+
+const spyOnCopy = (): InsertBatch[] => {
+  const batches: InsertBatch[] = [];
+  vi.spyOn(BatchLoader.prototype, "executeCopy").mockImplementation(
+    (batch: InsertBatch) => {
+      batches.push(batch);
+      return Promise.resolve({
+        batchNumber: batch.batchNumber,
+        rowsInserted: batch.values.length,
+        errors: [],
+        warnings: [],
+        durationMs: 0,
+        success: true,
+      });
+    }
+  );
+  return batches;
+};
+
+// Schema drift reports are written with a plain query
+const stubQuery = (): MockInstance<DatabasePool["query"]> =>
+  vi
+    .spyOn(DatabasePool.prototype, "query")
+    .mockResolvedValue({ rows: [] } as unknown as QueryResult);
+
+describe("RawTableLoader rejects", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should reject rows with the wrong field count and load the rest", async () => {
+    const batches = spyOnCopy();
+    stubQuery();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler
+    );
+
+    const result = await loader.loadFromStream(
+      fileStream([
+        "P1|^^|Aroha|^^|Ngata",
+        "P2|^^|Tama",
+        "P3|^^|Mere|^^|Paki",
+        "P4|^^|Hemi|^^|Walker|^^|extra",
+      ]),
+      loadOptions
+    );
+
+    expect(result).toMatchObject({
+      totalRows: 4,
+      rowsIngested: 2,
+      rowsRejected: 2,
+    });
+
+    const rejects = batches.find((b) => b.tableName === "etl.raw_rejects");
+    expect(rejects?.values).toEqual([
+      [7, 2, "field_count_mismatch", 3, 2, "P2|^^|Tama"],
+      [7, 4, "field_count_mismatch", 3, 4, "P4|^^|Hemi|^^|Walker|^^|extra"],
+    ]);
+
+    const loaded = batches.find((b) => b.tableName === "raw.patients");
+    expect(loaded?.columns.slice(0, 3)).toEqual([
+      "load_run_file_id",
+      "source_row_number",
+      "patient_id",
+    ]);
+    expect(loaded?.values.map((row: unknown[]) => row.slice(1, 3))).toEqual([
+      [1, "P1"],
+      [3, "P3"],
+    ]);
+  });
+
+  it("should fail the file when the reject rate passes the error threshold", async () => {
+    spyOnCopy();
+    stubQuery();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler
+    );
+
+    await expect(
+      loader.loadFromStream(
+        fileStream(["P1|^^|Aroha|^^|Ngata", "P2|^^|Tama", "P3"]),
+        { ...loadOptions, errorThreshold: 0.5 }
+      )
+    ).rejects.toThrow("2 of 3 rows rejected, over the 50% error threshold");
+  });
+
+  it("should keep a reject's source text as it was in the file", async () => {
+    const batches = spyOnCopy();
+    stubQuery();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler,
+      { ...DefaultProcessingConfig, parseMode: "cast" }
+    );
+
+    await loader.loadFromStream(
+      fileStream(["P1|^^|Aroha|^^|Ngata", " P2 |^^| 0042 ", "", "P3|^^|Mere"]),
+      loadOptions
+    );
+
+    const rejects = batches.find((b) => b.tableName === "etl.raw_rejects");
+    expect(rejects?.values.map((row: unknown[]) => row.slice(1))).toEqual([
+      [2, "field_count_mismatch", 3, 2, " P2 |^^| 0042 "],
+      [3, "field_count_mismatch", 3, 2, "P3|^^|Mere"],
+    ]);
+  });
+
+  it("should judge the error threshold on the whole file", async () => {
+    const batches = spyOnCopy();
+    stubQuery();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler,
+      { ...DefaultProcessingConfig, copyChunkRows: 2 }
+    );
+
+    const result = await loader.loadFromStream(
+      fileStream([
+        "P1",
+        "P2",
+        ...[3, 4, 5, 6, 7, 8].map((n) => `P${n}|^^|Aroha|^^|Ngata`),
+      ]),
+      { ...loadOptions, errorThreshold: 0.25 }
+    );
+
+    expect(result).toMatchObject({ rowsIngested: 6, rowsRejected: 2 });
+    expect(batches.filter((b) => b.tableName === "raw.patients")).toHaveLength(
+      3
+    );
+  });
+
+  it("should skip committed rows when resuming and checkpoint each batch", async () => {
+    const batches = spyOnCopy();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler,
+      { ...DefaultProcessingConfig, copyChunkRows: 2 }
+    );
+    const checkpoints: LoadCheckpoint[] = [];
+
+    const result = await loader.loadFromStream(
+      fileStream([1, 2, 3, 4, 5].map((n) => `P${n}|^^|Aroha|^^|Ngata`)),
+      {
+        ...loadOptions,
+        resumeFrom: {
+          rowNumber: 2,
+          byteOffset: 48,
+          rowsIngested: 2,
+          rowsRejected: 0,
+        },
+        onCheckpoint: (checkpoint) => {
+          checkpoints.push(checkpoint);
+          return Promise.resolve();
+        },
+      }
+    );
+
+    expect(
+      batches.flatMap((b) => b.values.map((row: unknown[]) => row[1]))
+    ).toEqual([3, 4, 5]);
+    expect(
+      checkpoints.map(({ rowNumber, rowsIngested }) => ({
+        rowNumber,
+        rowsIngested,
+      }))
+    ).toEqual([
+      { rowNumber: 4, rowsIngested: 4 },
+      { rowNumber: 5, rowsIngested: 5 },
+    ]);
+    expect(checkpoints[1].byteOffset).toBe(
+      5 * "P1|^^|Aroha|^^|Ngata|~~|".length
+    );
+    expect(result).toMatchObject({ totalRows: 5, rowsIngested: 5 });
+  });
+
+  it("should not checkpoint past a failed batch", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    // The batch holding rows 3 and 4 fails
+    vi.spyOn(BatchLoader.prototype, "executeCopy").mockImplementation(
+      (batch: InsertBatch) => {
+        const failed = batch.values[0][1] === 3;
+        return Promise.resolve({
+          batchNumber: batch.batchNumber,
+          rowsInserted: failed ? 0 : batch.values.length,
+          errors: [],
+          warnings: [],
+          durationMs: 0,
+          success: !failed,
+        });
+      }
+    );
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler,
+      { ...DefaultProcessingConfig, copyChunkRows: 2 }
+    );
+    const checkpoints: LoadCheckpoint[] = [];
+
+    const result = await loader.loadFromStream(
+      fileStream([1, 2, 3, 4, 5].map((n) => `P${n}|^^|Aroha|^^|Ngata`)),
+      {
+        ...loadOptions,
+        onCheckpoint: (checkpoint) => {
+          checkpoints.push(checkpoint);
+          return Promise.resolve();
+        },
+      }
+    );
+
+    expect(result.failedBatches).toBe(1);
+    expect(checkpoints.map(({ rowNumber }) => rowNumber)).toEqual([2]);
+  });
+
+  it("should land extra fields in overflow_fields and report the drift", async () => {
+    const batches = spyOnCopy();
+    const query = stubQuery();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler,
+      {
+        ...DefaultProcessingConfig,
+        schemaDriftPolicies: { Patient: "overflow" },
+      }
+    );
+
+    const result = await loader.loadFromStream(
+      fileStream([
+        "P1|^^|Aroha|^^|Ngata",
+        "P2|^^|Tama|^^|Wiremu|^^|tama@example.com",
+        "P3|^^|Mere",
+      ]),
+      loadOptions
+    );
+
+    const loaded = batches.find((b) => b.tableName === "raw.patients");
+    expect(loaded?.columns.at(-1)).toBe("overflow_fields");
+    expect(loaded?.values).toEqual([
+      [7, 1, "P1", "Aroha", "Ngata", null],
+      [7, 2, "P2", "Tama", "Wiremu", '["tama@example.com"]'],
+    ]);
+    expect(result).toMatchObject({ rowsIngested: 2, rowsRejected: 1 });
+    expect(result.schemaDrift?.fieldCounts).toEqual({ 2: 1, 3: 1, 4: 1 });
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("INSERT INTO etl.schema_drift");
+    expect(params?.slice(0, 6)).toEqual([7, "Patient", "overflow", 3, 3, 2]);
+  });
+
+  it("should fail the file on drift when the policy is fail", async () => {
+    const batches = spyOnCopy();
+    const query = stubQuery();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler,
+      { ...DefaultProcessingConfig, schemaDriftPolicy: "fail" }
+    );
+
+    await expect(
+      loader.loadFromStream(
+        fileStream(["P1|^^|Aroha|^^|Ngata|^^|extra"]),
+        loadOptions
+      )
+    ).rejects.toThrow(
+      /^Schema drift in Patient: 1 of 1 rows have other than 3 fields \(4 fields: 1\)/
+    );
+    expect(batches).toEqual([]);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(sql).toContain("INSERT INTO etl.schema_drift");
+    expect(params?.slice(0, 6)).toEqual([7, "Patient", "fail", 3, 1, 1]);
+  });
+
+  it("should number rejects by their row in the file across batches", () => {
+    const loader = new RawTableLoader(
+      DefaultDatabaseConfig,
+      {} as ErrorHandler
+    );
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const { valid, rejects } = loader.splitMalformedRows(
+      [
+        { record: ["P1", "Aroha"], rawText: "P1|^^|Aroha" },
+        { record: ["P2"], rawText: "P2" },
+        {
+          record: ["P3", new Date("2025-01-01T00:00:00Z")],
+          rawText: "P3|^^|2025-01-01",
+        },
+      ],
+      2,
+      10001
+    );
+
+    expect(valid).toHaveLength(2);
+    expect(rejects).toEqual([
+      {
+        rowNumber: 10002,
+        reason: "field_count_mismatch",
+        expectedFieldCount: 2,
+        actualFieldCount: 1,
+        rowText: "P2",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Retry Policy - Unit Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { MockInstance } from "vitest";
+import {
+  RetryPolicy,
+  isTransientError,
+  type RetryEvent,
+} from "../../shared/retry-policy";
+import { BatchLoader } from "../../shared/batch-loader";
+import { ErrorHandler } from "../error-handler";
+import { LoadMonitor } from "../load-monitor";
+import { DefaultRawLoaderConfig } from "../types/config";
+import { DatabasePool } from "../../shared/database-pool";
+import { DimensionLoader } from "../../core-merger/dimension/dimension-loader";
+import type { BaseDimensionHandler } from "../../core-merger/dimension/handlers/base-dimension-handler";
+import { Pool, type PoolClient } from "pg";
+
+const pgError = (code: string): Error =>
+  Object.assign(new Error(`pg error ${code}`), { code });
+
+const awsError = (name: string, httpStatusCode: number): Error =>
+  Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("isTransientError", () => {
+  it("should retry dropped connections, deadlocks and serialization failures", () => {
+    for (const code of ["08006", "08003", "40001", "40P01", "57P01"]) {
+      expect(isTransientError(pgError(code))).toBe(true);
+    }
+    expect(isTransientError(pgError("ECONNRESET"))).toBe(true);
+    expect(
+      isTransientError(new Error("Connection terminated unexpectedly"))
+    ).toBe(true);
+  });
+
+  it("should not retry errors in the data or the schema", () => {
+    for (const code of ["23505", "22P02", "42P01", "42703"]) {
+      expect(isTransientError(pgError(code))).toBe(false);
+    }
+    expect(isTransientError(new Error("Batch has no values to insert"))).toBe(
+      false
+    );
+    expect(isTransientError("ECONNRESET")).toBe(false);
+  });
+
+  it("should retry S3 throttling and server errors but not client errors", () => {
+    expect(isTransientError(awsError("SlowDown", 503))).toBe(true);
+    expect(isTransientError(awsError("InternalError", 500))).toBe(true);
+    expect(isTransientError(awsError("Unknown", 502))).toBe(true);
+    expect(isTransientError(awsError("TooManyRequestsException", 429))).toBe(
+      true
+    );
+    expect(isTransientError(awsError("NoSuchKey", 404))).toBe(false);
+    expect(isTransientError(awsError("AccessDenied", 403))).toBe(false);
+  });
+});
+
+describe("RetryPolicy", () => {
+  const policy = (
+    maxRetries: number,
+    events: RetryEvent[] = []
+  ): { policy: RetryPolicy; sleep: ReturnType<typeof vi.fn> } => {
+    const sleep = vi.fn(() => Promise.resolve());
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    return {
+      policy: new RetryPolicy({
+        maxRetries,
+        baseDelayMs: 100,
+        maxDelayMs: 300,
+        random: (): number => 1,
+        sleep,
+        onRetry: (event): void => {
+          events.push(event);
+        },
+      }),
+      sleep,
+    };
+  };
+
+  it("should back off exponentially up to the cap, jittering the upper half", () => {
+    const low = new RetryPolicy({
+      maxRetries: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      random: (): number => 0,
+    });
+    const high = new RetryPolicy({
+      maxRetries: 3,
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      random: (): number => 1,
+    });
+
+    expect([1, 2, 3, 4].map((n) => low.getDelay(n))).toEqual([
+      50, 100, 150, 150,
+    ]);
+    expect([1, 2, 3, 4].map((n) => high.getDelay(n))).toEqual([
+      100, 200, 300, 300,
+    ]);
+  });
+
+  it("should retry transient failures until the operation succeeds", async () => {
+    const events: RetryEvent[] = [];
+    const { policy: retry, sleep } = policy(3, events);
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(pgError("40P01"))
+      .mockRejectedValueOnce(pgError("ECONNRESET"))
+      .mockResolvedValue("loaded");
+
+    await expect(retry.execute("Batch 1", fn)).resolves.toBe("loaded");
+
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+    expect(
+      events.map(({ operation, attempt }) => [operation, attempt])
+    ).toEqual([
+      ["Batch 1", 1],
+      ["Batch 1", 2],
+    ]);
+  });
+
+  it("should throw non-transient errors without retrying", async () => {
+    const events: RetryEvent[] = [];
+    const { policy: retry } = policy(3, events);
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(pgError("23505"));
+
+    await expect(retry.execute("Batch 1", fn)).rejects.toThrow(
+      "pg error 23505"
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([]);
+  });
+
+  it("should throw the last error once retries run out", async () => {
+    const { policy: retry } = policy(2);
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(awsError("SlowDown", 503));
+
+    await expect(retry.execute("Open file", fn)).rejects.toThrow("SlowDown");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("Retries in load paths", () => {
+  it("should retry a batch insert and count the retry in the run metrics", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const monitor = new LoadMonitor(DefaultRawLoaderConfig.monitoring);
+    const errorHandler = new ErrorHandler({
+      ...DefaultRawLoaderConfig.errorHandling,
+      retryDelayMs: 1,
+    });
+    const transaction = vi
+      .fn()
+      .mockRejectedValueOnce(pgError("57P01"))
+      .mockResolvedValue({ rowCount: 2 });
+    const loader = new BatchLoader(
+      { transaction } as unknown as DatabasePool,
+      errorHandler,
+      errorHandler.createRetryPolicy(() => monitor.recordRetry())
+    );
+
+    const result = await loader.executeBatch({
+      tableName: "raw.patients",
+      columns: ["patient_id"],
+      values: [["P1"], ["P2"]],
+      rowCount: 2,
+      batchNumber: 1,
+    });
+
+    expect(result).toMatchObject({ success: true, rowsInserted: 2 });
+    expect(transaction).toHaveBeenCalledTimes(2);
+    expect((await monitor.getMetrics()).retryCount).toBe(1);
+  });
+
+  it("should retry a batch when its connection drops mid-transaction", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    // pg will not run the rollback on a client whose connection has dropped
+    const dropped = {
+      query: vi.fn((sql: string) =>
+        sql === "BEGIN"
+          ? Promise.resolve({})
+          : Promise.reject(
+              new Error(
+                sql === "ROLLBACK"
+                  ? "Client has encountered a connection error and is not queryable"
+                  : "Connection terminated unexpectedly"
+              )
+            )
+      ),
+      release: vi.fn(),
+    };
+    const healthy = {
+      query: vi.fn(() => Promise.resolve({ rowCount: 2 })),
+      release: vi.fn(),
+    };
+    const connect = vi.spyOn(
+      Pool.prototype,
+      "connect"
+    ) as unknown as MockInstance<() => Promise<PoolClient>>;
+    connect
+      .mockResolvedValueOnce(dropped as unknown as PoolClient)
+      .mockResolvedValueOnce(healthy as unknown as PoolClient);
+    const errorHandler = new ErrorHandler({
+      ...DefaultRawLoaderConfig.errorHandling,
+      retryDelayMs: 1,
+    });
+    const loader = new BatchLoader(
+      new DatabasePool(DefaultRawLoaderConfig.database),
+      errorHandler,
+      errorHandler.createRetryPolicy()
+    );
+
+    const result = await loader.executeBatch({
+      tableName: "raw.patients",
+      columns: ["patient_id"],
+      values: [["P1"], ["P2"]],
+      rowCount: 2,
+      batchNumber: 1,
+    });
+
+    expect(result).toMatchObject({ success: true, rowsInserted: 2 });
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(dropped.release).toHaveBeenCalledWith(
+      new Error(
+        "Client has encountered a connection error and is not queryable"
+      )
+    );
+    expect(healthy.release).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should throw a transient error from a dimension batch even when continuing on error", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const query = vi.fn((sql: string) => {
+      if (sql === "SELECT current") {
+        return Promise.reject(pgError("40P01"));
+      }
+      return Promise.resolve({
+        rows: sql === "SELECT staging" ? [{ patient_id: "P1" }] : [],
+      });
+    });
+    const pool = {
+      connect: () => Promise.resolve({ query, release: vi.fn() }),
+    } as unknown as Pool;
+    const handler = {
+      getSCD2Config: () => ({}),
+      getDimensionType: () => "patient",
+      buildSelectQuery: () => "SELECT staging",
+      buildGetCurrentQuery: () => "SELECT current",
+      getBusinessKeyFields: () => ["patientId"],
+      validateStagingRecord: () => Promise.resolve({ valid: true, errors: [] }),
+      transformStagingToDimension: () =>
+        Promise.resolve({ businessKey: { patientId: "P1" } }),
+    } as unknown as BaseDimensionHandler;
+
+    await expect(
+      new DimensionLoader(pool, handler).loadDimension({
+        loadRunId: "run-123",
+        stagingRunId: "staging-123",
+        extractType: "Patient",
+        continueOnError: true,
+      })
+    ).rejects.toThrow("pg error 40P01");
+    expect(query).toHaveBeenLastCalledWith("ROLLBACK");
+  });
+});
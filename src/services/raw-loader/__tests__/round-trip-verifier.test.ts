@@ -0,0 +1,182 @@
+/**
+ * Lossless parsing and Round-Trip Verifier - Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import type { QueryResult } from "pg";
+import { CSVParser } from "../csv-parser";
+import { RoundTripVerifier } from "../round-trip-verifier";
+import type { DatabasePool } from "../../shared/database-pool";
+
+const source =
+  '0012|^^| "Bob" Jr |^^|2025-01-29 18:18:11.347|^^||~~|' +
+  "0013|^^|Aroha|^^|2025-02-11|^^|1|~~|";
+
+const stream = (text: string): Readable =>
+  Readable.from([Buffer.from(text, "utf16le")]);
+
+const parseRows = async (
+  text: string,
+  mode: "lossless" | "cast"
+): Promise<unknown[][]> => {
+  const parser = new CSVParser({ mode });
+  return (await stream(text).pipe(parser.parser).toArray()) as unknown[][];
+};
+
+type RawRow = Record<string, string | number | null>;
+
+// Raw table holding the given rows for load_run_file_id 7
+const rawTable = (rows: RawRow[], queries: unknown[][] = []): DatabasePool =>
+  ({
+    query: (_text: string, params: unknown[]) => {
+      queries.push(params);
+      return Promise.resolve({
+        rows: rows.filter(
+          (row) =>
+            params[0] === 7 &&
+            (params[1] as number[]).includes(row.source_row_number as number)
+        ),
+      } as unknown as QueryResult);
+    },
+  }) as unknown as DatabasePool;
+
+const options = {
+  loadRunFileId: 7,
+  tableName: "raw.patients",
+  columns: ["id", "name", "inserted_at", "flag"],
+  sampleRows: 10,
+};
+
+describe("CSVParser lossless mode", () => {
+  it("should keep every field as the exact source text", async () => {
+    expect(await parseRows(source, "lossless")).toEqual([
+      ["0012", ' "Bob" Jr ', "2025-01-29 18:18:11.347", ""],
+      ["0013", "Aroha", "2025-02-11", "1"],
+    ]);
+  });
+
+  it("should still cast values in cast mode", async () => {
+    const [row] = await parseRows("0012|^^| Aroha |^^|2025-02-11|~~|", "cast");
+
+    expect(row.slice(0, 2)).toEqual([12, "Aroha"]);
+    expect(row[2]).toBeInstanceOf(Date);
+  });
+});
+
+describe("RoundTripVerifier", () => {
+  it("should match rows rebuilt from the raw table in one query", async () => {
+    const queries: unknown[][] = [];
+    const verifier = new RoundTripVerifier(
+      rawTable(
+        [
+          {
+            source_row_number: 1,
+            id: "0012",
+            name: ' "Bob" Jr ',
+            inserted_at: "2025-01-29 18:18:11.347",
+            flag: "",
+          },
+          {
+            source_row_number: 2,
+            id: "0013",
+            name: "Aroha",
+            inserted_at: "2025-02-11",
+            flag: "1",
+          },
+        ],
+        queries
+      )
+    );
+
+    expect(await verifier.verify(stream(source), options)).toEqual({
+      sampledRows: 2,
+      matchedRows: 2,
+      mismatches: [],
+    });
+    expect(queries).toEqual([[7, [1, 2]]]);
+  });
+
+  it("should match rows by row number when they share a first field", async () => {
+    const verifier = new RoundTripVerifier(
+      rawTable([
+        {
+          source_row_number: 1,
+          id: "0012",
+          name: "Aroha",
+          inserted_at: "",
+          flag: "",
+        },
+        {
+          source_row_number: 2,
+          id: "0012",
+          name: "Tama",
+          inserted_at: "",
+          flag: "",
+        },
+      ])
+    );
+
+    const result = await verifier.verify(
+      stream("0012|^^|Aroha|^^||^^||~~|0012|^^|Tama|^^||^^|1|~~|"),
+      options
+    );
+
+    expect(result.matchedRows).toBe(1);
+    expect(result.mismatches).toEqual([
+      {
+        rowNumber: 2,
+        sourceText: "0012|^^|Tama|^^||^^|1",
+        rawText: "0012|^^|Tama|^^||^^|",
+      },
+    ]);
+  });
+
+  it("should report rows that changed on the way into raw", async () => {
+    const verifier = new RoundTripVerifier(
+      rawTable([
+        {
+          source_row_number: 1,
+          id: "0012",
+          name: '"Bob" Jr',
+          inserted_at: "2025-01-29T18:18:11.347Z",
+          flag: null,
+        },
+      ])
+    );
+
+    const result = await verifier.verify(stream(source), options);
+
+    expect(result.matchedRows).toBe(0);
+    expect(result.mismatches).toEqual([
+      {
+        rowNumber: 1,
+        sourceText: '0012|^^| "Bob" Jr |^^|2025-01-29 18:18:11.347|^^|',
+        rawText: '0012|^^|"Bob" Jr|^^|2025-01-29T18:18:11.347Z|^^|',
+      },
+      {
+        rowNumber: 2,
+        sourceText: "0013|^^|Aroha|^^|2025-02-11|^^|1",
+        rawText: null,
+      },
+    ]);
+  });
+
+  it("should sample rows numbered as the parser numbers them", async () => {
+    const verifier = new RoundTripVerifier(rawTable([]), () => 0.99);
+    const rows = Array.from({ length: 6 }, (_, i) => `P${i + 1}|^^|x`);
+
+    const sample = await verifier.sampleSourceRows(
+      stream(
+        `${rows.slice(0, 3).join("|~~|")}|~~||~~|${rows.slice(3).join("|~~|")}|~~|`
+      ),
+      2
+    );
+
+    // Empty rows are skipped; a high random number keeps the first rows
+    expect(sample).toEqual([
+      { rowNumber: 1, text: "P1|^^|x" },
+      { rowNumber: 2, text: "P2|^^|x" },
+    ]);
+  });
+});
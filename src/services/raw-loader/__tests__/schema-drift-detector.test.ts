@@ -0,0 +1,39 @@
+/**
+ * Schema Drift Detector - Unit Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { SchemaDriftDetector } from "../schema-drift-detector";
+
+describe("SchemaDriftDetector", () => {
+  it("should report the field count distribution and sample drifted rows", () => {
+    const detector = new SchemaDriftDetector(3, 1);
+
+    const drifted = [
+      ["P1", "Aroha", "Ngata"],
+      ["P2", "Tama", "Wiremu", "tama@example.com", "021"],
+      ["P3", "Mere", "Paki", "mere@example.com", "022"],
+      ["P4", "Hemi"],
+    ].map((row, index) => detector.observe(row, index + 1));
+
+    expect(drifted).toEqual([false, true, true, true]);
+    expect(detector.report()).toEqual({
+      expectedFieldCount: 3,
+      rowsObserved: 4,
+      driftedRows: 3,
+      fieldCounts: { 2: 1, 3: 1, 5: 2 },
+      samples: [
+        {
+          rowNumber: 2,
+          fieldCount: 5,
+          positions: [4, 5],
+          extraValues: ["tama@example.com", "021"],
+        },
+        { rowNumber: 4, fieldCount: 2, positions: [3], extraValues: [] },
+      ],
+    });
+    expect(detector.describe()).toBe(
+      "3 of 4 rows have other than 3 fields (2 fields: 1, 5 fields: 2)"
+    );
+  });
+});
@@ -1,4 +1,7 @@
-import { parse, Parser } from "csv-parse";
+import { Duplex, Transform } from "node:stream";
+import { parse, Parser, type Info } from "csv-parse";
+import { DecodingStream } from "./encoding-detector";
+import type { FileEncoding, RawParseMode } from "./types/config";
 import { IndiciCsvSeparators } from "./types/config";
 
 /**
@@ -12,6 +15,19 @@ export interface CSVParseOptions {
   maxRowLength?: number; // Safety limit for row size
   maxFieldLength?: number; // Safety limit for individual field size
   skipEmptyRows?: boolean; // Skip completely empty rows
+  encoding?: FileEncoding; // Detected from the first chunk when unset
+  mode?: RawParseMode; // "lossless" (default) returns every field as the exact source text
+  separatorCheckBytes?: number; // Fail fast when no row separator appears within this many bytes
+  rawText?: boolean; // Emit a ParsedRecord with each record's source text instead of the bare fields
+}
+
+/**
+ * A record's fields and the text it was parsed from, without its row
+ * separator
+ */
+export interface ParsedRecord {
+  record: (string | number | boolean | Date)[];
+  rawText: string;
 }
 
 /**
@@ -40,7 +56,9 @@ export class CSVParser {
   private readonly rowSeparator: string;
   private readonly columnMapping: string[] | false;
   private readonly skipEmptyRows: boolean;
-  public readonly parser: Parser;
+  private readonly mode: RawParseMode;
+  private readonly decoder: DecodingStream;
+  public readonly parser: Duplex; // Raw file bytes in, rows out
 
   constructor(options: CSVParseOptions) {
     this.fieldSeparator =
@@ -49,23 +67,114 @@ export class CSVParser {
       options.rowSeparator ?? IndiciCsvSeparators.rowSeparator;
     this.columnMapping = options.columnMapping ?? false;
     this.skipEmptyRows = options.skipEmptyRows ?? true;
-    this.parser = this.getParser();
+    this.mode = options.mode ?? "lossless";
+    this.decoder = new DecodingStream({
+      encoding: options.encoding,
+      rowSeparator: this.rowSeparator,
+      separatorCheckBytes: options.separatorCheckBytes,
+    });
+
+    const csvParser = this.getParser(options.rawText ?? false);
+    if (options.rawText) {
+      const text = new RecordTextTracker(this.rowSeparator);
+      const records = this.decoder.pipe(text.tap()).pipe(csvParser);
+      this.parser = Duplex.from({
+        writable: this.decoder,
+        readable: records.pipe(text.attach()),
+      });
+    } else {
+      this.decoder.pipe(csvParser);
+      this.parser = Duplex.from({
+        writable: this.decoder,
+        readable: csvParser,
+      });
+    }
   }
 
-  private getParser(): Parser {
+  /**
+   * Encoding the file was read in; null until the first chunk is parsed
+   */
+  get encoding(): FileEncoding | null {
+    return this.decoder.encoding;
+  }
+
+  private getParser(withInfo: boolean): Parser {
+    const lossless = this.mode === "lossless";
+
     // See - https://csv.js.org/parse/options for all options
     return parse({
       delimiter: this.fieldSeparator, // Custom field delimiter - separates individual data fields within each row
       record_delimiter: this.rowSeparator, // Custom row delimiter - separates each record/row in the file
-      encoding: "utf16le", // File encoding format - handles UTF-16 Little Endian text encoding
+      encoding: "utf8", // The decoding stream hands over UTF-8, whatever the file's encoding
       skip_empty_lines: this.skipEmptyRows, // Ignores completely empty lines in the file (no content at all)
       relax_column_count: true, // Allows rows to have different numbers of fields without throwing errors
       relax_quotes: true, // Permits quotes to appear anywhere in fields without proper CSV escaping
+      quote: lossless ? false : '"', // Indici does not quote fields, so quotes are field text when lossless
       columns: this.columnMapping, // Returns arrays instead of objects
-      trim: true, // Automatically removes leading/trailing whitespace from each field value
-      bom: true, // Automatically detects and removes Byte Order Mark (common in UTF-16 files)
-      cast: true, // Casts values to the appropriate type
-      cast_date: true, // Automatically converts date strings to Date objects
+      trim: !lossless, // Removes leading/trailing whitespace from each field value
+      bom: true, // Removes a Byte Order Mark (the decoding stream already strips it)
+      cast: !lossless, // Casts values to the appropriate type; leading zeros of numeric IDs are lost
+      cast_date: !lossless, // Converts date strings to Date objects, which load reformatted
+      info: withInfo, // Emits { record, info } with the bytes parsed so far, to cut out each record's text
     });
   }
 }
+
+/**
+ * Keeps the decoded text the parser has not yet turned into records, and
+ * cuts each record's text from it by the byte count csv-parse reports.
+ * csv-parse's own raw option keeps only the first character of a
+ * multi-character separator, so it cannot be used for Indici extracts
+ */
+class RecordTextTracker {
+  private pending = Buffer.alloc(0);
+  private pendingStart = 0; // Bytes parsed before the pending text
+
+  constructor(private readonly rowSeparator: string) {}
+
+  /**
+   * Passes decoded text on to the parser, keeping a copy
+   */
+  tap(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback): void => {
+        this.pending = Buffer.concat([this.pending, chunk]);
+        callback(null, chunk);
+      },
+    });
+  }
+
+  /**
+   * Turns csv-parse's { record, info } output into ParsedRecords
+   */
+  attach(): Transform {
+    return new Transform({
+      objectMode: true,
+      transform: (
+        { record, info }: { record: ParsedRecord["record"]; info: Info },
+        _encoding,
+        callback
+      ): void => {
+        callback(null, { record, rawText: this.take(info.bytes) });
+      },
+    });
+  }
+
+  /**
+   * Text up to a byte count, less the row separators around it; skipped
+   * empty rows leave separators ahead of the record
+   */
+  private take(bytes: number): string {
+    const length = bytes - this.pendingStart;
+    let text = this.pending.subarray(0, length).toString("utf8");
+    this.pending = this.pending.subarray(length);
+    this.pendingStart = bytes;
+
+    while (text.startsWith(this.rowSeparator)) {
+      text = text.slice(this.rowSeparator.length);
+    }
+    return text.endsWith(this.rowSeparator)
+      ? text.slice(0, -this.rowSeparator.length)
+      : text;
+  }
+}
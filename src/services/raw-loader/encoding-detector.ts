@@ -0,0 +1,205 @@
+/**
+ * Encoding Detector
+ * Works out the text encoding of an extract from its first bytes and decodes
+ * it to UTF-8 for the CSV parser. A file read in the wrong encoding has no row
+ * separators, and would otherwise load as one row in the first column
+ */
+
+import { Transform, type TransformCallback } from "node:stream";
+import { TextDecoder } from "node:util";
+import type { FileEncoding } from "./types/config";
+import { IndiciCsvSeparators } from "./types/config";
+
+// Bytes to look at before deciding on an encoding
+const DETECTION_SAMPLE_BYTES = 4096;
+
+// Share of code units with a zero byte on one side that marks UTF-16 text
+const UTF16_ZERO_RATIO = 0.3;
+
+// WHATWG labels understood by TextDecoder
+const DECODER_LABELS: Record<Exclude<FileEncoding, "windows1252">, string> = {
+  utf16le: "utf-16le",
+  utf16be: "utf-16be",
+  utf8: "utf-8",
+};
+
+// Windows-1252 characters for bytes 0x80-0x9F; the rest match Latin-1
+// Node's TextDecoder decodes "windows-1252" as Latin-1, so these are mapped here
+const WINDOWS_1252_HIGH =
+  "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+interface TextChunkDecoder {
+  decode(input: Buffer, options: { stream: boolean }): string;
+}
+
+const windows1252Decoder: TextChunkDecoder = {
+  decode: (input) =>
+    input
+      .toString("latin1")
+      .replace(/[\u0080-\u009f]/g, (char) =>
+        WINDOWS_1252_HIGH.charAt(char.charCodeAt(0) - 0x80)
+      ),
+};
+
+/**
+ * Detect the encoding of the start of a file
+ * A byte order mark decides it; otherwise ASCII-range text in UTF-16 has a
+ * zero byte in every other position, and anything else that is not valid
+ * UTF-8 is taken to be Windows-1252
+ */
+export function detectEncoding(sample: Buffer): FileEncoding {
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return "utf16le";
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return "utf16be";
+  }
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return "utf8";
+  }
+
+  const units = Math.floor(sample.length / 2);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < units * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  if (units > 0 && oddZeros / units >= UTF16_ZERO_RATIO && evenZeros === 0) {
+    return "utf16le";
+  }
+  if (units > 0 && evenZeros / units >= UTF16_ZERO_RATIO && oddZeros === 0) {
+    return "utf16be";
+  }
+
+  try {
+    // stream: true leaves a character cut off at the end of the sample alone
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return "utf8";
+  } catch {
+    return "windows1252";
+  }
+}
+
+export interface DecodingStreamOptions {
+  encoding?: FileEncoding; // Override; detected from the first bytes when unset
+  rowSeparator?: string;
+  separatorCheckBytes?: number; // Fail when no row separator appears within this many bytes
+}
+
+/**
+ * Decodes a file to UTF-8, detecting its encoding on the first chunk
+ * Fails the stream when no row separator shows up early in the file, or
+ * anywhere in a smaller file, instead of passing on one mega-row
+ */
+export class DecodingStream extends Transform {
+  private readonly rowSeparator: string;
+  private readonly separatorCheckBytes: number;
+  private detected: FileEncoding | null;
+  private decoder?: TextChunkDecoder;
+  private sample: Buffer[] = [];
+  private sampleBytes = 0;
+  private bytesRead = 0;
+  private head = ""; // Decoded text until the first row separator
+  private separatorSeen = false;
+
+  constructor(options: DecodingStreamOptions = {}) {
+    super();
+    this.detected = options.encoding ?? null;
+    this.rowSeparator =
+      options.rowSeparator ?? IndiciCsvSeparators.rowSeparator;
+    this.separatorCheckBytes = options.separatorCheckBytes ?? 64 * 1024;
+  }
+
+  /**
+   * Encoding the file is read in; null until the first chunk arrives
+   */
+  get encoding(): FileEncoding | null {
+    return this.detected;
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: string,
+    callback: TransformCallback
+  ): void {
+    this.bytesRead += chunk.length;
+
+    if (!this.decoder) {
+      this.sample.push(chunk);
+      this.sampleBytes += chunk.length;
+      if (this.sampleBytes < DETECTION_SAMPLE_BYTES) {
+        callback();
+        return;
+      }
+      chunk = this.startDecoding();
+    }
+
+    callback(
+      this.checkSeparator(this.decoder!.decode(chunk, { stream: true }))
+    );
+  }
+
+  override _flush(callback: TransformCallback): void {
+    const chunk = this.decoder ? Buffer.alloc(0) : this.startDecoding();
+    const error = this.checkSeparator(
+      this.decoder!.decode(chunk, { stream: false }),
+      true
+    );
+    callback(error);
+  }
+
+  private startDecoding(): Buffer {
+    const sample = Buffer.concat(this.sample);
+    this.sample = [];
+    this.detected ??= detectEncoding(sample);
+    // TextDecoder strips the byte order mark
+    this.decoder =
+      this.detected === "windows1252"
+        ? windows1252Decoder
+        : new TextDecoder(DECODER_LABELS[this.detected]);
+    return sample;
+  }
+
+  /**
+   * Pass decoded text on once a row separator has been seen in it
+   */
+  private checkSeparator(text: string, isLast = false): Error | null {
+    if (this.separatorSeen) {
+      this.pushText(text);
+      return null;
+    }
+
+    this.head += text;
+    if (this.head.includes(this.rowSeparator)) {
+      this.separatorSeen = true;
+      this.pushText(this.head);
+      this.head = "";
+      return null;
+    }
+
+    if (this.bytesRead > this.separatorCheckBytes) {
+      return this.noSeparatorError(
+        `in the first ${Math.round(this.separatorCheckBytes / 1024)} KB`
+      );
+    }
+    if (isLast && this.head.trim() !== "") {
+      return this.noSeparatorError("in the file");
+    }
+    return null;
+  }
+
+  private pushText(text: string): void {
+    if (text !== "") {
+      this.push(Buffer.from(text, "utf8"));
+    }
+  }
+
+  private noSeparatorError(where: string): Error {
+    return new Error(
+      `No "${this.rowSeparator}" row separator ${where} (read as ${this.detected}), ` +
+        `so it would load as a single row. Check the file's encoding, or set ` +
+        `processing.encodingOverrides for this extract`
+    );
+  }
+}
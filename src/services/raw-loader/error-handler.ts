@@ -1,6 +1,11 @@
 import type { ErrorSummary } from "./types/errors";
 import { LoadErrorType, type LoadError } from "@/services/shared/types";
 import type { ErrorHandlingConfig } from "./types/config";
+import {
+  RetryPolicy,
+  isTransientError,
+  type RetryEvent,
+} from "@/services/shared/retry-policy";
 
 /**
  * Error Handler - manages error processing and recovery
@@ -66,12 +71,22 @@ export class ErrorHandler {
    * Get retry delay for error
    */
   async getRetryDelay(attempt: number): Promise<number> {
-    // Exponential backoff with jitter
-    const baseDelay = this.config.retryDelayMs;
-    const exponentialDelay = baseDelay * Math.pow(2, attempt - 1);
-    const jitter = Math.random() * 0.1 * exponentialDelay;
+    // Exponential backoff with jitter, max 30 seconds
+    return this.createRetryPolicy().getDelay(attempt);
+  }
 
-    return Math.min(exponentialDelay + jitter, 30000); // Max 30 seconds
+  /**
+   * Retry policy for this config's maxRetries and retryDelayMs
+   * @param onRetry - Called before each retry, e.g. to record it in metrics
+   */
+  createRetryPolicy(
+    onRetry?: (event: RetryEvent) => void | Promise<void>
+  ): RetryPolicy {
+    return new RetryPolicy({
+      maxRetries: this.config.maxRetries,
+      baseDelayMs: this.config.retryDelayMs,
+      onRetry,
+    });
   }
 
   /**
@@ -160,12 +175,11 @@ export class ErrorHandler {
 
   private isRetryable(error: Error | any): boolean {
     const errorType = this.classifyError(error);
-    const errorCode = (error as any).code;
 
     switch (errorType) {
       case LoadErrorType.DATABASE_ERROR:
-        // Network timeouts, connection issues are retryable
-        return errorCode === "08000" || errorCode === "08003";
+        // Network timeouts, connection issues, deadlocks are retryable
+        return isTransientError(error);
       case LoadErrorType.CSV_PARSE_ERROR:
         return false; // Parse errors are usually not retryable
       case LoadErrorType.VALIDATION_ERROR:
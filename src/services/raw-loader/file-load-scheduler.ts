@@ -0,0 +1,106 @@
+/**
+ * File Load Scheduler
+ * Loads files concurrently within processing.maxConcurrentFiles slots. A file
+ * takes one slot per processing.largeFileMB of its size, so fewer large files
+ * load side by side than small ones, and no file starts while the heap is
+ * over processing.maxMemoryMB
+ */
+
+import type { DiscoveredFile } from "../discovery/types/files";
+import type { MemoryBudget } from "../shared/memory-budget";
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface FileLoadSchedulerOptions {
+  maxConcurrentFiles: number;
+  largeFileMB: number;
+  memoryBudget?: MemoryBudget;
+  memoryPollMs?: number; // How often to check the heap while waiting on it (default: 250)
+}
+
+export class FileLoadScheduler {
+  private readonly memoryPollMs: number;
+
+  constructor(private options: FileLoadSchedulerOptions) {
+    this.memoryPollMs = options.memoryPollMs ?? 250;
+  }
+
+  /**
+   * Slots a file takes: one per largeFileMB of stored size, at least one
+   * and at most all of them
+   */
+  slotsFor(file: DiscoveredFile): number {
+    const slots = Math.ceil(
+      file.fileSize / (this.options.largeFileMB * BYTES_PER_MB)
+    );
+    return Math.min(Math.max(slots, 1), this.options.maxConcurrentFiles);
+  }
+
+  /**
+   * Load every file, starting them in order as slots free up
+   * @param onSettled - Called as each file finishes, with its index in files
+   * @returns Outcome of each file, in the order given
+   */
+  async run<T>(
+    files: DiscoveredFile[],
+    load: (file: DiscoveredFile) => Promise<T>,
+    onSettled?: (
+      result: PromiseSettledResult<T>,
+      index: number
+    ) => Promise<void>
+  ): Promise<PromiseSettledResult<T>[]> {
+    const results: PromiseSettledResult<T>[] = [];
+    const running = new Set<Promise<void>>();
+    let freeSlots = this.options.maxConcurrentFiles;
+    let waitLogged = -1;
+
+    const start = (index: number, slots: number): void => {
+      freeSlots -= slots;
+      const loading = load(files[index])
+        .then(
+          (value): PromiseSettledResult<T> => ({ status: "fulfilled", value }),
+          (reason: unknown): PromiseSettledResult<T> => ({
+            status: "rejected",
+            reason,
+          })
+        )
+        .then(async (result) => {
+          results[index] = result;
+          freeSlots += slots;
+          running.delete(loading);
+          await onSettled?.(result, index);
+        });
+      running.add(loading);
+    };
+
+    for (let index = 0; index < files.length; ) {
+      const slots = this.slotsFor(files[index]);
+      // With nothing running, a file starts whatever the heap
+      const heapFull =
+        running.size > 0 &&
+        (this.options.memoryBudget?.isHeapOverBudget() ?? false);
+
+      if (slots <= freeSlots && !heapFull) {
+        start(index++, slots);
+        continue;
+      }
+
+      if (heapFull && waitLogged !== index) {
+        waitLogged = index;
+        console.log(
+          `⏸️  Waiting to start ${files[index].s3Key} - heap over budget (${Math.round(this.options.memoryBudget!.heapUsedMB())}MB)`
+        );
+      }
+      // Wait for a file to finish, or for the heap to be checked again
+      await Promise.race([
+        ...running,
+        ...(heapFull
+          ? [new Promise((resolve) => setTimeout(resolve, this.memoryPollMs))]
+          : []),
+      ]);
+    }
+
+    await Promise.all(running);
+    return results;
+  }
+}
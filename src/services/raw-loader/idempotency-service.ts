@@ -1,8 +1,12 @@
-import type { IdempotencyCheck } from "./types/raw-loader";
+import type {
+  FileCompletionDetails,
+  IdempotencyCheck,
+  LoadCheckpoint,
+} from "./types/raw-loader";
 import type { DiscoveredFile } from "../../services/discovery/types/files";
 import { db } from "../../db/client";
 import { loadRunFiles } from "../../db/schema/etl/audit";
-import { eq, and } from "drizzle-orm";
+import { eq, and, ne, sql } from "drizzle-orm";
 
 /**
  * Idempotency Service - prevents duplicate file processing
@@ -130,6 +134,9 @@ export class IdempotencyService {
             startedAt: now,
             updatedAt: now,
             errorMessage: null, // Clear any previous errors
+            attemptCount: sql`${loadRunFiles.attemptCount} + 1`,
+            loadMode: fileMetadata.parsed.isFullLoad ? "full" : "delta",
+            s3Etag: fileMetadata.etag,
           })
           .where(eq(loadRunFiles.loadRunFileId, loadRunFileId));
       } else {
@@ -142,10 +149,12 @@ export class IdempotencyService {
             s3Key: fileMetadata.s3Key,
             s3VersionId: fileMetadata.s3VersionId,
             fileHash: fileMetadata.fileHash || "",
-            dateExtracted: fileMetadata.parsed.dateExtracted,
+            s3Etag: fileMetadata.etag,
+            dateExtracted: fileMetadata.parsed.dateExtracted.toISOString(),
             extractType: fileMetadata.parsed.extractType,
             perOrgId: fileMetadata.parsed.perOrgId,
             practiceId: fileMetadata.parsed.practiceId,
+            loadMode: fileMetadata.parsed.isFullLoad ? "full" : "delta",
             status: "processing",
             startedAt: now,
           })
@@ -191,14 +200,75 @@ export class IdempotencyService {
     }
   }
 
+  /**
+   * Get the last checkpoint of a file's load, or null when no batch of it
+   * was committed
+   */
+  async getCheckpoint(loadRunFileId: number): Promise<LoadCheckpoint | null> {
+    const [record] = await db
+      .select({
+        rowNumber: loadRunFiles.checkpointRowNumber,
+        byteOffset: loadRunFiles.checkpointByteOffset,
+        rowsIngested: loadRunFiles.rowsIngested,
+        rowsRejected: loadRunFiles.rowsRejected,
+      })
+      .from(loadRunFiles)
+      .where(eq(loadRunFiles.loadRunFileId, loadRunFileId))
+      .limit(1);
+
+    if (!record?.rowNumber) {
+      return null;
+    }
+
+    return {
+      rowNumber: record.rowNumber,
+      byteOffset: record.byteOffset ?? 0,
+      rowsIngested: record.rowsIngested ?? 0,
+      rowsRejected: record.rowsRejected ?? 0,
+    };
+  }
+
+  /**
+   * Record how far a file has loaded, or clear it with null
+   * Fails open: a missed checkpoint only means a resume redoes more rows
+   */
+  async saveCheckpoint(
+    loadRunFileId: number,
+    checkpoint: LoadCheckpoint | null
+  ): Promise<void> {
+    const now = new Date();
+
+    try {
+      await db
+        .update(loadRunFiles)
+        .set({
+          checkpointRowNumber: checkpoint?.rowNumber ?? null,
+          checkpointByteOffset: checkpoint?.byteOffset ?? null,
+          checkpointAt: checkpoint ? now : null,
+          rowsRead: checkpoint?.rowNumber ?? 0,
+          rowsIngested: checkpoint?.rowsIngested ?? 0,
+          rowsRejected: checkpoint?.rowsRejected ?? 0,
+          updatedAt: now,
+        })
+        .where(eq(loadRunFiles.loadRunFileId, loadRunFileId));
+    } catch (error) {
+      console.warn(
+        `Failed to save checkpoint for load_run_file_id ${loadRunFileId}:`,
+        error
+      );
+    }
+  }
+
   /**
    * Mark a file as completed
    * Updates database record and cache
+   * @param rowCount - Rows loaded into the raw table
    */
   async markFileCompleted(
     fileMetadata: DiscoveredFile,
     loadRunId: string,
-    rowCount: number
+    rowCount: number,
+    details: FileCompletionDetails = {}
   ): Promise<void> {
     const key = this.generateKey(fileMetadata);
     const now = new Date();
@@ -212,8 +282,13 @@ export class IdempotencyService {
           finishedAt: now,
           updatedAt: now,
           rowsIngested: rowCount,
-          rowsRead: rowCount, // Assuming all rows were read successfully
+          rowsRead: details.rowsRead ?? rowCount,
+          rowsRejected: details.rowsRejected ?? 0,
           errorMessage: null,
+          contentHash: details.contentHash,
+          duplicateOfS3Key: details.duplicateOfS3Key,
+          bytesRead: details.bytesRead,
+          detectedEncoding: details.detectedEncoding,
         })
         .where(
           and(
@@ -361,6 +436,35 @@ export class IdempotencyService {
     }
   }
 
+  /**
+   * Find a completed file with identical content under a different key
+   * Returns the earliest such file's key, or null if the content is new
+   */
+  async findContentDuplicate(
+    fileMetadata: DiscoveredFile,
+    contentHash: string
+  ): Promise<string | null> {
+    try {
+      const duplicates = await db
+        .select({ s3Key: loadRunFiles.s3Key })
+        .from(loadRunFiles)
+        .where(
+          and(
+            eq(loadRunFiles.contentHash, contentHash),
+            eq(loadRunFiles.status, "completed"),
+            ne(loadRunFiles.s3Key, fileMetadata.s3Key)
+          )
+        )
+        .orderBy(loadRunFiles.createdAt)
+        .limit(1);
+
+      return duplicates.length > 0 ? duplicates[0].s3Key : null;
+    } catch (error) {
+      console.error("Failed to check for duplicate content:", error);
+      return null;
+    }
+  }
+
   /**
    * Check if file should be skipped based on processing status
    */
@@ -51,6 +51,7 @@ export type {
   RawLoaderConfig, // Main configuration for the raw loader service
   DatabaseConfig, // Database connection and pool configuration
   ProcessingConfig, // Data processing behavior configuration
+  RawLoadMethod, // COPY or INSERT for landing rows in raw.* tables
   CSVConfig, // CSV parsing and validation configuration
   ErrorHandlingConfig, // Error handling and recovery configuration
   MonitoringConfig, // Monitoring and logging configuration
@@ -68,6 +69,7 @@ export type {
   LoadStatus, // Enumeration of possible load operation statuses
   ProcessingBatchResult, // Result for a single batch within a processing plan
   ProcessingPlanResult, // Result for a complete processing plan execution
+  LoadRunPracticeSummary, // Per-practice file and row totals for a load run
 } from "./types/raw-loader";
 
 /**
@@ -65,6 +65,7 @@ export class LoadMonitor {
       totalBytesProcessed: metrics.totalBytesProcessed,
       averageRowsPerSecond: metrics.averageRowsPerSecond,
       errorRate: metrics.errorRate,
+      retryCount: metrics.retryCount,
       memoryPeakUsageMB: metrics.memoryPeakUsageMB,
       throughputMBps: metrics.throughputMBps,
     });
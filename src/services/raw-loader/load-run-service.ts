@@ -1,12 +1,13 @@
 import { db } from "../../db/client";
-import { loadRuns } from "../../db/schema/etl/audit";
-import { eq } from "drizzle-orm";
+import { loadRunFiles, loadRuns } from "../../db/schema/etl/audit";
+import { eq, sql } from "drizzle-orm";
 import { BaseRunService } from "../shared/base-run-service";
 import type {
   CreateLoadRunParams,
   UpdateLoadRunParams,
   LoadRunRecord,
   LoadRunStatus,
+  LoadRunPracticeSummary,
 } from "./types/raw-loader";
 
 /**
@@ -108,6 +109,28 @@ export class LoadRunService extends BaseRunService<
     });
   }
 
+  /**
+   * Get file and row totals for a load run grouped by practice
+   */
+  async getPracticeSummary(runId: string): Promise<LoadRunPracticeSummary[]> {
+    const results = await this.db
+      .select({
+        perOrgId: loadRunFiles.perOrgId,
+        practiceId: loadRunFiles.practiceId,
+        totalFiles: sql<number>`count(*)::int`,
+        completedFiles: sql<number>`count(*) filter (where ${loadRunFiles.status} = 'completed')::int`,
+        failedFiles: sql<number>`count(*) filter (where ${loadRunFiles.status} = 'failed')::int`,
+        totalRowsIngested: sql<number>`coalesce(sum(${loadRunFiles.rowsIngested}), 0)::int`,
+        totalRowsRejected: sql<number>`coalesce(sum(${loadRunFiles.rowsRejected}), 0)::int`,
+      })
+      .from(loadRunFiles)
+      .where(eq(loadRunFiles.loadRunId, runId))
+      .groupBy(loadRunFiles.perOrgId, loadRunFiles.practiceId)
+      .orderBy(loadRunFiles.perOrgId, loadRunFiles.practiceId);
+
+    return results as LoadRunPracticeSummary[];
+  }
+
   // Legacy method aliases for backward compatibility
   async createLoadRun(params: CreateLoadRunParams): Promise<string> {
     return this.createRun(params);
@@ -4,8 +4,13 @@ import {
   fromIni,
   fromInstanceMetadata,
 } from "@aws-sdk/credential-providers";
-import type { S3Config } from "../../services/discovery/types/config";
+import type {
+  S3Config,
+  FileSourceConfig,
+} from "../../services/discovery/types/config";
+import type { FileSystemAdapter } from "../../services/discovery/adapters/file-system-adapter";
 import { S3FileSystemAdapter } from "../../services/discovery/adapters/s3-file-system-adapter";
+import { LocalFileSystemAdapter } from "../../services/discovery/adapters/local-file-system-adapter";
 import type { RawLoaderConfig } from "./types/config";
 import { ErrorHandler } from "./error-handler";
 import { LoadMonitor } from "./load-monitor";
@@ -22,28 +27,32 @@ import { Logger } from "../shared/utils/logger";
 export class RawLoaderFactory {
   static create(
     config: RawLoaderConfig,
-    s3Config?: S3Config
+    source?: S3Config | FileSourceConfig
   ): RawLoaderService {
-    // Create S3 client and adapter if S3 config is provided
-    let fileSystemAdapter: S3FileSystemAdapter;
+    if (!source) {
+      throw new Error(
+        "S3 or local source configuration is required for RawLoaderService"
+      );
+    }
 
-    if (s3Config) {
-      // Initialize AWS S3 Client with proper credential management
-      const s3Client = new S3Client({
-        region: s3Config.region,
-        credentials: this.getCredentialProvider(),
-        maxAttempts: s3Config.retryAttempts || 3,
-      });
+    // A bare S3Config is accepted for backward compatibility
+    const sourceConfig: FileSourceConfig =
+      "type" in source ? source : { type: "s3", s3: source };
 
-      // Create S3 file system adapter
-      fileSystemAdapter = new S3FileSystemAdapter(s3Client, s3Config);
-    } else {
-      throw new Error("S3 configuration is required for RawLoaderService");
-    }
+    const fileSystemAdapter = this.createFileSystemAdapter(sourceConfig);
 
     const errorHandler = new ErrorHandler(config.errorHandling);
     const monitor = new LoadMonitor(config.monitoring);
-    const tableLoader = new RawTableLoader(config.database, errorHandler);
+    // Retries of S3 opens and batch loads are counted in the run metrics
+    const retryPolicy = errorHandler.createRetryPolicy(() =>
+      monitor.recordRetry()
+    );
+    const tableLoader = new RawTableLoader(
+      config.database,
+      errorHandler,
+      config.processing,
+      retryPolicy
+    );
     const handlerFactory = new ExtractHandlerFactory();
     const idempotencyService = new IdempotencyService();
     const logger = new Logger(config.logging);
@@ -56,10 +65,31 @@ export class RawLoaderFactory {
       monitor,
       fileSystemAdapter,
       config,
-      logger
+      logger,
+      retryPolicy
     );
   }
 
+  /**
+   * Create the file system adapter for the configured source
+   */
+  private static createFileSystemAdapter(
+    source: FileSourceConfig
+  ): FileSystemAdapter {
+    if (source.type === "local") {
+      return new LocalFileSystemAdapter(source.local);
+    }
+
+    // Initialize AWS S3 Client with proper credential management
+    const s3Client = new S3Client({
+      region: source.s3.region,
+      credentials: this.getCredentialProvider(),
+      maxAttempts: source.s3.retryAttempts || 3,
+    });
+
+    return new S3FileSystemAdapter(s3Client, source.s3);
+  }
+
   /**
    * Determine the appropriate credential provider based on environment
    */
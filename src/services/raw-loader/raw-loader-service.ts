@@ -2,6 +2,7 @@ import { Readable } from "node:stream";
 import type {
   RawLoadOptions,
   LoadResult,
+  LoadCheckpoint,
   LoadProgress,
   LoadMetrics,
   ProcessingPlanResult,
@@ -19,14 +20,23 @@ import type {
 } from "../../services/discovery/types/files";
 import type { ProcessingPlan } from "../../services/discovery/types/discovery";
 import type { FileSystemAdapter } from "../../services/discovery/adapters/file-system-adapter";
+import {
+  FileIntegrityService,
+  HashingStream,
+} from "../../services/discovery/file-integrity-service";
+import { ArchiveReader } from "../../services/discovery/archive-reader";
 import type { RawLoaderConfig } from "./types/config";
+import { DefaultProcessingConfig } from "./types/config";
 import { RawTableLoader } from "./raw-table-loader";
+import { FileLoadScheduler } from "./file-load-scheduler";
+import type { RoundTripOptions } from "./round-trip-verifier";
 import { ExtractHandlerFactory } from "./extract-handler-factory";
 import { IdempotencyService } from "./idempotency-service";
 import { LineageService } from "./lineage-service";
 import { ErrorHandler } from "./error-handler";
 import { LoadMonitor } from "./load-monitor";
 import type { Logger } from "../shared/utils/logger";
+import { NoRetryPolicy, type RetryPolicy } from "../shared/retry-policy";
 
 /**
  * Main Raw Loader Service - orchestrates the entire loading process
@@ -38,7 +48,10 @@ export class RawLoaderService {
   private errorHandler: ErrorHandler;
   private monitor: LoadMonitor;
   private fileSystemAdapter: FileSystemAdapter;
+  private integrityService: FileIntegrityService;
+  private archiveReader: ArchiveReader;
   private logger: Logger;
+  private retryPolicy: RetryPolicy;
   public tableLoader: RawTableLoader;
   public handlerFactory: ExtractHandlerFactory;
 
@@ -52,7 +65,8 @@ export class RawLoaderService {
     monitor: LoadMonitor,
     fileSystemAdapter: FileSystemAdapter,
     config: RawLoaderConfig,
-    logger: Logger
+    logger: Logger,
+    retryPolicy: RetryPolicy = NoRetryPolicy
   ) {
     this.config = config;
     this.tableLoader = tableLoader;
@@ -62,7 +76,10 @@ export class RawLoaderService {
     this.errorHandler = errorHandler;
     this.monitor = monitor;
     this.fileSystemAdapter = fileSystemAdapter;
+    this.integrityService = new FileIntegrityService(fileSystemAdapter);
+    this.archiveReader = new ArchiveReader(fileSystemAdapter);
     this.logger = logger;
+    this.retryPolicy = retryPolicy;
   }
 
   /**
@@ -124,25 +141,83 @@ export class RawLoaderService {
         file.parsed.extractType
       );
 
-      // Get file stream (this would come from S3 adapter)
+      // An earlier attempt at this file may have left rows behind
+      const resumeFrom =
+        idempotencyCheck.loadRunFileId !== undefined
+          ? await this.prepareRerun(
+              file,
+              loadRunFileId,
+              handler.tableName,
+              idempotencyCheck.isProcessed
+            )
+          : undefined;
+
+      // Get file stream (this would come from S3 adapter), hashing the content
+      // as it is loaded
       const stream = await this.getFileStream(file);
+      const hashingStream = new HashingStream();
+      stream.on("error", (error) => hashingStream.destroy(error));
+      stream.pipe(hashingStream);
 
       // Load the data into the database from the stream
-      const result = await this.tableLoader.loadFromStream(stream, {
+      const result = await this.tableLoader.loadFromStream(hashingStream, {
         ...loadOptions,
         extractType: file.parsed.extractType,
         tableName: handler.tableName,
         loadRunFileId,
         columns: handler.columnMapping,
+        resumeFrom,
+        onCheckpoint: (checkpoint) =>
+          this.idempotencyService.saveCheckpoint(loadRunFileId, checkpoint),
       });
 
+      // Report CSV bytes, and the stored bytes for compressed files
+      result.bytesProcessed = hashingStream.byteCount;
+      if ((file.compression ?? "none") !== "none") {
+        result.compressedBytes = file.fileSize;
+      }
+
       // Mark as completed if successful
       if (result.successfulBatches > 0) {
+        const contentHash = hashingStream.contentHash ?? undefined;
+        const duplicateOf = contentHash
+          ? await this.checkContentHash(
+              file,
+              contentHash,
+              result,
+              handler.tableName,
+              loadRunFileId
+            )
+          : undefined;
+
         await this.idempotencyService.markFileCompleted(
           file,
           loadRunId,
-          result.totalRows
+          result.rowsIngested ?? result.totalRows,
+          {
+            contentHash,
+            duplicateOfS3Key: duplicateOf,
+            bytesRead: hashingStream.byteCount,
+            detectedEncoding: result.encoding,
+            rowsRead: result.totalRows,
+            rowsRejected: result.rowsRejected,
+          }
         );
+
+        const sampleRows = this.config.processing.roundTripSampleRows ?? 0;
+        if (sampleRows > 0) {
+          await this.verifyRoundTrip(
+            file,
+            {
+              loadRunFileId,
+              tableName: handler.tableName,
+              columns: handler.columnMapping,
+              sampleRows,
+              encoding: result.encoding,
+            },
+            result
+          );
+        }
       }
 
       return result;
@@ -183,6 +258,8 @@ export class RawLoaderService {
 
   /**
    * Load multiple files in parallel
+   * Files share processing.maxConcurrentFiles slots, large files taking
+   * several, and wait to start while the heap is over processing.maxMemoryMB
    */
   async loadMultipleFiles(
     files: DiscoveredFile[],
@@ -197,91 +274,60 @@ export class RawLoaderService {
       loadOptions.maxConcurrentFiles ??
       this.config.processing.maxConcurrentFiles;
 
-    // Initialize results array, this will store the results of each file load
+    const scheduler = new FileLoadScheduler({
+      maxConcurrentFiles: maxConcurrent,
+      largeFileMB:
+        this.config.processing.largeFileMB ??
+        DefaultProcessingConfig.largeFileMB!,
+      memoryBudget: this.tableLoader.memoryBudget,
+    });
+
+    // Results by file as they finish, for progress updates
     const results: LoadResult[] = [];
+    let filesFinished = 0;
     const startTime = new Date(); // Track overall start time
-    let totalFilesProcessed = 0;
 
     console.log(
       `📦 Starting batch load: ${files.length} files, max concurrent: ${maxConcurrent}`
     );
 
-    // Take all the files and put them into batches of maxConcurrent so that we can process them in parallel
-    for (let i = 0; i < files.length; i += maxConcurrent) {
-      // Get the batch of files to process, we process in batches to control concurrency
-      const batch = files.slice(i, i + maxConcurrent);
-      const batchNum = Math.floor(i / maxConcurrent) + 1;
-      const totalBatches = Math.ceil(files.length / maxConcurrent);
+    await scheduler.run(
+      files,
+      // This function is where we load the file into the database
+      (file) => this.loadFile(file, loadRunId, loadOptions),
+      async (outcome, index) => {
+        results[index] = this.toLoadResult(outcome);
+        filesFinished++;
 
-      console.log(
-        `🔄 Processing batch ${batchNum}/${totalBatches} (${batch.length} files)`
-      );
-
-      // Create an array of promises for each file in the batch, this will allow us to process the files in parallel
-      const batchPromises = batch.map((file) =>
-        // This function is where we load the file into the database
-        this.loadFile(file, loadRunId, loadOptions)
-      );
-
-      // Use Promise.allSettled for better error resilience
-      const batchResults = await Promise.allSettled(batchPromises);
+        // Update progress with accurate metrics
+        if (this.config.monitoring.enableProgressTracking) {
+          const aggregatedMetrics = this.aggregateResults(
+            results.filter(Boolean)
+          );
 
-      // Handle both fulfilled and rejected promises
-      for (const result of batchResults) {
-        if (result.status === "fulfilled") {
-          results.push(result.value);
-        } else {
-          // Unexpected rejection (loadFile should catch its errors)
-          console.error("Unexpected promise rejection:", result.reason);
-          results.push({
-            totalRows: 0,
-            successfulBatches: 0,
-            failedBatches: 1,
-            errors: [
-              {
-                errorType: LoadErrorType.DATABASE_ERROR,
-                message: result.reason?.message ?? "Unknown error",
-                timestamp: new Date(),
-                isRetryable: false,
-              },
-            ],
-            warnings: [],
-            durationMs: 0,
-            bytesProcessed: 0,
-            rowsPerSecond: 0,
-            memoryUsageMB: 0,
+          await this.monitor.updateProgress({
+            fileKey: `batch_operation_${loadRunId}`,
+            extractType: files[0]?.parsed.extractType ?? "multiple",
+            totalRows: aggregatedMetrics.totalRows,
+            processedRows: aggregatedMetrics.totalRows,
+            currentBatch: filesFinished,
+            totalBatches: files.length,
+            estimatedTimeRemaining: this.estimateTimeRemaining(
+              startTime,
+              filesFinished,
+              files.length
+            ),
+            currentStatus: LoadStatus.PROCESSING,
+            errors: aggregatedMetrics.errors,
+            warnings: aggregatedMetrics.warnings,
+            bytesProcessed: aggregatedMetrics.bytesProcessed,
+            memoryUsageMB: aggregatedMetrics.memoryUsageMB,
+            startTime,
+            lastUpdate: new Date(),
           });
         }
       }
-
-      totalFilesProcessed += batch.length;
-
-      // Update progress with accurate metrics
-      if (this.config.monitoring.enableProgressTracking) {
-        const aggregatedMetrics = this.aggregateResults(results);
-
-        await this.monitor.updateProgress({
-          fileKey: `batch_operation_${loadRunId}`,
-          extractType: files[0]?.parsed.extractType ?? "multiple",
-          totalRows: aggregatedMetrics.totalRows,
-          processedRows: aggregatedMetrics.totalRows,
-          currentBatch: batchNum,
-          totalBatches,
-          estimatedTimeRemaining: this.estimateTimeRemaining(
-            startTime,
-            totalFilesProcessed,
-            files.length
-          ),
-          currentStatus: LoadStatus.PROCESSING,
-          errors: aggregatedMetrics.errors,
-          warnings: aggregatedMetrics.warnings,
-          bytesProcessed: aggregatedMetrics.bytesProcessed,
-          memoryUsageMB: aggregatedMetrics.memoryUsageMB,
-          startTime,
-          lastUpdate: new Date(),
-        });
-      }
-    }
+    );
 
     const aggregated = this.aggregateResults(results);
     console.log(
@@ -292,6 +338,37 @@ export class RawLoaderService {
     return results;
   }
 
+  /**
+   * Result of a file load, or a failed result if it rejected
+   */
+  private toLoadResult(outcome: PromiseSettledResult<LoadResult>): LoadResult {
+    if (outcome.status === "fulfilled") {
+      return outcome.value;
+    }
+
+    // Unexpected rejection (loadFile should catch its errors)
+    console.error("Unexpected promise rejection:", outcome.reason);
+    return {
+      totalRows: 0,
+      successfulBatches: 0,
+      failedBatches: 1,
+      errors: [
+        {
+          errorType: LoadErrorType.DATABASE_ERROR,
+          message:
+            (outcome.reason as Error | undefined)?.message ?? "Unknown error",
+          timestamp: new Date(),
+          isRetryable: false,
+        },
+      ],
+      warnings: [],
+      durationMs: 0,
+      bytesProcessed: 0,
+      rowsPerSecond: 0,
+      memoryUsageMB: 0,
+    };
+  }
+
   /**
    * Load multiple batches of files from a processing plan
    * Processes each batch sequentially, with configurable concurrency within each batch
@@ -499,6 +576,8 @@ export class RawLoaderService {
         errors: [...acc.errors, ...(result.errors ?? [])],
         warnings: [...acc.warnings, ...(result.warnings ?? [])],
         bytesProcessed: acc.bytesProcessed + (result.bytesProcessed ?? 0),
+        compressedBytes:
+          (acc.compressedBytes ?? 0) + (result.compressedBytes ?? 0),
         memoryUsageMB: Math.max(acc.memoryUsageMB, result.memoryUsageMB ?? 0),
         durationMs: acc.durationMs + (result.durationMs ?? 0),
         rowsPerSecond: 0, // Calculated separately if needed
@@ -510,6 +589,7 @@ export class RawLoaderService {
         errors: [] as LoadError[],
         warnings: [] as LoadWarning[],
         bytesProcessed: 0,
+        compressedBytes: 0,
         memoryUsageMB: 0,
         durationMs: 0,
         rowsPerSecond: 0,
@@ -584,20 +664,7 @@ export class RawLoaderService {
    * Get current metrics
    */
   async getMetrics(): Promise<LoadMetrics> {
-    // This would retrieve metrics from the monitor
-    return {
-      filesProcessed: 0,
-      totalRowsLoaded: 0,
-      totalBytesProcessed: 0,
-      averageRowsPerSecond: 0,
-      averageProcessingTimeMs: 0,
-      errorRate: 0,
-      retryCount: 0,
-      memoryPeakUsageMB: 0,
-      databaseConnectionsUsed: 0,
-      throughputMBps: 0,
-      averageLatencyMs: 0,
-    };
+    return this.monitor.getMetrics();
   }
 
   /**
@@ -659,6 +726,53 @@ export class RawLoaderService {
 
   // Private helper methods
 
+  /**
+   * Verify the loaded content against the file's checksum and look for
+   * content already loaded under another key
+   * On a checksum mismatch the file's rows are deleted from its raw table,
+   * as the content they came from is corrupt, and an error is thrown.
+   * Returns the duplicated key, if any, and adds a warning to the result
+   */
+  private async checkContentHash(
+    file: DiscoveredFile,
+    contentHash: string,
+    result: LoadResult,
+    tableName: string,
+    loadRunFileId: number
+  ): Promise<string | undefined> {
+    if (
+      this.integrityService.verifyContentHash(contentHash, file.checksum) ===
+      false
+    ) {
+      const deleted = await this.tableLoader.discardRowsAfter(
+        tableName,
+        loadRunFileId,
+        0
+      );
+      await this.idempotencyService.saveCheckpoint(loadRunFileId, null);
+      console.warn(
+        `🧹 ${file.s3Key}: ${deleted} rows removed from ${tableName} after a content hash mismatch`
+      );
+      throw new Error(
+        `Content hash mismatch for ${file.s3Key}: expected checksum ${file.checksum}, got SHA-256 ${contentHash}`
+      );
+    }
+
+    const duplicateOf =
+      (await this.idempotencyService.findContentDuplicate(file, contentHash)) ??
+      file.duplicateOf;
+    if (duplicateOf) {
+      result.warnings.push({
+        message: `File has the same content as ${duplicateOf}`,
+        fileKey: file.s3Key,
+        timestamp: new Date(),
+        severity: "medium",
+      });
+    }
+
+    return duplicateOf;
+  }
+
   private applyLoadOptionDefaults(
     loadRunId: string,
     options?: Partial<RawLoadOptions>
@@ -672,18 +786,102 @@ export class RawLoaderService {
       validateRowCount: options?.validateRowCount ?? true,
       skipValidation: options?.skipValidation ?? false,
       maxConcurrentFiles: options?.maxConcurrentFiles,
+      errorThreshold:
+        options?.errorThreshold ?? this.config.errorHandling.errorThreshold,
     };
   }
 
+  /**
+   * Clear the rows an earlier attempt at a file left in raw.* and
+   * etl.raw_rejects. Resuming keeps the rows up to its last checkpoint and
+   * deletes the uncommitted tail; restarting, or reloading a completed file,
+   * deletes them all
+   * @returns Checkpoint to carry on from, if resuming
+   */
+  private async prepareRerun(
+    file: DiscoveredFile,
+    loadRunFileId: number,
+    tableName: string,
+    wasCompleted: boolean
+  ): Promise<LoadCheckpoint | undefined> {
+    const checkpoint =
+      !wasCompleted && this.config.processing.resumeMode !== "restart"
+        ? await this.idempotencyService.getCheckpoint(loadRunFileId)
+        : null;
+
+    const deleted = await this.tableLoader.discardRowsAfter(
+      tableName,
+      loadRunFileId,
+      checkpoint?.rowNumber ?? 0
+    );
+    if (checkpoint) {
+      console.log(
+        `⏯️ ${file.s3Key}: resuming from row ${checkpoint.rowNumber} (byte ${checkpoint.byteOffset}), ${deleted} uncommitted rows removed`
+      );
+      return checkpoint;
+    }
+
+    if (deleted > 0) {
+      console.log(
+        `🧹 ${file.s3Key}: loading from scratch, ${deleted} rows of an earlier attempt removed`
+      );
+    }
+    await this.idempotencyService.saveCheckpoint(loadRunFileId, null);
+    return undefined;
+  }
+
+  /**
+   * Read the file again and compare sampled rows with what landed in raw.*
+   * Mismatches are reported as warnings; the load itself stands
+   */
+  private async verifyRoundTrip(
+    file: DiscoveredFile,
+    options: RoundTripOptions,
+    result: LoadResult
+  ): Promise<void> {
+    try {
+      const verification = await this.tableLoader.verifyRoundTrip(
+        await this.getFileStream(file),
+        options
+      );
+
+      for (const mismatch of verification.mismatches) {
+        result.warnings.push({
+          message: `Row ${mismatch.rowNumber} does not round-trip from ${options.tableName}`,
+          fileKey: file.s3Key,
+          rowNumber: mismatch.rowNumber,
+          rawRow: mismatch.sourceText,
+          timestamp: new Date(),
+          severity: "high",
+        });
+      }
+
+      if (verification.mismatches.length > 0) {
+        console.warn(
+          `⚠️ ${verification.mismatches.length} of ${verification.sampledRows} sampled rows of ${file.s3Key} differ from ${options.tableName}`
+        );
+      } else {
+        console.log(
+          `🔁 ${verification.sampledRows} sampled rows of ${file.s3Key} round-trip exactly`
+        );
+      }
+    } catch (error) {
+      console.warn(`Could not verify ${file.s3Key} round-trip:`, error);
+    }
+  }
+
   async getFileStream(fileMetadata: DiscoveredFile): Promise<Readable> {
     console.log(`📁 Attempting to get file stream for: ${fileMetadata.s3Key}`);
     console.log(`🔍 Extract type: ${fileMetadata.parsed.extractType}`);
     console.log(`📦 Bucket: ${fileMetadata.s3Bucket}`);
 
     try {
-      // Get the actual file stream from S3 using the file system adapter
-      const stream = await this.fileSystemAdapter.getFileStream(
-        fileMetadata.s3Key
+      // Get the actual file stream from S3 using the file system adapter,
+      // decompressing gzipped files and zip entries as they stream.
+      // Throttling and dropped connections are retried
+      const stream = await this.retryPolicy.execute(
+        `Open ${fileMetadata.s3Key}`,
+        () => this.archiveReader.openFile(fileMetadata)
       );
       console.log(`✅ Successfully retrieved file stream from S3`);
 
@@ -4,22 +4,44 @@ import type {
   LineageData,
   RawLoadOptions,
   LoadResult,
+  RawReject,
+  LoadCheckpoint,
+  SchemaDriftReport,
 } from "./types/raw-loader";
-import type { DatabaseConfig } from "./types/config";
-import { IndiciCsvSeparators } from "./types/config";
-import type { CSVRow } from "./csv-parser";
+import type {
+  DatabaseConfig,
+  ProcessingConfig,
+  SchemaDriftPolicy,
+} from "./types/config";
+import { DefaultProcessingConfig, IndiciCsvSeparators } from "./types/config";
+import type { CSVRow, ParsedRecord } from "./csv-parser";
 import { CSVParser } from "./csv-parser";
 import type { ErrorHandler } from "./error-handler";
 import { DatabasePool } from "../shared/database-pool";
 import { BatchLoader } from "../shared/batch-loader";
+import { MemoryBudget } from "../shared/memory-budget";
+import { NoRetryPolicy, type RetryPolicy } from "../shared/retry-policy";
+import { RoundTripVerifier } from "./round-trip-verifier";
+import { SchemaDriftDetector } from "./schema-drift-detector";
+import type { RoundTripOptions, RoundTripResult } from "./round-trip-verifier";
 import {
   StreamBatchProcessor,
   type StreamLoadResult,
 } from "@/services/shared/stream-batch-processor";
-import type { InsertBatch } from "../shared/types";
+import type { BatchResult, InsertBatch } from "../shared/types";
 
 type CSVRowValue = string | number | boolean | Date;
 
+// A parsed row and its position in the file, from 1
+export interface NumberedRow {
+  rowNumber: number;
+  values: CSVRowValue[];
+  overflowFields?: string[]; // Fields past the extract's columns, kept by the "overflow" drift policy
+}
+
+const fieldText = (value: CSVRowValue): string =>
+  value instanceof Date ? value.toISOString() : String(value ?? "");
+
 /**
  * Raw Table Loader - Handles database operations for loading CSV data
  * Uses shared DatabasePool and BatchLoader for generic database operations
@@ -28,26 +50,80 @@ export class RawTableLoader {
   private dbPool: DatabasePool;
   private batchLoader: BatchLoader;
   private errorHandler: ErrorHandler;
+  // Shared by the files this loader streams at once
+  readonly memoryBudget: MemoryBudget;
 
-  constructor(databaseConfig: DatabaseConfig, errorHandler: ErrorHandler) {
+  constructor(
+    databaseConfig: DatabaseConfig,
+    errorHandler: ErrorHandler,
+    private processingConfig: ProcessingConfig = DefaultProcessingConfig,
+    retryPolicy: RetryPolicy = NoRetryPolicy
+  ) {
     this.dbPool = new DatabasePool(databaseConfig);
-    this.batchLoader = new BatchLoader(this.dbPool, errorHandler);
+    this.batchLoader = new BatchLoader(this.dbPool, errorHandler, retryPolicy);
     this.errorHandler = errorHandler;
+    this.memoryBudget = new MemoryBudget({
+      maxHeapMB: processingConfig.maxMemoryMB,
+      maxQueuedMB: processingConfig.bufferSizeMB,
+    });
+  }
+
+  /**
+   * Split off rows whose field count does not match the extract's columns,
+   * so one malformed row does not fail the rest of its batch. Rejects keep
+   * the text the row was parsed from
+   * @param firstRowNumber - Row number of the first row within the file
+   * @param keepOverflow - Load rows with extra fields, the extras kept apart
+   */
+  splitMalformedRows(
+    records: ParsedRecord[],
+    columnCount: number,
+    firstRowNumber: number,
+    keepOverflow = false
+  ): { valid: NumberedRow[]; rejects: RawReject[] } {
+    const valid: NumberedRow[] = [];
+    const rejects: RawReject[] = [];
+
+    records.forEach(({ record: row, rawText }, index) => {
+      if (row.length === columnCount) {
+        valid.push({ rowNumber: firstRowNumber + index, values: row });
+        return;
+      }
+      if (keepOverflow && row.length > columnCount) {
+        valid.push({
+          rowNumber: firstRowNumber + index,
+          values: row.slice(0, columnCount),
+          overflowFields: row.slice(columnCount).map(fieldText),
+        });
+        return;
+      }
+
+      rejects.push({
+        rowNumber: firstRowNumber + index,
+        reason: "field_count_mismatch",
+        expectedFieldCount: columnCount,
+        actualFieldCount: row.length,
+        rowText: rawText,
+      });
+    });
+
+    return { valid, rejects };
   }
 
   private prepareBatch(
-    values: CSVRowValue[][],
+    rows: NumberedRow[],
     loadRunFileId: number,
     options: RawLoadOptions & {
       extractType: string;
       tableName: string;
       columns: string[];
     },
-    batchNumber: number
+    batchNumber: number,
+    withOverflow = false
   ): InsertBatch {
     const tableName = options.tableName || `raw.${options.extractType}`;
 
-    if (values.length === 0) {
+    if (rows.length === 0) {
       throw new Error("Cannot prepare batch: no rows provided");
     }
 
@@ -56,20 +132,27 @@ export class RawTableLoader {
     }
 
     const processedValues: any[][] = [];
-    const expectedColumnCount = options.columns.length + 1; // +1 for load_run_file_id
+    const lineageColumns = ["load_run_file_id", "source_row_number"];
+    const overflowColumns = withOverflow ? ["overflow_fields"] : [];
+    const expectedColumnCount =
+      lineageColumns.length + options.columns.length + overflowColumns.length;
 
-    for (const row of values) {
-      // Map values for all columns (load_run_file_id first, then business columns)
+    for (const row of rows) {
+      // Map values for all columns (lineage columns first, then business columns)
       const rowValues = [
         loadRunFileId,
-        ...row.map((col: CSVRowValue) => col ?? ""),
+        row.rowNumber,
+        ...row.values.map((col: CSVRowValue) => col ?? ""),
+        ...(withOverflow
+          ? [row.overflowFields ? JSON.stringify(row.overflowFields) : null]
+          : []),
       ];
 
       // Validate parameter count to catch data inconsistencies early
       if (rowValues.length !== expectedColumnCount) {
         throw new Error(
           `Parameter count mismatch for batch ${batchNumber}: expected ${expectedColumnCount} columns ` +
-            `(1 load_run_file_id + ${options.columns.length} data columns), ` +
+            `(${[...lineageColumns, ...overflowColumns].join(", ")} + ${options.columns.length} data columns), ` +
             `but got ${rowValues.length} values. ` +
             `Row data: ${JSON.stringify(rowValues.slice(0, 10))}...`
         );
@@ -81,7 +164,7 @@ export class RawTableLoader {
 
     return {
       tableName,
-      columns: ["load_run_file_id", ...options.columns],
+      columns: [...lineageColumns, ...options.columns, ...overflowColumns],
       values: processedValues,
       rowCount: processedValues.length,
       batchNumber,
@@ -96,6 +179,8 @@ export class RawTableLoader {
       extractType: string;
       tableName: string;
       columns: string[];
+      resumeFrom?: LoadCheckpoint; // Rows up to here are already loaded and are skipped
+      onCheckpoint?: (checkpoint: LoadCheckpoint) => Promise<void>;
     }
   ): Promise<LoadResult> {
     const loadRunFileId = options.loadRunFileId;
@@ -103,45 +188,337 @@ export class RawTableLoader {
       throw new Error("loadRunFileId is required for raw table loading");
     }
 
-    const batchSize = this.batchLoader.calculateOptimalBatchSize(
-      options.columns.length,
-      options.batchSize
-    );
+    // COPY has no parameter limit, so its chunks are sized separately
+    const useCopy = (this.processingConfig.loadMethod ?? "copy") === "copy";
+    const batchSize = useCopy
+      ? (this.processingConfig.copyChunkRows ??
+        DefaultProcessingConfig.copyChunkRows!)
+      : this.batchLoader.calculateOptimalBatchSize(
+          options.columns.length,
+          options.batchSize
+        );
 
+    const fieldSeparator =
+      options.fieldSeparator ?? IndiciCsvSeparators.fieldSeparator;
     const csvParser = new CSVParser({
-      fieldSeparator:
-        options.fieldSeparator ?? IndiciCsvSeparators.fieldSeparator,
+      fieldSeparator,
       rowSeparator: options.rowSeparator ?? IndiciCsvSeparators.rowSeparator,
       hasHeaders: false,
       skipEmptyRows: true,
+      encoding: this.processingConfig.encodingOverrides?.[options.extractType],
+      mode: this.processingConfig.parseMode,
+      separatorCheckBytes:
+        (this.processingConfig.separatorCheckKB ??
+          DefaultProcessingConfig.separatorCheckKB!) * 1024,
+      rawText: true,
     });
 
     const processor = new StreamBatchProcessor();
 
-    // Define the batch executor that handles database insertion
+    // Batches run one at a time in file order, so row numbers follow on
+    const resumeAfterRow = options.resumeFrom?.rowNumber ?? 0;
+    let rowsRead = 0;
+    let rowsIngested = options.resumeFrom?.rowsIngested ?? 0;
+    let rowsRejected = options.resumeFrom?.rowsRejected ?? 0;
+    let fileError: Error | undefined;
+
+    // Every row is counted, skipped or not, so the report covers the file
+    const driftPolicy = this.schemaDriftPolicy(options.extractType);
+    const drift = new SchemaDriftDetector(options.columns.length);
+    if (resumeAfterRow > 0) {
+      console.log(
+        `⏯️ Resuming after row ${resumeAfterRow}; earlier rows are parsed and skipped`
+      );
+    }
+
+    // Define the batch executor that handles database loading
     const batchExecutor = async (
-      rows: CSVRowValue[][],
+      rows: ParsedRecord[],
       batchNumber: number
-    ) => {
-      const batch = this.prepareBatch(
+    ): Promise<BatchResult> => {
+      const startTime = Date.now();
+      if (fileError) {
+        // Batches already queued when the file failed are not loaded
+        return {
+          ...this.combineResults(batchNumber, startTime),
+          success: false,
+        };
+      }
+
+      rows.forEach(({ record }, index) =>
+        drift.observe(record, rowsRead + 1 + index)
+      );
+      if (driftPolicy === "fail" && drift.hasDrift) {
+        fileError = new Error(
+          `Schema drift in ${options.extractType}: ${drift.describe()}. ` +
+            `Update the handler's columns, or set processing.schemaDriftPolicies for this extract`
+        );
+        csvParser.parser.destroy(fileError);
+        return {
+          ...this.combineResults(batchNumber, startTime),
+          success: false,
+        };
+      }
+
+      const split = this.splitMalformedRows(
         rows,
-        loadRunFileId,
-        options,
-        batchNumber
+        options.columns.length,
+        rowsRead + 1,
+        driftPolicy === "overflow"
       );
-      return await this.batchLoader.executeBatch(batch, {
-        continueOnError: options.continueOnError,
-      });
+      rowsRead += rows.length;
+
+      // Rows a previous attempt committed are not loaded again
+      const valid = split.valid.filter((row) => row.rowNumber > resumeAfterRow);
+      const rejects = split.rejects.filter(
+        (reject) => reject.rowNumber > resumeAfterRow
+      );
+
+      let recorded: BatchResult | undefined;
+      if (rejects.length > 0) {
+        rowsRejected += rejects.length;
+        recorded = await this.recordRejects(
+          rejects,
+          loadRunFileId,
+          batchNumber
+        );
+      }
+
+      let loaded: BatchResult | undefined;
+      if (valid.length > 0) {
+        const batch = this.prepareBatch(
+          valid,
+          loadRunFileId,
+          options,
+          batchNumber,
+          driftPolicy === "overflow"
+        );
+        const executeOptions = { continueOnError: options.continueOnError };
+        loaded = useCopy
+          ? await this.batchLoader.executeCopy(batch, executeOptions)
+          : await this.batchLoader.executeBatch(batch, executeOptions);
+        rowsIngested += loaded.rowsInserted;
+      }
+
+      return this.combineResults(batchNumber, startTime, loaded, recorded);
     };
 
     // Delegate stream processing to the specialized service
-    return await processor.processStream(stream, csvParser, batchExecutor, {
-      batchSize,
-      maxQueueSize: 5,
-      progressLogInterval: 500,
+    let result: LoadResult;
+    try {
+      result = await processor
+        .processStream(stream, csvParser, batchExecutor, {
+          batchSize,
+          memoryBudget: this.memoryBudget,
+          progressLogInterval: 500,
+          // Batches still being skipped would move the checkpoint backwards
+          onCheckpoint: async (checkpoint) => {
+            if (options.onCheckpoint && checkpoint.rowNumber > resumeAfterRow) {
+              await options.onCheckpoint({
+                ...checkpoint,
+                rowsIngested,
+                rowsRejected,
+              });
+            }
+          },
+        })
+        .catch((error: unknown) => {
+          // Failing the file destroys the parser, which rejects the stream
+          throw fileError ?? error;
+        });
+    } finally {
+      // Reported for a failed file too, as drift is what fails it
+      if (drift.hasDrift) {
+        await this.recordSchemaDrift(
+          drift.report(),
+          loadRunFileId,
+          options.extractType,
+          driftPolicy
+        );
+      }
+    }
+    if (fileError) {
+      throw fileError;
+    }
+
+    // Judged on the whole file, as rejects can bunch up in a few batches
+    const threshold = options.errorThreshold;
+    if (threshold !== undefined && rowsRejected / rowsRead > threshold) {
+      throw new Error(
+        `${rowsRejected} of ${rowsRead} rows rejected, over the ${threshold * 100}% error threshold`
+      );
+    }
+
+    result.encoding = csvParser.encoding ?? undefined;
+    result.rowsIngested = rowsIngested;
+    result.rowsRejected = rowsRejected;
+    if (drift.hasDrift) {
+      result.schemaDrift = drift.report();
+      result.warnings.push({
+        message:
+          `Schema drift in ${options.extractType}: ${drift.describe()}; ` +
+          (driftPolicy === "overflow"
+            ? "extra fields were loaded into overflow_fields and short rows rejected"
+            : "those rows were rejected"),
+        fileKey: loadRunFileId.toString(),
+        timestamp: new Date(),
+        severity: "high",
+      });
+    }
+    if (rowsRejected > 0) {
+      console.warn(
+        `⚠️ ${rowsRejected} of ${rowsRead} rows had the wrong number of fields and were sent to etl.raw_rejects`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Delete rows of a file after a row number from its raw table and from
+   * etl.raw_rejects, leaving what a previous attempt committed up to its
+   * checkpoint. Rows without a row number are deleted too; 0 deletes them all
+   * @returns Raw table rows deleted
+   */
+  async discardRowsAfter(
+    tableName: string,
+    loadRunFileId: number,
+    rowNumber: number
+  ): Promise<number> {
+    return this.dbPool.transaction(async (client) => {
+      const deleted = await client.query(
+        `DELETE FROM ${tableName}
+         WHERE load_run_file_id = $1
+           AND (source_row_number IS NULL OR source_row_number > $2)`,
+        [loadRunFileId, rowNumber]
+      );
+      await client.query(
+        `DELETE FROM etl.raw_rejects
+         WHERE load_run_file_id = $1 AND row_number > $2`,
+        [loadRunFileId, rowNumber]
+      );
+      // Drift is reported again for the whole file once it has loaded
+      await client.query(
+        `DELETE FROM etl.schema_drift WHERE load_run_file_id = $1`,
+        [loadRunFileId]
+      );
+      return deleted.rowCount ?? 0;
     });
   }
 
+  /**
+   * Drift policy for an extract: its own setting, else the default
+   */
+  private schemaDriftPolicy(extractType: string): SchemaDriftPolicy {
+    return (
+      this.processingConfig.schemaDriftPolicies?.[extractType] ??
+      this.processingConfig.schemaDriftPolicy ??
+      DefaultProcessingConfig.schemaDriftPolicy!
+    );
+  }
+
+  /**
+   * Write a file's drift report to etl.schema_drift
+   * Fails open: the rows are already loaded, rejected or failed by policy
+   */
+  private async recordSchemaDrift(
+    report: SchemaDriftReport,
+    loadRunFileId: number,
+    extractType: string,
+    policy: SchemaDriftPolicy
+  ): Promise<void> {
+    console.warn(
+      `⚠️ Schema drift in ${extractType} (policy "${policy}"): ${report.driftedRows} of ${report.rowsObserved} rows have other than ${report.expectedFieldCount} fields`
+    );
+    try {
+      await this.dbPool.query(
+        `INSERT INTO etl.schema_drift (
+           load_run_file_id, extract_type, policy, expected_field_count,
+           rows_observed, drifted_rows, field_counts, samples
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          loadRunFileId,
+          extractType,
+          policy,
+          report.expectedFieldCount,
+          report.rowsObserved,
+          report.driftedRows,
+          JSON.stringify(report.fieldCounts),
+          JSON.stringify(report.samples),
+        ]
+      );
+    } catch (error) {
+      console.warn(
+        `Failed to record schema drift for load_run_file_id ${loadRunFileId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Write rejected rows to etl.raw_rejects
+   */
+  private async recordRejects(
+    rejects: RawReject[],
+    loadRunFileId: number,
+    batchNumber: number
+  ): Promise<BatchResult> {
+    return this.batchLoader.executeCopy({
+      tableName: "etl.raw_rejects",
+      columns: [
+        "load_run_file_id",
+        "row_number",
+        "reason",
+        "expected_field_count",
+        "actual_field_count",
+        "row_text",
+      ],
+      values: rejects.map((reject) => [
+        loadRunFileId,
+        reject.rowNumber,
+        reject.reason,
+        reject.expectedFieldCount,
+        reject.actualFieldCount,
+        reject.rowText,
+      ]),
+      rowCount: rejects.length,
+      batchNumber,
+    });
+  }
+
+  /**
+   * One result for a batch's raw rows and its rejects; rowsInserted only
+   * counts rows loaded into the raw table
+   */
+  private combineResults(
+    batchNumber: number,
+    startTime: number,
+    loaded?: BatchResult,
+    recorded?: BatchResult
+  ): BatchResult {
+    const results = [loaded, recorded].filter(
+      (result): result is BatchResult => result !== undefined
+    );
+    return {
+      batchNumber,
+      rowsInserted: loaded?.rowsInserted ?? 0,
+      errors: results.flatMap((r) => r.errors),
+      warnings: results.flatMap((r) => r.warnings),
+      durationMs: Date.now() - startTime,
+      success: results.every((r) => r.success),
+    };
+  }
+
+  /**
+   * Rebuild sampled rows of a loaded file from its raw table and compare
+   * them with the source
+   */
+  async verifyRoundTrip(
+    source: Readable,
+    options: RoundTripOptions
+  ): Promise<RoundTripResult> {
+    return new RoundTripVerifier(this.dbPool).verify(source, options);
+  }
+
   /**
    * Close database connections
    */
@@ -0,0 +1,159 @@
+/**
+ * Round-Trip Verifier
+ * Proves a file landed in raw.* unchanged: samples rows from the source,
+ * rebuilds them from their raw table and compares the two byte for byte
+ */
+
+import type { Readable } from "node:stream";
+import type { DatabasePool } from "../shared/database-pool";
+import { DecodingStream } from "./encoding-detector";
+import type { FileEncoding } from "./types/config";
+import { IndiciCsvSeparators } from "./types/config";
+
+export interface SourceRow {
+  rowNumber: number; // Position among the file's rows, from 1, as numbered by the parser
+  text: string;
+}
+
+export interface RoundTripMismatch {
+  rowNumber: number;
+  sourceText: string;
+  rawText: string | null; // Raw row of the same number rebuilt, or null when there is none
+}
+
+export interface RoundTripResult {
+  sampledRows: number;
+  matchedRows: number;
+  mismatches: RoundTripMismatch[];
+}
+
+export interface RoundTripOptions {
+  loadRunFileId: number;
+  tableName: string;
+  columns: string[];
+  sampleRows: number;
+  encoding?: FileEncoding; // As the file was loaded; detected again when unset
+  fieldSeparator?: string;
+  rowSeparator?: string;
+}
+
+export class RoundTripVerifier {
+  constructor(
+    private dbPool: DatabasePool,
+    private random: () => number = Math.random
+  ) {}
+
+  /**
+   * Compare sampled source rows with the rows rebuilt from the raw table
+   * The sampled rows are fetched in one query by load_run_file_id and
+   * source_row_number, then joined with the field separator, followed by any
+   * overflow fields; a row matches when it has the same UTF-8 bytes as the
+   * decoded source row
+   */
+  async verify(
+    source: Readable,
+    options: RoundTripOptions
+  ): Promise<RoundTripResult> {
+    const fieldSeparator =
+      options.fieldSeparator ?? IndiciCsvSeparators.fieldSeparator;
+    const sample = await this.sampleSourceRows(
+      source,
+      options.sampleRows,
+      options.encoding,
+      options.rowSeparator
+    );
+
+    const result: RoundTripResult = {
+      sampledRows: sample.length,
+      matchedRows: 0,
+      mismatches: [],
+    };
+    const query = await this.dbPool.query(
+      `SELECT source_row_number, ${options.columns.join(", ")}, overflow_fields
+       FROM ${options.tableName}
+       WHERE load_run_file_id = $1 AND source_row_number = ANY($2::int[])`,
+      [options.loadRunFileId, sample.map((row) => row.rowNumber)]
+    );
+    const rawTexts = new Map<number, string>(
+      query.rows.map((raw: Record<string, unknown>) => [
+        Number(raw.source_row_number),
+        RoundTripVerifier.rebuildRow(
+          [
+            ...options.columns.map((column) => raw[column] as string | null),
+            ...((raw.overflow_fields as string[] | null) ?? []),
+          ],
+          fieldSeparator
+        ),
+      ])
+    );
+
+    for (const row of sample) {
+      const rawText = rawTexts.get(row.rowNumber) ?? null;
+      if (
+        rawText !== null &&
+        Buffer.from(rawText, "utf8").equals(Buffer.from(row.text, "utf8"))
+      ) {
+        result.matchedRows++;
+      } else {
+        result.mismatches.push({
+          rowNumber: row.rowNumber,
+          sourceText: row.text,
+          rawText,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Pick rows evenly at random from the whole file in one pass (reservoir
+   * sampling), numbered like the parser numbers them: empty rows are skipped
+   */
+  async sampleSourceRows(
+    source: Readable,
+    sampleRows: number,
+    encoding?: FileEncoding,
+    rowSeparator: string = IndiciCsvSeparators.rowSeparator
+  ): Promise<SourceRow[]> {
+    const decoder = new DecodingStream({ encoding, rowSeparator });
+    source.on("error", (error) => decoder.destroy(error));
+
+    const sample: SourceRow[] = [];
+    let rowNumber = 0;
+    let pending = "";
+    const take = (text: string): void => {
+      if (text === "") {
+        return;
+      }
+      rowNumber++;
+      if (sample.length < sampleRows) {
+        sample.push({ rowNumber, text });
+        return;
+      }
+      const slot = Math.floor(this.random() * rowNumber);
+      if (slot < sampleRows) {
+        sample[slot] = { rowNumber, text };
+      }
+    };
+
+    for await (const chunk of source.pipe(decoder)) {
+      const rows = (pending + (chunk as Buffer).toString("utf8")).split(
+        rowSeparator
+      );
+      pending = rows.pop() ?? "";
+      rows.forEach(take);
+    }
+    take(pending);
+
+    return sample.sort((a, b) => a.rowNumber - b.rowNumber);
+  }
+
+  /**
+   * Source text of a raw row: its columns in order, joined with the field
+   * separator. COPY and INSERT load empty fields as empty strings, not NULL
+   */
+  static rebuildRow(values: (string | null)[], fieldSeparator: string): string {
+    return values.map((value) => value ?? "").join(fieldSeparator);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Schema Drift Detector
+ * Indici adds columns to extracts without warning. The parser accepts rows of
+ * any length, so this counts the fields of every row in a file against the
+ * extract's columns and keeps a few drifted rows of each length as samples
+ */
+
+import type { SchemaDriftReport, SchemaDriftSample } from "./types/raw-loader";
+
+type CSVRowValue = string | number | boolean | Date;
+
+// Drifted rows kept as samples for each field count
+const SAMPLES_PER_FIELD_COUNT = 3;
+
+export class SchemaDriftDetector {
+  private fieldCounts = new Map<number, number>();
+  private rowsObserved = 0;
+  private driftedRows = 0;
+  private samples: SchemaDriftSample[] = [];
+
+  constructor(
+    private expectedFieldCount: number,
+    private samplesPerFieldCount: number = SAMPLES_PER_FIELD_COUNT
+  ) {}
+
+  /**
+   * Count a parsed row's fields
+   * @param rowNumber - Position among the file's parsed rows, from 1
+   * @returns Whether the row has more or fewer fields than the columns
+   */
+  observe(row: CSVRowValue[], rowNumber: number): boolean {
+    const fieldCount = row.length;
+    const rowsWithCount = (this.fieldCounts.get(fieldCount) ?? 0) + 1;
+    this.fieldCounts.set(fieldCount, rowsWithCount);
+    this.rowsObserved++;
+
+    if (fieldCount === this.expectedFieldCount) {
+      return false;
+    }
+
+    this.driftedRows++;
+    if (rowsWithCount <= this.samplesPerFieldCount) {
+      const first = Math.min(fieldCount, this.expectedFieldCount) + 1;
+      const last = Math.max(fieldCount, this.expectedFieldCount);
+      this.samples.push({
+        rowNumber,
+        fieldCount,
+        positions: Array.from(
+          { length: last - first + 1 },
+          (_, i) => first + i
+        ),
+        extraValues: row
+          .slice(this.expectedFieldCount)
+          .map((value) =>
+            value instanceof Date ? value.toISOString() : String(value ?? "")
+          ),
+      });
+    }
+    return true;
+  }
+
+  get hasDrift(): boolean {
+    return this.driftedRows > 0;
+  }
+
+  report(): SchemaDriftReport {
+    return {
+      expectedFieldCount: this.expectedFieldCount,
+      rowsObserved: this.rowsObserved,
+      driftedRows: this.driftedRows,
+      fieldCounts: Object.fromEntries(
+        [...this.fieldCounts].sort(([a], [b]) => a - b)
+      ),
+      samples: this.samples,
+    };
+  }
+
+  /**
+   * One line on how a file's field counts differ, e.g.
+   * "3 of 1200 rows have other than 47 fields (48 fields: 3)"
+   */
+  describe(): string {
+    const counts = [...this.fieldCounts]
+      .filter(([fieldCount]) => fieldCount !== this.expectedFieldCount)
+      .sort(([a], [b]) => a - b)
+      .map(([fieldCount, rows]) => `${fieldCount} fields: ${rows}`)
+      .join(", ");
+    return `${this.driftedRows} of ${this.rowsObserved} rows have other than ${this.expectedFieldCount} fields (${counts})`;
+  }
+}
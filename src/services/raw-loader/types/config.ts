@@ -30,14 +30,43 @@ export interface DatabaseConfig {
   retryDelayMs?: number;
 }
 
+// How rows land in raw.* tables: COPY FROM STDIN, or multi-row INSERTs
+export type RawLoadMethod = "copy" | "insert";
+
+// Text encodings of extract files, detected from the start of each file
+export type FileEncoding = "utf16le" | "utf16be" | "utf8" | "windows1252";
+
+// How fields are parsed for raw.*: "lossless" keeps the exact source text;
+// "cast" trims, unquotes and casts numbers and dates as csv-parse sees fit
+export type RawParseMode = "lossless" | "cast";
+
+// Rerunning a file an earlier attempt did not finish: "resume" keeps the rows
+// up to its last checkpoint, "restart" deletes them and loads from the top
+export type ResumeMode = "resume" | "restart";
+
+// What to do when a file's rows have more or fewer fields than its extract's
+// columns: "fail" the file, "warn" and reject those rows, or "overflow" to
+// load extra trailing fields into the raw table's overflow_fields column
+export type SchemaDriftPolicy = "fail" | "warn" | "overflow";
+
 export interface ProcessingConfig {
   batchSize: number;
-  maxConcurrentFiles: number;
-  maxMemoryMB: number;
+  maxConcurrentFiles: number; // Slots for files loading at once; large files take several
+  maxMemoryMB: number; // Heap limit: over it, files stop reading ahead and no new file starts
   enableStreaming: boolean;
-  bufferSizeMB: number;
+  bufferSizeMB: number; // Parsed rows each file may queue for loading before it stops reading
   continueOnError?: boolean;
   forceReprocess?: boolean;
+  loadMethod?: RawLoadMethod; // Default "copy"; a failed COPY chunk is re-run through INSERT to find the offending rows
+  copyChunkRows?: number; // Rows per COPY statement (default: 10000)
+  encodingOverrides?: Partial<Record<string, FileEncoding>>; // By extract type; skips detection for that extract
+  separatorCheckKB?: number; // Fail a file with no row separator in its first N KB (default: 64)
+  parseMode?: RawParseMode; // Default "lossless"
+  roundTripSampleRows?: number; // Rows per file rebuilt from raw.* and compared with the source after loading (default: 0, off)
+  resumeMode?: ResumeMode; // Default "resume"
+  largeFileMB?: number; // A file takes one concurrency slot per this many MB (default: 256)
+  schemaDriftPolicy?: SchemaDriftPolicy; // Default "warn"
+  schemaDriftPolicies?: Partial<Record<string, SchemaDriftPolicy>>; // By extract type; overrides schemaDriftPolicy
 }
 
 export interface CSVConfig {
@@ -81,6 +110,14 @@ export const DefaultRawLoaderConfig: RawLoaderConfig = {
     enableStreaming: true,
     bufferSizeMB: 16,
     continueOnError: true,
+    loadMethod: "copy",
+    copyChunkRows: 10000,
+    separatorCheckKB: 64,
+    parseMode: "lossless",
+    roundTripSampleRows: 0,
+    resumeMode: "resume",
+    schemaDriftPolicy: "warn",
+    largeFileMB: 256,
   },
   errorHandling: {
     maxRetries: 3,
@@ -117,6 +154,14 @@ export const DefaultProcessingConfig: ProcessingConfig = {
   enableStreaming: true,
   bufferSizeMB: 16,
   continueOnError: true,
+  loadMethod: "copy",
+  copyChunkRows: 10000,
+  separatorCheckKB: 64,
+  parseMode: "lossless",
+  roundTripSampleRows: 0,
+  resumeMode: "resume",
+  schemaDriftPolicy: "warn",
+  largeFileMB: 256,
 };
 
 export const DefaultCsvConfig: CSVConfig = {
@@ -1,4 +1,5 @@
 import type { CSVRow } from "./csv";
+import type { FileEncoding } from "./config";
 import type {
   LoadError,
   LoadWarning,
@@ -36,6 +37,81 @@ export interface RawLoadOptions {
   fieldSeparator?: string;
   /** CSV row delimiter character (default: '\n') */
   rowSeparator?: string;
+  /** Share of rows that may be rejected before the file fails (default: no limit) */
+  errorThreshold?: number;
+}
+
+/**
+ * How far a file load got, recorded on etl.load_run_files after each
+ * committed batch so a rerun can carry on from there
+ */
+export interface LoadCheckpoint {
+  /** Last row handled, loaded or rejected, from 1 */
+  rowNumber: number;
+  /** CSV bytes read by then */
+  byteOffset: number;
+  /** Rows loaded into the raw table up to rowNumber */
+  rowsIngested: number;
+  /** Rows sent to etl.raw_rejects up to rowNumber */
+  rowsRejected: number;
+}
+
+/**
+ * What was learnt about a file while loading it, recorded on
+ * etl.load_run_files when it completes
+ */
+export interface FileCompletionDetails {
+  /** SHA-256 of the CSV content, hex */
+  contentHash?: string;
+  /** Key of an earlier file with the same content */
+  duplicateOfS3Key?: string;
+  /** CSV bytes read */
+  bytesRead?: number;
+  /** Encoding the file was decoded from */
+  detectedEncoding?: string;
+  /** Rows parsed from the file, loaded or rejected (default: rowCount) */
+  rowsRead?: number;
+  /** Rows sent to etl.raw_rejects */
+  rowsRejected?: number;
+}
+
+/**
+ * A parsed row sent to etl.raw_rejects instead of its raw table
+ */
+export interface RawReject {
+  /** Position among the file's parsed rows, from 1 */
+  rowNumber: number;
+  reason: "field_count_mismatch";
+  expectedFieldCount: number;
+  actualFieldCount: number;
+  /** Parsed fields joined with the field separator */
+  rowText: string;
+}
+
+/**
+ * A row whose field count differs from its extract's columns
+ */
+export interface SchemaDriftSample {
+  /** Position among the file's parsed rows, from 1 */
+  rowNumber: number;
+  fieldCount: number;
+  /** Field positions, from 1, that the row has beyond the columns or is missing */
+  positions: number[];
+  /** Values of the extra fields; empty when fields are missing */
+  extraValues: string[];
+}
+
+/**
+ * Field counts seen in a file compared with its extract's columns,
+ * written to etl.schema_drift when any row differs
+ */
+export interface SchemaDriftReport {
+  expectedFieldCount: number;
+  rowsObserved: number;
+  driftedRows: number;
+  /** Rows by field count */
+  fieldCounts: Record<number, number>;
+  samples: SchemaDriftSample[];
 }
 
 /**
@@ -45,6 +121,10 @@ export interface RawLoadOptions {
 export interface LoadResult {
   /** Total number of rows processed across all batches */
   totalRows: number;
+  /** Rows loaded into the raw table */
+  rowsIngested?: number;
+  /** Rows sent to etl.raw_rejects */
+  rowsRejected?: number;
   /** Number of batches that completed successfully */
   successfulBatches: number;
   /** Number of batches that failed after all retry attempts */
@@ -57,6 +137,12 @@ export interface LoadResult {
   durationMs: number;
   /** Total bytes of data processed from source files */
   bytesProcessed: number;
+  /** Bytes read from storage, when the source file is compressed */
+  compressedBytes?: number;
+  /** Text encoding the file was read in, detected or overridden by config */
+  encoding?: FileEncoding;
+  /** Field counts that differed from the extract's columns, if any */
+  schemaDrift?: SchemaDriftReport;
   /** Processing throughput in rows per second */
   rowsPerSecond: number;
   /** Peak memory usage during processing in megabytes */
@@ -387,6 +473,27 @@ export interface LoadRunRecord {
   updatedAt: Date;
 }
 
+/**
+ * Per-practice totals for a load run, aggregated from load_run_files
+ * Used for run reporting when a run spans several organisations or practices
+ */
+export interface LoadRunPracticeSummary {
+  /** Indici organisation identifier */
+  perOrgId: string;
+  /** Practice identifier within the organisation */
+  practiceId: string;
+  /** Number of files recorded for this practice */
+  totalFiles: number;
+  /** Number of files that completed successfully */
+  completedFiles: number;
+  /** Number of files that failed */
+  failedFiles: number;
+  /** Total number of rows successfully ingested */
+  totalRowsIngested: number;
+  /** Total number of rows rejected due to validation errors */
+  totalRowsRejected: number;
+}
+
 /**
  * Result for a single batch within a processing plan
  * Contains aggregated results for all files in a batch
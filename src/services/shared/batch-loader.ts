@@ -1,16 +1,31 @@
+import type { PoolClient, QueryResult } from "pg";
 import type { DatabasePool } from "@/services/shared/database-pool";
 import type { ErrorHandler } from "@/services/raw-loader/error-handler";
-import type { InsertBatch, BatchResult } from "@/services/shared/types";
+import type {
+  InsertBatch,
+  BatchResult,
+  LoadError,
+} from "@/services/shared/types";
+import { CopyFromStdin } from "@/services/shared/copy-from-stdin";
+import {
+  NoRetryPolicy,
+  type RetryPolicy,
+} from "@/services/shared/retry-policy";
+
+// Parameters per INSERT, leaving a buffer below PostgreSQL's 65,535 limit
+const MAX_INSERT_PARAMS = 60000;
 
 /**
  * Generic batch loader for database operations
  * Handles batch insertion with transaction support and error handling
  * Can be used across all ETL layers (raw, staging, core)
+ * Transactions that fail with transient errors are retried by the retry policy
  */
 export class BatchLoader {
   constructor(
     private dbPool: DatabasePool,
-    private errorHandler: ErrorHandler
+    private errorHandler: ErrorHandler,
+    private retryPolicy: RetryPolicy = NoRetryPolicy
   ) {}
 
   /**
@@ -21,8 +36,7 @@ export class BatchLoader {
     columnCount: number,
     requestedBatchSize = 10
   ): number {
-    const maxParams = 60000; // Leave buffer below PostgreSQL limit
-    const maxRowsForColumns = Math.floor(maxParams / columnCount);
+    const maxRowsForColumns = Math.floor(MAX_INSERT_PARAMS / columnCount);
     const optimalBatchSize = Math.min(requestedBatchSize, maxRowsForColumns);
 
     if (requestedBatchSize > optimalBatchSize) {
@@ -75,34 +89,13 @@ export class BatchLoader {
 
     try {
       // Use transaction for batch insert
-      const result = await this.dbPool.transaction(async (client) => {
-        // Build parameterized query
-        const placeholders = validRows
-          .map((_, rowIndex) => {
-            const paramIndex = rowIndex * batch.columns.length + 1;
-            return `(${batch.columns
-              .map((_, colIndex) => `$${paramIndex + colIndex}`)
-              .join(", ")})`;
-          })
-          .join(", ");
-
-        const query = `
-          INSERT INTO ${batch.tableName} (${batch.columns.join(", ")})
-          VALUES ${placeholders}
-        `;
-
-        const flatValues = validRows.flat();
-
-        // Verify parameter count matches
-        const expectedParamCount = validRows.length * batch.columns.length;
-        if (flatValues.length !== expectedParamCount) {
-          throw new Error(
-            `Parameter count mismatch: expected ${expectedParamCount}, got ${flatValues.length}`
-          );
-        }
-
-        return await client.query(query, flatValues);
-      });
+      const result = await this.retryPolicy.execute(
+        `Batch ${batch.batchNumber} insert into ${batch.tableName}`,
+        () =>
+          this.dbPool.transaction((client) =>
+            this.insertRows(client, batch.tableName, batch.columns, validRows)
+          )
+      );
 
       return {
         batchNumber: batch.batchNumber,
@@ -144,6 +137,90 @@ export class BatchLoader {
     }
   }
 
+  /**
+   * Execute a batch with COPY FROM STDIN, which has no parameter limit and
+   * is much cheaper per row than INSERT
+   * A failed COPY loads nothing, so the batch is re-run through INSERT to
+   * load the good rows and report each offending row as an error
+   */
+  async executeCopy(
+    batch: InsertBatch,
+    options?: { continueOnError?: boolean }
+  ): Promise<BatchResult> {
+    const startTime = Date.now();
+
+    if (!batch.values || batch.values.length === 0) {
+      throw new Error(`Batch has no values to copy`);
+    }
+
+    if (!batch.columns || batch.columns.length === 0) {
+      throw new Error(`Batch has no columns defined`);
+    }
+
+    console.log(
+      `📦 Copying batch ${batch.batchNumber}: ${batch.values.length} rows, ${batch.columns.length} columns`
+    );
+
+    try {
+      const rowsCopied = await this.retryPolicy.execute(
+        `Batch ${batch.batchNumber} copy into ${batch.tableName}`,
+        () =>
+          this.dbPool.transaction((client) => {
+            const copy = client.query(
+              new CopyFromStdin(
+                `COPY ${batch.tableName} (${batch.columns.join(", ")}) FROM STDIN WITH (FORMAT csv)`,
+                CopyFromStdin.toCsv(batch.values)
+              )
+            );
+            return copy.result;
+          })
+      );
+
+      return {
+        batchNumber: batch.batchNumber,
+        rowsInserted: rowsCopied,
+        errors: [],
+        warnings: [],
+        durationMs: Date.now() - startTime,
+        success: true,
+      };
+    } catch (error) {
+      console.warn(
+        `⚠️  COPY of batch ${batch.batchNumber} failed, finding the offending rows with INSERT: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const rowsPerInsert = Math.max(
+      1,
+      Math.floor(MAX_INSERT_PARAMS / batch.columns.length)
+    );
+    const rows = batch.values.map((values, index) => ({ values, index }));
+    let rowsInserted = 0;
+    const errors: LoadError[] = [];
+
+    for (let i = 0; i < rows.length; i += rowsPerInsert) {
+      const result = await this.insertIsolatingErrors(
+        batch,
+        rows.slice(i, i + rowsPerInsert)
+      );
+      rowsInserted += result.rowsInserted;
+      errors.push(...result.errors);
+
+      if (errors.length > 0 && options?.continueOnError === false) {
+        break;
+      }
+    }
+
+    return {
+      batchNumber: batch.batchNumber,
+      rowsInserted,
+      errors,
+      warnings: [],
+      durationMs: Date.now() - startTime,
+      success: errors.length === 0,
+    };
+  }
+
   /**
    * Execute multiple batches in sequence
    */
@@ -166,6 +243,93 @@ export class BatchLoader {
     return results;
   }
 
+  /**
+   * Insert rows, halving any range that fails until the failing rows are on
+   * their own. Each offending row is reported with its index in the batch
+   */
+  private async insertIsolatingErrors(
+    batch: InsertBatch,
+    rows: { values: unknown[]; index: number }[]
+  ): Promise<{ rowsInserted: number; errors: LoadError[] }> {
+    try {
+      const result = await this.retryPolicy.execute(
+        `Batch ${batch.batchNumber} insert into ${batch.tableName}`,
+        () =>
+          this.dbPool.transaction((client) =>
+            this.insertRows(
+              client,
+              batch.tableName,
+              batch.columns,
+              rows.map((row) => row.values)
+            )
+          )
+      );
+      return { rowsInserted: result.rowCount || 0, errors: [] };
+    } catch (error) {
+      if (rows.length === 1) {
+        const loadError = await this.errorHandler.handleError(error, {
+          operation: "executeCopy",
+          tableName: batch.tableName,
+          batchNumber: batch.batchNumber,
+          batchRowIndex: rows[0].index,
+        });
+        loadError.rawRow = JSON.stringify(rows[0].values);
+        return { rowsInserted: 0, errors: [loadError] };
+      }
+
+      const middle = Math.ceil(rows.length / 2);
+      const first = await this.insertIsolatingErrors(
+        batch,
+        rows.slice(0, middle)
+      );
+      const second = await this.insertIsolatingErrors(
+        batch,
+        rows.slice(middle)
+      );
+      return {
+        rowsInserted: first.rowsInserted + second.rowsInserted,
+        errors: [...first.errors, ...second.errors],
+      };
+    }
+  }
+
+  /**
+   * Insert rows with one parameterised multi-row INSERT
+   */
+  private async insertRows(
+    client: PoolClient,
+    tableName: string,
+    columns: string[],
+    rows: unknown[][]
+  ): Promise<QueryResult> {
+    // Build parameterized query
+    const placeholders = rows
+      .map((_, rowIndex) => {
+        const paramIndex = rowIndex * columns.length + 1;
+        return `(${columns
+          .map((_, colIndex) => `$${paramIndex + colIndex}`)
+          .join(", ")})`;
+      })
+      .join(", ");
+
+    const query = `
+      INSERT INTO ${tableName} (${columns.join(", ")})
+      VALUES ${placeholders}
+    `;
+
+    const flatValues = rows.flat();
+
+    // Verify parameter count matches
+    const expectedParamCount = rows.length * columns.length;
+    if (flatValues.length !== expectedParamCount) {
+      throw new Error(
+        `Parameter count mismatch: expected ${expectedParamCount}, got ${flatValues.length}`
+      );
+    }
+
+    return await client.query(query, flatValues);
+  }
+
   /**
    * Build an INSERT query for upsert operations (ON CONFLICT)
    * Useful for staging and core layers with unique constraints
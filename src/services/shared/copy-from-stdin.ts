@@ -0,0 +1,92 @@
+import type { Connection, Submittable } from "pg";
+
+/**
+ * Connection methods node-postgres uses for the COPY sub-protocol
+ * They are not part of the published pg types
+ */
+interface CopyConnection {
+  query(text: string): void;
+  sendCopyFromChunk(chunk: Buffer): void;
+  endCopyFrom(): void;
+}
+
+// Bytes per CopyData message
+const COPY_MESSAGE_BYTES = 64 * 1024;
+
+/**
+ * COPY ... FROM STDIN as a node-postgres submittable
+ * Pass it to client.query() and await `result` for the number of rows copied.
+ * The data is sent as soon as the server is ready for it; a failed COPY
+ * copies nothing
+ */
+export class CopyFromStdin implements Submittable {
+  readonly result: Promise<number>;
+  private resolve!: (rowCount: number) => void;
+  private reject!: (error: Error) => void;
+  private rowCount = 0;
+
+  constructor(
+    private text: string,
+    private data: Buffer
+  ) {
+    this.result = new Promise<number>((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+  }
+
+  submit(connection: Connection): void {
+    (connection as unknown as CopyConnection).query(this.text);
+  }
+
+  handleCopyInResponse(connection: Connection): void {
+    const copyConnection = connection as unknown as CopyConnection;
+    for (let i = 0; i < this.data.length; i += COPY_MESSAGE_BYTES) {
+      copyConnection.sendCopyFromChunk(
+        this.data.subarray(i, i + COPY_MESSAGE_BYTES)
+      );
+    }
+    copyConnection.endCopyFrom();
+  }
+
+  /**
+   * The command tag reads "COPY <rows>"
+   */
+  handleCommandComplete(message: { text?: string }): void {
+    this.rowCount = parseInt(message.text?.split(" ")[1] ?? "0") || 0;
+  }
+
+  handleReadyForQuery(): void {
+    this.resolve(this.rowCount);
+  }
+
+  handleError(error: Error): void {
+    this.reject(error);
+  }
+
+  /**
+   * Encode rows as COPY CSV. Every value is quoted, so empty values load as
+   * empty strings like the INSERT path rather than as NULL; null is left
+   * unquoted and loads as NULL, as it does through INSERT
+   */
+  static toCsv(rows: unknown[][]): Buffer {
+    const lines = rows.map((row) =>
+      row.map((value) => CopyFromStdin.quote(value)).join(",")
+    );
+    return Buffer.from(lines.join("\n") + "\n", "utf8");
+  }
+
+  private static quote(value: unknown): string {
+    let text: string;
+    if (value === null || value === undefined) {
+      return "";
+    } else if (value instanceof Date) {
+      text = value.toISOString();
+    } else if (typeof value === "object") {
+      text = JSON.stringify(value);
+    } else {
+      text = String(value as string | number | boolean);
+    }
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+}
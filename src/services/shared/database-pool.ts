@@ -1,6 +1,21 @@
 import { Pool, type QueryResult, type PoolClient } from "pg";
 import type { DatabaseConfig } from "@/services/raw-loader/types/config";
 
+/**
+ * Roll back a client's transaction
+ * @returns The rollback's own error, if the client could not roll back
+ */
+export async function rollBack(client: {
+  query: (text: string) => Promise<unknown>;
+}): Promise<Error | undefined> {
+  try {
+    await client.query("ROLLBACK");
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
 /**
  * Generic database connection pool wrapper
  * Provides connection pooling, transaction support, and error handling
@@ -60,16 +75,20 @@ export class DatabasePool {
     callback: (client: PoolClient) => Promise<T>
   ): Promise<T> {
     const client = await this.pool.connect();
+    let rollbackError: Error | undefined;
     try {
       await client.query("BEGIN");
       const result = await callback(client);
       await client.query("COMMIT");
       return result;
     } catch (error) {
-      await client.query("ROLLBACK");
+      // A dropped connection cannot roll back; the error that dropped it is
+      // the one to throw, so a retry can see it was transient
+      rollbackError = await rollBack(client);
       throw error;
     } finally {
-      client.release();
+      // Released with an error, pg discards the client rather than reusing it
+      client.release(rollbackError);
     }
   }
 
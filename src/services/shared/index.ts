@@ -6,7 +6,10 @@
 export * from "./types";
 export * from "./database-pool";
 export * from "./batch-loader";
+export * from "./copy-from-stdin";
 export * from "./stream-batch-processor";
+export * from "./memory-budget";
+export * from "./retry-policy";
 
 /**
  * Shared services - common patterns and utilities for ETL stage services
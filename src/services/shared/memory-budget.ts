@@ -0,0 +1,42 @@
+/**
+ * Memory Budget
+ * Limits on the process heap and on rows parsed but not yet loaded, shared
+ * by the streams of files loading at the same time
+ */
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export interface MemoryBudgetOptions {
+  maxHeapMB: number; // Heap used by the whole process
+  maxQueuedMB: number; // Parsed rows waiting for their batch, per stream
+  heapUsed?: () => number; // Bytes; process.memoryUsage().heapUsed by default
+}
+
+export class MemoryBudget {
+  private readonly maxHeapBytes: number;
+  private readonly maxQueuedBytes: number;
+  private readonly heapUsed: () => number;
+
+  constructor(options: MemoryBudgetOptions) {
+    this.maxHeapBytes = options.maxHeapMB * BYTES_PER_MB;
+    this.maxQueuedBytes = options.maxQueuedMB * BYTES_PER_MB;
+    this.heapUsed =
+      options.heapUsed ?? ((): number => process.memoryUsage().heapUsed);
+  }
+
+  heapUsedMB(): number {
+    return this.heapUsed() / BYTES_PER_MB;
+  }
+
+  isHeapOverBudget(): boolean {
+    return this.heapUsed() > this.maxHeapBytes;
+  }
+
+  /**
+   * Whether a stream holding this many bytes of queued rows should stop
+   * reading until some of them are loaded
+   */
+  isOverBudget(queuedBytes: number): boolean {
+    return queuedBytes > this.maxQueuedBytes || this.isHeapOverBudget();
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Retry Policy
+ * Retries operations that fail for transient reasons, such as a dropped
+ * database connection or S3 throttling, with jittered exponential backoff.
+ * Errors that would fail again the same way, such as constraint violations
+ * or a missing S3 key, are thrown straight away
+ */
+
+// PostgreSQL SQLSTATE codes worth retrying; "08" is the connection exception class
+const RETRYABLE_PG_CODE_CLASSES = ["08"];
+const RETRYABLE_PG_CODES = new Set([
+  "40001", // serialization_failure
+  "40P01", // deadlock_detected
+  "53300", // too_many_connections
+  "55P03", // lock_not_available
+  "57P01", // admin_shutdown
+  "57P02", // crash_shutdown
+  "57P03", // cannot_connect_now
+]);
+
+// Socket errors from Node, raised by pg and the AWS SDK alike
+const RETRYABLE_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+]);
+
+// AWS SDK error names for throttling and server-side failures
+const RETRYABLE_AWS_ERRORS = new Set([
+  "ThrottlingException",
+  "Throttling",
+  "TooManyRequestsException",
+  "SlowDown",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "TimeoutError",
+  "InternalError",
+  "ServiceUnavailable",
+]);
+
+// pg and pg-pool raise these without a code when a connection is lost
+const RETRYABLE_PG_MESSAGES = [
+  "Connection terminated",
+  "timeout exceeded when trying to connect",
+];
+
+interface ErrorFields {
+  code?: unknown;
+  name?: unknown;
+  message?: unknown;
+  $retryable?: unknown;
+  $metadata?: { httpStatusCode?: number };
+}
+
+/**
+ * Whether an error from pg or the AWS SDK is likely to pass on a retry
+ */
+export function isTransientError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+  const { code, name, message, $retryable, $metadata } = error as ErrorFields;
+
+  if (typeof code === "string") {
+    if (RETRYABLE_NETWORK_CODES.has(code) || RETRYABLE_PG_CODES.has(code)) {
+      return true;
+    }
+    if (/^[0-9A-Z]{5}$/.test(code)) {
+      return RETRYABLE_PG_CODE_CLASSES.includes(code.slice(0, 2));
+    }
+  }
+
+  // AWS SDK v3 errors carry a name, and $metadata with the HTTP status
+  if ($retryable) {
+    return true;
+  }
+  if (typeof name === "string" && RETRYABLE_AWS_ERRORS.has(name)) {
+    return true;
+  }
+  const status = $metadata?.httpStatusCode;
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+
+  return (
+    typeof message === "string" &&
+    RETRYABLE_PG_MESSAGES.some((text) => message.includes(text))
+  );
+}
+
+export interface RetryEvent {
+  operation: string;
+  attempt: number; // Retry number, from 1
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryPolicyOptions {
+  maxRetries: number;
+  baseDelayMs: number; // Delay before the first retry, doubled for each one after
+  maxDelayMs?: number; // Default 30000
+  onRetry?: (event: RetryEvent) => void | Promise<void>;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export class RetryPolicy {
+  private readonly maxDelayMs: number;
+  private readonly random: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(private options: RetryPolicyOptions) {
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.random = options.random ?? Math.random;
+    this.sleep =
+      options.sleep ??
+      ((ms): Promise<void> =>
+        new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Delay before a retry: the exponential delay, capped, with its upper half
+   * jittered so retries from concurrent loads spread out
+   * @param attempt - Retry number, from 1
+   */
+  getDelay(attempt: number): number {
+    const delay = Math.min(
+      this.options.baseDelayMs * Math.pow(2, attempt - 1),
+      this.maxDelayMs
+    );
+    return Math.round(delay / 2 + (this.random() * delay) / 2);
+  }
+
+  /**
+   * Run an operation, retrying it while it fails with transient errors
+   * @param operation - Names the operation in logs and retry events
+   */
+  async execute<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (attempt > this.options.maxRetries || !isTransientError(error)) {
+          throw error;
+        }
+
+        const delayMs = this.getDelay(attempt);
+        console.warn(
+          `🔁 ${operation} failed (${error instanceof Error ? error.message : String(error)}), retry ${attempt}/${this.options.maxRetries} in ${delayMs}ms`
+        );
+        await this.options.onRetry?.({ operation, attempt, delayMs, error });
+        await this.sleep(delayMs);
+      }
+    }
+  }
+}
+
+// For callers built without a policy
+export const NoRetryPolicy = new RetryPolicy({ maxRetries: 0, baseDelayMs: 0 });
@@ -265,6 +265,8 @@ function validateExtractType(extractType: string): ValidationResult {
   // Define audit/ETL columns that should NOT be in staging transformations
   const excludedFromStaging = new Set([
     "load_run_file_id", // ETL lineage foreign key
+    "source_row_number", // ETL lineage row within the file
+    "overflow_fields", // ETL fields past the extract's columns (schema drift)
     "loaded_date_time", // ETL load timestamp
     "inserted_by", // Audit: who inserted
     "updated_by", // Audit: who last updated
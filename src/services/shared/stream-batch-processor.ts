@@ -1,5 +1,6 @@
 import { Readable } from "node:stream";
 import type { BatchResult, LoadError, LoadWarning } from "./types";
+import type { MemoryBudget } from "./memory-budget";
 
 type CSVRowValue = string | number | boolean | Date;
 
@@ -8,8 +9,19 @@ type CSVRowValue = string | number | boolean | Date;
  */
 export interface StreamProcessingOptions {
   batchSize: number;
-  maxQueueSize?: number;
+  maxQueueSize?: number; // Default 5; with a memoryBudget, as many batches as its queued bytes allow
   progressLogInterval?: number;
+  onCheckpoint?: (checkpoint: StreamCheckpoint) => Promise<void>; // Called after each committed batch
+  memoryBudget?: MemoryBudget; // Pause reading while over it, keeping at most one batch queued
+}
+
+/**
+ * How far a stream has been loaded: batches run in order, so every row up
+ * to rowNumber has been committed once the checkpoint is reported
+ */
+export interface StreamCheckpoint {
+  rowNumber: number; // Last row of the committed batch, from 1
+  byteOffset: number; // Stream bytes read when that row was parsed; read-ahead makes it an upper bound
 }
 
 /**
@@ -32,9 +44,11 @@ export interface StreamLoadResult {
   durationMs: number;
   bytesProcessed: number;
   rowsPerSecond: number;
-  memoryUsageMB: number;
+  memoryUsageMB: number; // Peak MB of the stream's rows queued or being loaded
 }
 
+type ProcessingState = ReturnType<StreamBatchProcessor["initializeState"]>;
+
 /**
  * Generic stream batch processor
  * Handles stream processing with batching, backpressure management, and progress tracking.
@@ -47,7 +61,7 @@ export interface StreamLoadResult {
  * Features:
  * - Stream event coordination (data, end, error)
  * - Batch accumulation and queue management
- * - Backpressure control (pause/resume)
+ * - Backpressure control (pause/resume) on queue length and memory budget
  * - Async batch processing coordination
  * - Progress monitoring and memory tracking
  */
@@ -70,14 +84,20 @@ export class StreamBatchProcessor {
     const startTime = Date.now();
     const state = this.initializeState(options);
 
+    stream.on("data", (chunk: Buffer | string) => {
+      state.bytesRead += chunk.length;
+    });
+
+    // Pausing the parser's output backs up the pipe, which stops reading
+    const rows = stream.pipe(parser.parser);
+
     return new Promise((resolve, reject) => {
-      stream
-        .pipe(parser.parser)
+      rows
         .on("data", (row: T) => {
           this.handleDataEvent(
             row,
             state,
-            stream,
+            rows,
             batchExecutor,
             options,
             reject
@@ -104,13 +124,27 @@ export class StreamBatchProcessor {
   private initializeState(options: StreamProcessingOptions) {
     return {
       rowNumber: 0,
+      rowsDone: 0, // Rows of batches that have run
+      checkpointHeld: false, // Set by a failed batch, whose rows must not be skipped on resume
+      bytesRead: 0,
+      queuedBytes: 0, // Stream bytes behind the rows queued or being loaded
+      lastQueuedOffset: 0,
+      peakQueuedBytes: 0,
+      memoryBudget: options.memoryBudget,
+      onCheckpoint: options.onCheckpoint,
       successfulBatches: 0,
       failedBatches: 0,
       batchedRows: [] as any[],
-      batchQueue: [] as { rows: any[]; batchNumber: number }[],
+      batchQueue: [] as {
+        rows: any[];
+        batchNumber: number;
+        byteOffset: number;
+        bytes: number;
+      }[],
       isProcessing: false,
       isStreamPaused: false,
-      maxQueueSize: options.maxQueueSize ?? 5,
+      maxQueueSize:
+        options.maxQueueSize ?? (options.memoryBudget ? Infinity : 5),
       progressLogInterval: options.progressLogInterval ?? 500,
       errors: [] as LoadError[],
       warnings: [] as LoadWarning[],
@@ -122,8 +156,8 @@ export class StreamBatchProcessor {
    */
   private handleDataEvent<T>(
     row: T,
-    state: any,
-    stream: Readable,
+    state: ProcessingState,
+    stream: NodeJS.ReadableStream,
     batchExecutor: BatchExecutor<T>,
     options: StreamProcessingOptions,
     reject: (reason?: any) => void
@@ -140,21 +174,20 @@ export class StreamBatchProcessor {
       // When batch is full, queue it for processing
       if (state.batchedRows.length >= options.batchSize) {
         const batchNumber = Math.floor(state.rowNumber / options.batchSize) + 1;
-        state.batchQueue.push({
-          rows: state.batchedRows,
-          batchNumber,
-        });
-        state.batchedRows = []; // Reset for next batch
+        this.queueBatch(state, batchNumber);
 
-        // Manage backpressure: pause stream if queue is at capacity
-        if (
-          state.batchQueue.length >= state.maxQueueSize &&
-          !state.isStreamPaused
-        ) {
+        // Manage backpressure: pause stream if queue is at capacity or
+        // memory is over budget
+        const queueFull = state.batchQueue.length >= state.maxQueueSize;
+        const overBudget =
+          state.memoryBudget?.isOverBudget(state.queuedBytes) ?? false;
+        if ((queueFull || overBudget) && !state.isStreamPaused) {
           state.isStreamPaused = true;
           stream.pause();
           console.log(
-            `⏸️  Stream paused - queue at capacity (${state.batchQueue.length}/${state.maxQueueSize})`
+            queueFull
+              ? `⏸️  Stream paused - queue at capacity (${state.batchQueue.length}/${state.maxQueueSize})`
+              : `⏸️  Stream paused - over memory budget (${Math.round(state.queuedBytes / 1024 / 1024)}MB queued, ${Math.round(state.memoryBudget!.heapUsedMB())}MB heap)`
           );
         }
 
@@ -179,7 +212,7 @@ export class StreamBatchProcessor {
    * Handle stream end event - process remaining batches
    */
   private async handleEndEvent<T>(
-    state: any,
+    state: ProcessingState,
     batchExecutor: BatchExecutor<T>,
     startTime: number,
     resolve: (value: StreamLoadResult) => void,
@@ -190,11 +223,7 @@ export class StreamBatchProcessor {
       if (state.batchedRows.length > 0) {
         const batchNumber =
           Math.floor(state.rowNumber / state.batchedRows.length) + 1;
-        state.batchQueue.push({
-          rows: state.batchedRows,
-          batchNumber,
-        });
-        state.batchedRows = [];
+        this.queueBatch(state, batchNumber);
       }
 
       // Process any remaining batches in the queue
@@ -218,19 +247,36 @@ export class StreamBatchProcessor {
         durationMs: Date.now() - startTime,
         bytesProcessed: 0,
         rowsPerSecond: state.rowNumber / ((Date.now() - startTime) / 1000),
-        memoryUsageMB: process.memoryUsage().heapUsed / 1024 / 1024,
+        memoryUsageMB: state.peakQueuedBytes / 1024 / 1024,
       });
     } catch (error) {
       reject(new Error(`Error processing final buffer: ${error}`));
     }
   }
 
+  /**
+   * Move the rows gathered so far onto the queue
+   */
+  private queueBatch(state: ProcessingState, batchNumber: number): void {
+    const bytes = state.bytesRead - state.lastQueuedOffset;
+    state.batchQueue.push({
+      rows: state.batchedRows,
+      batchNumber,
+      byteOffset: state.bytesRead,
+      bytes,
+    });
+    state.batchedRows = []; // Reset for next batch
+    state.lastQueuedOffset = state.bytesRead;
+    state.queuedBytes += bytes;
+    state.peakQueuedBytes = Math.max(state.peakQueuedBytes, state.queuedBytes);
+  }
+
   /**
    * Process batches from the queue asynchronously
    */
   private async processBatchQueue<T>(
-    state: any,
-    stream: Readable | null,
+    state: ProcessingState,
+    stream: NodeJS.ReadableStream | null,
     batchExecutor: BatchExecutor<T>
   ): Promise<void> {
     if (state.isProcessing || state.batchQueue.length === 0) return;
@@ -240,6 +286,7 @@ export class StreamBatchProcessor {
     while (state.batchQueue.length > 0) {
       const queueItem = state.batchQueue.shift();
       if (!queueItem) continue;
+      state.rowsDone += queueItem.rows.length;
 
       try {
         console.log(`📦 Processing batch of ${queueItem.rows.length} rows`);
@@ -252,32 +299,67 @@ export class StreamBatchProcessor {
         if (batchResult.success) {
           state.successfulBatches++;
           console.log(`✅ Batch processed successfully`);
+          await this.reportCheckpoint(state, queueItem.byteOffset);
         } else {
           state.failedBatches++;
+          state.checkpointHeld = true;
           // Collect errors from batch result
           state.errors.push(...(batchResult.errors || []));
           state.warnings.push(...(batchResult.warnings || []));
         }
-
-        // Resume stream if it was paused and queue has space (only if stream is still active)
-        if (
-          stream &&
-          state.isStreamPaused &&
-          state.batchQueue.length < state.maxQueueSize
-        ) {
-          state.isStreamPaused = false;
-          stream.resume();
-          console.log(`🔄 Stream resumed - queue has space`);
-        }
       } catch (error) {
         console.error(`❌ Batch processing failed:`, error);
         state.failedBatches++;
+        state.checkpointHeld = true;
+      }
+      state.queuedBytes -= queueItem.bytes;
+
+      // Resume stream if it was paused and queue has space within the
+      // memory budget (only if stream is still active)
+      if (
+        stream &&
+        state.isStreamPaused &&
+        state.batchQueue.length < state.maxQueueSize &&
+        !state.memoryBudget?.isOverBudget(state.queuedBytes)
+      ) {
+        state.isStreamPaused = false;
+        stream.resume();
+        console.log(`🔄 Stream resumed - queue has space`);
       }
     }
 
+    // Over the memory budget the stream stays paused while batches are
+    // queued; with none left it reads on, so it always makes progress
+    if (stream && state.isStreamPaused) {
+      state.isStreamPaused = false;
+      stream.resume();
+      console.log(`🔄 Stream resumed - queue drained`);
+    }
+
     state.isProcessing = false;
   }
 
+  /**
+   * Report a checkpoint after a committed batch; a failed report is only
+   * logged, as it leaves less to skip when resuming. Once a batch has failed
+   * the checkpoint stays before it, so a resume loads its rows again
+   */
+  private async reportCheckpoint(
+    state: ProcessingState,
+    byteOffset: number
+  ): Promise<void> {
+    if (!state.onCheckpoint || state.checkpointHeld) return;
+
+    try {
+      await state.onCheckpoint({ rowNumber: state.rowsDone, byteOffset });
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not record checkpoint at row ${state.rowsDone}:`,
+        error
+      );
+    }
+  }
+
   /**
    * Log progress with memory information
    */
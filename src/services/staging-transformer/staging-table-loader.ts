@@ -8,6 +8,10 @@ import type { DatabasePool } from "@/services/shared/database-pool";
 import { BatchLoader } from "@/services/shared/batch-loader";
 import type { InsertBatch, BatchResult } from "@/services/shared/types";
 import type { ErrorHandler } from "@/services/raw-loader/error-handler";
+import {
+  NoRetryPolicy,
+  type RetryPolicy,
+} from "@/services/shared/retry-policy";
 import type { StagingTransformOptions } from "./types/transformer";
 
 /**
@@ -26,9 +30,10 @@ export class StagingTableLoader {
 
   constructor(
     private dbPool: DatabasePool,
-    private errorHandler: ErrorHandler
+    private errorHandler: ErrorHandler,
+    private retryPolicy: RetryPolicy = NoRetryPolicy
   ) {
-    this.batchLoader = new BatchLoader(dbPool, errorHandler);
+    this.batchLoader = new BatchLoader(dbPool, errorHandler, retryPolicy);
   }
 
   /**
@@ -126,17 +131,21 @@ export class StagingTableLoader {
       );
 
       // Execute upsert in transaction
-      const result = await this.dbPool.transaction(async (client) => {
-        const flatValues = batch.values.flat();
-
-        if (flatValues.length !== paramCount) {
-          throw new Error(
-            `Parameter count mismatch: expected ${paramCount}, got ${flatValues.length}`
-          );
-        }
-
-        return await client.query(query, flatValues);
-      });
+      const result = await this.retryPolicy.execute(
+        `Batch ${batch.batchNumber} upsert into ${batch.tableName}`,
+        () =>
+          this.dbPool.transaction(async (client) => {
+            const flatValues = batch.values.flat();
+
+            if (flatValues.length !== paramCount) {
+              throw new Error(
+                `Parameter count mismatch: expected ${paramCount}, got ${flatValues.length}`
+              );
+            }
+
+            return await client.query(query, flatValues);
+          })
+      );
 
       console.log(
         `✅ Upsert completed: ${result.rowCount} rows affected (batch ${batch.batchNumber})`
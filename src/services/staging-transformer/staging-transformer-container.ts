@@ -5,6 +5,8 @@
 
 import { DatabasePool } from "@/services/shared/database-pool";
 import { ErrorHandler } from "@/services/raw-loader/error-handler";
+import { LoadMonitor } from "@/services/raw-loader/load-monitor";
+import { DefaultRawLoaderConfig } from "@/services/raw-loader/types/config";
 import { StagingTransformerService } from "./staging-transformer-service";
 import type { StagingTransformerConfig } from "./types/config";
 import { defaultStagingTransformerConfig } from "./types/config";
@@ -16,9 +18,11 @@ import { defaultStagingTransformerConfig } from "./types/config";
 export class StagingTransformerContainer {
   /**
    * Create a fully configured StagingTransformerService instance
+   * @param monitor - Counts retries in its run metrics; pass one to share it
    */
   static create(
-    config?: Partial<StagingTransformerConfig>
+    config?: Partial<StagingTransformerConfig>,
+    monitor: LoadMonitor = new LoadMonitor(DefaultRawLoaderConfig.monitoring)
   ): StagingTransformerService {
     // Merge with defaults
     const fullConfig: StagingTransformerConfig = {
@@ -56,7 +60,8 @@ export class StagingTransformerContainer {
     const service = new StagingTransformerService(
       dbPool,
       errorHandler,
-      fullConfig
+      fullConfig,
+      monitor
     );
 
     console.log("✅ Staging Transformer Service ready");
@@ -70,13 +75,19 @@ export class StagingTransformerContainer {
   static createForTesting(
     dbPool: DatabasePool,
     errorHandler: ErrorHandler,
-    config?: Partial<StagingTransformerConfig>
+    config?: Partial<StagingTransformerConfig>,
+    monitor: LoadMonitor = new LoadMonitor(DefaultRawLoaderConfig.monitoring)
   ): StagingTransformerService {
     const fullConfig: StagingTransformerConfig = {
       ...defaultStagingTransformerConfig,
       ...config,
     };
 
-    return new StagingTransformerService(dbPool, errorHandler, fullConfig);
+    return new StagingTransformerService(
+      dbPool,
+      errorHandler,
+      fullConfig,
+      monitor
+    );
   }
 }
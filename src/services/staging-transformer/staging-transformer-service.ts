@@ -10,6 +10,10 @@
 
 import type { DatabasePool } from "@/services/shared/database-pool";
 import type { ErrorHandler } from "@/services/raw-loader/error-handler";
+import { LoadMonitor } from "@/services/raw-loader/load-monitor";
+import { DefaultRawLoaderConfig } from "@/services/raw-loader/types/config";
+import type { LoadMetrics } from "@/services/raw-loader/types/raw-loader";
+import type { RetryPolicy } from "@/services/shared/retry-policy";
 import { RawQueryBuilder, type RawQueryOptions } from "./raw-query-builder";
 import { TransformationEngine } from "./transformation-engine";
 import { ValidationEngine } from "./validation-engine";
@@ -35,17 +39,29 @@ export class StagingTransformerService {
   private rejectionHandler: RejectionHandler;
   private stagingLoader: StagingTableLoader;
   private stagingRunService: StagingRunService;
+  private retryPolicy: RetryPolicy;
 
   constructor(
     private dbPool: DatabasePool,
     private errorHandler: ErrorHandler,
-    private config: StagingTransformerConfig
+    private config: StagingTransformerConfig,
+    private monitor: LoadMonitor = new LoadMonitor(
+      DefaultRawLoaderConfig.monitoring
+    )
   ) {
+    // Retries of raw reads and staging writes are counted in the run metrics
+    this.retryPolicy = errorHandler.createRetryPolicy(() =>
+      monitor.recordRetry()
+    );
     this.queryBuilder = new RawQueryBuilder();
     this.transformationEngine = new TransformationEngine(config.transformation);
     this.validationEngine = new ValidationEngine(config.validation);
     this.rejectionHandler = new RejectionHandler(dbPool, config.validation);
-    this.stagingLoader = new StagingTableLoader(dbPool, errorHandler);
+    this.stagingLoader = new StagingTableLoader(
+      dbPool,
+      errorHandler,
+      this.retryPolicy
+    );
     this.stagingRunService = new StagingRunService();
   }
 
@@ -109,9 +125,9 @@ export class StagingTransformerService {
       const countQuery = this.queryBuilder.buildCountQuery({
         sourceTable: handler.sourceTable,
       });
-      const countResult = await this.dbPool.query(
-        countQuery.query,
-        countQuery.params
+      const countResult = await this.retryPolicy.execute(
+        `Count ${handler.sourceTable}`,
+        () => this.dbPool.query(countQuery.query, countQuery.params)
       );
       const totalRows = parseInt(countResult.rows[0]?.total || "0", 10);
 
@@ -231,7 +247,10 @@ export class StagingTransformerService {
 
         const { query, params } =
           this.queryBuilder.buildSelectQuery(queryOptions);
-        const result = await this.dbPool.query(query, params);
+        const result = await this.retryPolicy.execute(
+          `Read ${handler.sourceTable} at offset ${offset}`,
+          () => this.dbPool.query(query, params)
+        );
         const rawRows = result.rows;
 
         totalRowsRead += rawRows.length;
@@ -651,6 +670,13 @@ export class StagingTransformerService {
     };
   }
 
+  /**
+   * Get current metrics, including retries of transient failures
+   */
+  async getMetrics(): Promise<LoadMetrics> {
+    return this.monitor.getMetrics();
+  }
+
   /**
    * Health check
    */